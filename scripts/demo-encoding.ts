@@ -0,0 +1,115 @@
+/**
+ * Demo file check for CI: round-trips a recorded demo through encodeDemo
+ * and decodeDemo, and makes sure damaged files are turned away. Exits
+ * non-zero if any check fails.
+ *
+ *   npm test
+ */
+
+import { createTickInput } from "../src/game/core/Simulation";
+import {
+  DEMO_VERSION,
+  DemoRecorder,
+  decodeDemo,
+  encodeDemo,
+  type DemoFrame,
+} from "../src/game/systems/DemoSystem";
+
+/** A recorded frame, idle unless overridden */
+function frame(overrides: Partial<DemoFrame> = {}): DemoFrame {
+  return {
+    ...createTickInput(),
+    ticks: 1,
+    floorsAdvanced: 0,
+    perk: null,
+    ...overrides,
+  };
+}
+
+/** JSON with object keys sorted, to compare values built in any key order */
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_key, inner) =>
+    inner && typeof inner === "object" && !Array.isArray(inner)
+      ? Object.fromEntries(
+          Object.entries(inner).sort(([a], [b]) => (a < b ? -1 : 1))
+        )
+      : inner
+  );
+}
+
+const recorder = new DemoRecorder(1337, "hard", "campaign");
+// Long idle stretches and repeated held keys exercise the run-length packing
+for (let i = 0; i < 90; i++) recorder.record(frame());
+for (let i = 0; i < 30; i++) {
+  recorder.record(
+    frame({
+      ticks: i % 3 === 0 ? 2 : 1,
+      movement: {
+        ...createTickInput().movement,
+        forward: true,
+        left: i > 20,
+      },
+    })
+  );
+}
+recorder.record(frame({ mouseDeltaX: -12.5, fire: true }));
+recorder.record(
+  frame({ mouseDeltaX: 40, use: true, weaponSwitch: "shotgun" })
+);
+recorder.record(frame({ ticks: 15, weaponSwitch: "chaingun" }));
+recorder.record(frame({ ticks: 0, floorsAdvanced: 1, perk: "vitality" }));
+for (let i = 0; i < 60; i++) recorder.record(frame());
+
+const problems: string[] = [];
+const demo = recorder.toDemo();
+const text = encodeDemo(demo);
+const decoded = decodeDemo(text);
+
+if (!decoded) {
+  problems.push("encoded demo didn't decode");
+} else {
+  if (canonical(decoded) !== canonical(demo)) {
+    problems.push("decoded demo differs from the one recorded");
+  }
+  if (encodeDemo(decoded) !== text) {
+    problems.push("re-encoding the decoded demo gave different text");
+  }
+}
+
+/** The encoded demo with its frame runs swapped out */
+const withRuns = (frames: unknown[]) =>
+  JSON.stringify({ ...JSON.parse(text), frames });
+
+const rejected: Array<[string, string]> = [
+  ["a repeat count of a billion", withRuns([[1e9, 1]])],
+  ["runs adding up past the frame limit", withRuns([[400000, 1], [400000]])],
+  ["a zero repeat count", withRuns([[0, 1]])],
+  ["a fractional repeat count", withRuns([[1.5, 1]])],
+  ["negative ticks", withRuns([[1, -1]])],
+  ["a minute of ticks in one frame", withRuns([[1, 3600]])],
+  ["a non-numeric mouse delta", withRuns([[1, 1, 0, "left"]])],
+  ["a NaN mouse delta", withRuns([[1, 1, 0, null]])],
+  ["an unknown weapon code", withRuns([[1, 1, 0, 0, 99]])],
+  ["an unknown perk code", withRuns([[1, 1, 0, 0, 0, 0, 99]])],
+  ["a run that isn't an array", withRuns([{ count: 1 }])],
+  ["a run with no frame", withRuns([[1]])],
+  [
+    "another demo version",
+    JSON.stringify({ ...JSON.parse(text), version: DEMO_VERSION + 1 }),
+  ],
+];
+for (const [label, file] of rejected) {
+  if (decodeDemo(file) !== null) {
+    problems.push(`decoded a demo with ${label}`);
+  }
+}
+
+if (problems.length > 0) {
+  console.error("FAIL demo encoding");
+  problems.forEach((problem) => console.error(`  ${problem}`));
+  process.exit(1);
+}
+console.log(
+  `ok   ${demo.frames.length} demo frames round-tripped in ${text.length} ` +
+    `bytes, ${rejected.length} damaged files rejected`
+);
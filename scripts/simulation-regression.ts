@@ -0,0 +1,115 @@
+/**
+ * Headless regression run for CI: steps seeded simulations with a scripted
+ * bot at every skill level in both modes and checks the state they end in.
+ * Exits non-zero if any check fails.
+ *
+ *   npm test
+ */
+
+import {
+  Simulation,
+  createTickInput,
+  type InputScript,
+} from "../src/game/core/Simulation";
+import { GAME_MODES, type GameState } from "../src/game/core/GameStateManager";
+import { getCrusherAt } from "../src/game/core/Crushers";
+import { SKILL_IDS } from "../src/game/core/Skills";
+
+const SEEDS = [1, 42, 1337];
+const TICKS = 60 * 60; // One minute of play per run
+
+/**
+ * Walk forward firing every few ticks, turning in bursts so the bot sweeps
+ * the floor rather than pressing into one wall
+ */
+const bot: InputScript = (tick) =>
+  createTickInput({
+    movement: { forward: true, rotateRight: tick % 120 < 20 },
+    fire: tick % 15 === 0,
+    use: tick % 60 === 0,
+  });
+
+/** State as a string to compare runs, with Sets written out */
+function serialize(state: Readonly<GameState>): string {
+  return JSON.stringify(state, (_key, value) =>
+    value instanceof Set ? Array.from(value) : value
+  );
+}
+
+/** Problems with a finished run's state, empty if it looks sound */
+function checkState(state: Readonly<GameState>, ticks: number): string[] {
+  const problems: string[] = [];
+  const { player, worldMap } = state;
+  const cellX = Math.floor(player.x);
+  const cellY = Math.floor(player.y);
+
+  if (!Number.isFinite(player.x) || !Number.isFinite(player.y)) {
+    problems.push(`player position is ${player.x}, ${player.y}`);
+  } else if (
+    worldMap[cellY]?.[cellX] !== 0 &&
+    !getCrusherAt(state.crushers, cellX, cellY) // Caught as it slammed
+  ) {
+    problems.push(`player stands in a wall at ${player.x}, ${player.y}`);
+  }
+  if (player.health > player.maxHealth) {
+    problems.push(`health ${player.health} over max ${player.maxHealth}`);
+  }
+  for (const [type, amount] of Object.entries(player.ammo)) {
+    const max = player.maxAmmo[type as keyof typeof player.maxAmmo];
+    if (amount < 0 || amount > max) {
+      problems.push(`${type} ammo ${amount} outside 0-${max}`);
+    }
+  }
+  if (state.runStats.ticks !== ticks) {
+    problems.push(`${state.runStats.ticks} ticks counted, ${ticks} run`);
+  }
+  state.enemies.forEach((enemy) => {
+    if (!Number.isFinite(enemy.x) || !Number.isFinite(enemy.y)) {
+      problems.push(`enemy ${enemy.id} position is ${enemy.x}, ${enemy.y}`);
+    }
+  });
+  if (state.mode === "survival" && state.gameStatus === "playing") {
+    if ((state.survival?.wave ?? 0) < 1) {
+      problems.push("no survival wave started");
+    }
+  }
+  return problems;
+}
+
+let failures = 0;
+
+for (const mode of GAME_MODES) {
+  for (const skill of SKILL_IDS) {
+    for (const seed of SEEDS) {
+      const options = { seed, skill, mode };
+      const first = new Simulation(options);
+      const end = first.run(TICKS, bot);
+      const problems = checkState(end, first.getTick());
+
+      // The same seed and input must always play out the same way
+      const second = new Simulation(options);
+      second.run(TICKS, bot);
+      if (serialize(second.getState()) !== serialize(end)) {
+        problems.push("replaying the same seed gave a different state");
+      }
+
+      const label = `${mode} ${skill} seed ${seed}`;
+      if (problems.length > 0) {
+        failures++;
+        console.error(`FAIL ${label}`);
+        problems.forEach((problem) => console.error(`  ${problem}`));
+      } else {
+        console.log(
+          `ok   ${label}: ${end.gameStatus} after ${first.getTick()} ticks, ` +
+            `health ${end.player.health}, ${end.enemies.length} enemies`
+        );
+      }
+    }
+  }
+}
+
+if (failures > 0) {
+  console.error(`${failures} simulation run(s) failed`);
+  process.exit(1);
+}
+console.log("All simulation runs passed");
@@ -4,17 +4,51 @@ import AudioSettings from "@/components/AudioSettings";
 
 import HUD from "@/components/HUD";
 import Minimap from "@/components/Minimap";
-import { GameState } from "@/game/core/GameStateManager";
+import SaveLoadMenu from "@/components/SaveLoadMenu";
+import Leaderboard from "@/components/Leaderboard";
+import AchievementGallery from "@/components/AchievementGallery";
+import { Toaster } from "@/components/ui/sonner";
+import { GameState, type GameMode } from "@/game/core/GameStateManager";
+import type { GameEvent } from "@/game/core/GameEvents";
+import { getWeapon } from "@/game/core/Weapons";
+import { getObjective } from "@/game/core/Objectives";
 import { AudioSystem } from "@/game/systems/AudioSystem";
+import { parseSeed } from "@/game/core/SeededRandom";
+import {
+  DEFAULT_SKILL,
+  SKILL_IDS,
+  getSkill,
+  isSkillId,
+  type SkillId,
+} from "@/game/core/Skills";
+import { SaveSystem, type SaveSnapshot } from "@/game/systems/SaveSystem";
+import { decodeDemo, type Demo } from "@/game/systems/DemoSystem";
+import { perfMonitor } from "@/game/systems/PerfMonitor";
 
 export default function App() {
+  perfMonitor.countRender("App");
   const [gameStarted, setGameStarted] = useState(false);
   const [showInstructions, setShowInstructions] = useState(false);
   const [showAudioSettings, setShowAudioSettings] = useState(false);
+  const [seedInput, setSeedInput] = useState("");
+  const [runSeed, setRunSeed] = useState<number | undefined>(undefined);
+  const [skill, setSkill] = useState<SkillId>(DEFAULT_SKILL);
+  const [mode, setMode] = useState<GameMode>("campaign");
+  const [showLoadMenu, setShowLoadMenu] = useState(false);
+  const [showLeaderboard, setShowLeaderboard] = useState(false);
+  const [showAchievements, setShowAchievements] = useState(false);
+  const [initialSave, setInitialSave] = useState<SaveSnapshot | null>(null);
+  const [hasSave, setHasSave] = useState(
+    () => new SaveSystem().getMostRecent() !== null
+  );
+  const [demo, setDemo] = useState<Demo | null>(null);
+  const [demoError, setDemoError] = useState(false);
+  const demoInputRef = useRef<HTMLInputElement>(null);
 
   const [currentGameState, setCurrentGameState] = useState<GameState | null>(
     null
   );
+  const [lastGameEvent, setLastGameEvent] = useState<GameEvent | null>(null);
   const gameEngineRef = useRef<any>(null);
   const audioSystemRef = useRef<AudioSystem | null>(null);
 
@@ -36,6 +70,10 @@ export default function App() {
     setCurrentGameState(state);
   }, []);
 
+  const handleGameEvent = useCallback((event: GameEvent) => {
+    setLastGameEvent(event);
+  }, []);
+
   const playMenuSound = () => {
     if (audioSystemRef.current) {
       try {
@@ -46,8 +84,40 @@ export default function App() {
     }
   };
 
-  const startGame = () => {
+  const startGame = (selectedMode: GameMode) => {
+    playMenuSound();
+    setRunSeed(parseSeed(seedInput) ?? undefined);
+    setMode(selectedMode);
+    setInitialSave(null);
+    setDemo(null);
+    setGameStarted(true);
+  };
+
+  const startFromSave = (snapshot: SaveSnapshot) => {
+    playMenuSound();
+    setRunSeed(undefined);
+    setInitialSave(snapshot);
+    setDemo(null);
+    setShowLoadMenu(false);
+    setGameStarted(true);
+  };
+
+  const continueGame = () => {
+    const latest = new SaveSystem().getMostRecent();
+    if (latest?.snapshot) {
+      startFromSave(latest.snapshot);
+    }
+  };
+
+  const playDemoFile = async (file: File) => {
+    const loaded = decodeDemo(await file.text());
+    setDemoError(loaded === null);
+    if (!loaded) return;
+
     playMenuSound();
+    setRunSeed(undefined);
+    setInitialSave(null);
+    setDemo(loaded);
     setGameStarted(true);
   };
 
@@ -55,6 +125,7 @@ export default function App() {
     playMenuSound();
     setGameStarted(false);
     setCurrentGameState(null);
+    setHasSave(new SaveSystem().getMostRecent() !== null);
   };
 
   const handleMenuClick = (action: () => void) => {
@@ -89,13 +160,117 @@ export default function App() {
           </div>
 
           <div className="space-y-4">
+            <div className="flex items-center justify-center space-x-2">
+              <label
+                htmlFor="seed-input"
+                className="text-lg text-gray-400 font-mono font-medium"
+              >
+                SEED:
+              </label>
+              <input
+                id="seed-input"
+                type="text"
+                value={seedInput}
+                onChange={(e) => setSeedInput(e.target.value)}
+                placeholder="random"
+                className="w-48 px-3 py-2 bg-gray-900 text-white font-mono text-lg border-2 border-gray-600 focus:border-red-500 outline-none"
+              />
+            </div>
+
+            <div className="flex items-center justify-center space-x-2">
+              <label
+                htmlFor="skill-select"
+                className="text-lg text-gray-400 font-mono font-medium"
+              >
+                SKILL:
+              </label>
+              <select
+                id="skill-select"
+                value={skill}
+                onChange={(e) => {
+                  if (isSkillId(e.target.value)) setSkill(e.target.value);
+                }}
+                className="w-72 px-3 py-2 bg-gray-900 text-white font-mono text-lg border-2 border-gray-600 focus:border-red-500 outline-none"
+              >
+                {SKILL_IDS.map((id) => (
+                  <option key={id} value={id}>
+                    {getSkill(id).name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
             <button
-              onClick={startGame}
+              onClick={() => startGame("campaign")}
               className="block mx-auto px-8 py-4 bg-red-600 hover:bg-red-700 text-white font-mono text-2xl font-bold border-2 border-red-500 transition-colors retro-button"
             >
               START GAME
             </button>
 
+            <button
+              onClick={() => startGame("survival")}
+              className="block mx-auto px-8 py-4 bg-yellow-600 hover:bg-yellow-700 text-white font-mono text-xl font-bold border-2 border-yellow-500 transition-colors retro-button"
+            >
+              SURVIVAL
+            </button>
+
+            {hasSave && (
+              <button
+                onClick={continueGame}
+                className="block mx-auto px-8 py-4 bg-green-600 hover:bg-green-700 text-white font-mono text-xl font-bold border-2 border-green-500 transition-colors retro-button"
+              >
+                CONTINUE
+              </button>
+            )}
+
+            <button
+              onClick={() => handleMenuClick(() => setShowLoadMenu(true))}
+              className="block mx-auto px-8 py-4 bg-purple-600 hover:bg-purple-700 text-white font-mono text-xl font-medium border-2 border-purple-500 transition-colors retro-button"
+            >
+              LOAD GAME
+            </button>
+
+            <button
+              onClick={() =>
+                handleMenuClick(() => demoInputRef.current?.click())
+              }
+              className="block mx-auto px-8 py-4 bg-blue-600 hover:bg-blue-700 text-white font-mono text-xl font-medium border-2 border-blue-500 transition-colors retro-button"
+            >
+              PLAY DEMO
+            </button>
+            <input
+              ref={demoInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) {
+                  void playDemoFile(file);
+                }
+              }}
+            />
+            {demoError && (
+              <p className="text-lg text-red-400 font-mono">
+                INVALID DEMO FILE
+              </p>
+            )}
+
+            <button
+              onClick={() => handleMenuClick(() => setShowLeaderboard(true))}
+              className="block mx-auto px-8 py-4 bg-gray-700 hover:bg-gray-600 text-white font-mono text-xl font-medium border-2 border-gray-600 transition-colors retro-button"
+            >
+              LEADERBOARD
+            </button>
+
+            <button
+              onClick={() => handleMenuClick(() => setShowAchievements(true))}
+              className="block mx-auto px-8 py-4 bg-gray-700 hover:bg-gray-600 text-white font-mono text-xl font-medium border-2 border-gray-600 transition-colors retro-button"
+            >
+              ACHIEVEMENTS
+            </button>
+
             <button
               onClick={() =>
                 handleMenuClick(() => setShowInstructions(!showInstructions))
@@ -120,8 +295,9 @@ export default function App() {
               </h3>
               <div className="space-y-3 text-lg">
                 <p className="font-medium">
-                  <strong>OBJECTIVE:</strong> Eliminate all hostile entities in
-                  the facility
+                  <strong>OBJECTIVE:</strong> Each floor names its own: reach
+                  the exit switch, kill every enemy, survive the clock or bring
+                  down the boss
                 </p>
                 <p className="font-medium">
                   <strong>MOVEMENT:</strong> WASD or Arrow Keys
@@ -137,6 +313,10 @@ export default function App() {
                 <p className="font-medium">
                   <strong>WEAPON SWITCHING:</strong> Number keys 1, 2, 3
                 </p>
+                <p className="font-medium">
+                  <strong>USE:</strong> SPACE or F presses switches and doors
+                  in front of you - some walls hide secrets
+                </p>
                 <p className="font-medium">
                   <strong>PAUSE:</strong> ESC key
                 </p>
@@ -148,13 +328,36 @@ export default function App() {
                   count
                 </p>
                 <p className="font-medium">
-                  <strong>PICKUPS:</strong> Enemies drop health, ammo, and
-                  weapons when defeated
+                  <strong>PICKUPS:</strong> Enemies drop health, ammo, armor
+                  and weapons when defeated
+                </p>
+                <p className="font-medium">
+                  <strong>KEYCARDS:</strong> Colored doors stay locked until
+                  you find the matching keycard
+                </p>
+                <p className="font-medium">
+                  <strong>SWITCHES:</strong> Glowing cyan switches open a
+                  sealed door elsewhere; the orange exit switch waits in a room
+                  far from the start on exit floors
+                </p>
+                <p className="font-medium">
+                  <strong>POWER-UPS:</strong> Rare glowing spheres grant
+                  invulnerability, berserk, invisibility or light amp for a
+                  limited time
+                </p>
+                <p className="font-medium">
+                  <strong>HAZARDS:</strong> Nukage, lava and void rifts burn
+                  you while you stand in them; a radiation suit left nearby
+                  keeps them off for a minute
                 </p>
                 <p className="font-medium">
                   <strong>ENEMIES:</strong> Grunts (G), Soldiers (S), and
                   Captains (C) with varying difficulty
                 </p>
+                <p className="font-medium">
+                  <strong>PERKS:</strong> Clearing a floor offers three perks;
+                  pick one to carry through the rest of the run
+                </p>
                 <p className="font-medium">
                   <strong>WEAPONS:</strong> Start with pistol, find shotgun and
                   chaingun upgrades
@@ -217,6 +420,34 @@ export default function App() {
             onClose={() => handleMenuClick(() => setShowAudioSettings(false))}
           />
         )}
+
+        {/* Load Game Screen */}
+        {showLoadMenu && (
+          <SaveLoadMenu
+            mode="load"
+            onLoad={startFromSave}
+            onClose={() =>
+              handleMenuClick(() => {
+                setShowLoadMenu(false);
+                setHasSave(new SaveSystem().getMostRecent() !== null);
+              })
+            }
+          />
+        )}
+
+        {/* Run history */}
+        {showLeaderboard && (
+          <Leaderboard
+            onClose={() => handleMenuClick(() => setShowLeaderboard(false))}
+          />
+        )}
+
+        {/* Achievements */}
+        {showAchievements && (
+          <AchievementGallery
+            onClose={() => handleMenuClick(() => setShowAchievements(false))}
+          />
+        )}
       </div>
     );
   }
@@ -230,7 +461,11 @@ export default function App() {
             DOOM - Browser Edition 🎵 Techno E♭♯♭ @ 128 BPM
             {currentGameState && (
               <span className="text-blue-400 ml-4">
-                Floor {currentGameState.currentFloor}
+                {currentGameState.survival ? (
+                  <>Survival • Wave {currentGameState.survival.wave}</>
+                ) : (
+                  <>Floor {currentGameState.currentFloor}</>
+                )}
                 {currentGameState.isBossFloor && (
                   <span className="text-red-400 ml-2">BOSS FLOOR</span>
                 )}
@@ -253,15 +488,12 @@ export default function App() {
                   WEAPON:
                 </span>
                 <span
-                  className={`text-lg font-bold ${
-                    currentGameState.player.weapon === "pistol"
-                      ? "text-yellow-400"
-                      : currentGameState.player.weapon === "shotgun"
-                      ? "text-orange-400"
-                      : "text-red-400"
-                  }`}
+                  className="text-lg font-bold"
+                  style={{
+                    color: getWeapon(currentGameState.player.weapon).hud.color,
+                  }}
                 >
-                  {currentGameState.player.weapon.toUpperCase()}
+                  {getWeapon(currentGameState.player.weapon).name}
                 </span>
                 {currentGameState.player.isAttacking && (
                   <span className="text-red-500 text-lg animate-pulse">●</span>
@@ -286,11 +518,7 @@ export default function App() {
                             : "border-gray-600 text-gray-400"
                         }`}
                       >
-                        {weapon === "pistol"
-                          ? "1"
-                          : weapon === "shotgun"
-                          ? "2"
-                          : "3"}
+                        {getWeapon(weapon).slot}
                       </span>
                     )
                   )}
@@ -343,8 +571,14 @@ export default function App() {
           <GameEngine
             ref={gameEngineRef}
             onGameStateChange={handleGameStateChange}
+            onGameEvent={handleGameEvent}
             onExitToMenu={returnToMenu}
             sharedAudioSystem={audioSystemRef.current}
+            seed={runSeed}
+            skill={skill}
+            mode={mode}
+            initialSave={initialSave}
+            demo={demo}
           />
 
           {/* Minimap overlay - hide when paused */}
@@ -356,6 +590,11 @@ export default function App() {
               enemies={currentGameState.enemies}
               pickups={currentGameState.pickups}
               worldMap={currentGameState.worldMap}
+              hazardMap={currentGameState.hazardMap}
+              doors={currentGameState.doors}
+              crushers={currentGameState.crushers}
+              keycards={currentGameState.player.keycards}
+              revealAll={currentGameState.cheats.reveal}
             />
           )}
 
@@ -367,8 +606,16 @@ export default function App() {
                 <div className="font-medium">Mouse: Look</div>
                 <div className="font-medium">Click: Fire</div>
                 <div className="font-medium">1/2/3: Switch Weapon</div>
+                <div className="font-medium">SPACE/F: Use</div>
                 <div className="font-medium">ESC: Pause</div>
-                <div className="font-medium">Objective: Kill all enemies</div>
+                <div className="font-medium">F5/F9: Quicksave/Load</div>
+                <div className="font-medium">F3: Perf / Debug Overlay</div>
+                <div className="font-medium">
+                  Objective:{" "}
+                  {currentGameState?.objective
+                    ? getObjective(currentGameState.objective.id).name
+                    : "Survive the waves"}
+                </div>
                 <div className="font-medium text-green-400">
                   Walk near items to collect
                 </div>
@@ -402,10 +649,20 @@ export default function App() {
             <HUD
               health={currentGameState.player.health}
               maxHealth={currentGameState.player.maxHealth}
+              armor={currentGameState.player.armor}
+              armorClass={currentGameState.player.armorClass}
               ammo={currentGameState.player.ammo}
               maxAmmo={currentGameState.player.maxAmmo}
               weapon={currentGameState.player.weapon}
               isAttacking={currentGameState.player.isAttacking}
+              skill={currentGameState.skill}
+              survival={currentGameState.survival}
+              perks={currentGameState.player.perks}
+              powerUps={currentGameState.player.powerUps}
+              keycards={currentGameState.player.keycards}
+              objective={currentGameState.objective}
+              enemiesLeft={currentGameState.enemies.length}
+              lastEvent={lastGameEvent}
             />
           </div>
         )}
@@ -418,6 +675,9 @@ export default function App() {
           onClose={() => handleMenuClick(() => setShowAudioSettings(false))}
         />
       )}
+
+      {/* Achievement unlock toasts */}
+      <Toaster theme="dark" position="top-center" />
     </div>
   );
 }
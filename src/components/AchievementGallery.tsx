@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { ACHIEVEMENT_IDS, getAchievement } from "@/game/core/Achievements";
+import { AchievementSystem } from "@/game/systems/AchievementSystem";
+
+interface AchievementGalleryProps {
+  onClose: () => void;
+}
+
+export default function AchievementGallery({
+  onClose,
+}: AchievementGalleryProps) {
+  const [unlocked] = useState(() => new AchievementSystem().getUnlocked());
+  const unlockedCount = ACHIEVEMENT_IDS.filter(
+    (id) => unlocked[id] !== undefined
+  ).length;
+
+  return (
+    <div className="absolute inset-0 bg-black bg-opacity-95 flex items-center justify-center z-50">
+      <div className="text-center space-y-6 max-w-4xl w-full p-8">
+        <div className="space-y-2">
+          <h2 className="text-5xl font-mono text-yellow-400 font-bold tracking-wider">
+            ACHIEVEMENTS
+          </h2>
+          <div className="w-32 h-1 bg-yellow-400 mx-auto"></div>
+          <p className="text-lg text-gray-400 font-mono">
+            {unlockedCount} / {ACHIEVEMENT_IDS.length} UNLOCKED
+          </p>
+        </div>
+
+        <div className="achievement-grid grid grid-cols-1 md:grid-cols-2 gap-4 text-left">
+          {ACHIEVEMENT_IDS.map((id) => {
+            const achievement = getAchievement(id);
+            const unlockedAt = unlocked[id];
+
+            return (
+              <div
+                key={id}
+                className={`p-4 border-2 font-mono ${
+                  unlockedAt !== undefined
+                    ? "bg-yellow-900 border-yellow-500"
+                    : "bg-gray-900 border-gray-700 text-gray-400"
+                }`}
+              >
+                <div className="flex justify-between">
+                  <span
+                    className={`font-bold text-lg ${
+                      unlockedAt !== undefined ? "text-yellow-400" : ""
+                    }`}
+                  >
+                    {unlockedAt !== undefined ? "🏆" : "🔒"} {achievement.name}
+                  </span>
+                  {unlockedAt !== undefined && (
+                    <span className="text-sm text-gray-300">
+                      {new Date(unlockedAt).toLocaleDateString()}
+                    </span>
+                  )}
+                </div>
+                <div className="text-sm">{achievement.description}</div>
+              </div>
+            );
+          })}
+        </div>
+
+        <button
+          onClick={onClose}
+          className="w-full px-6 py-3 bg-gray-600 hover:bg-gray-700 text-white font-mono text-lg font-medium border-2 border-gray-500 transition-colors"
+        >
+          BACK
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { KeyboardEvent } from "react";
+import {
+  Command,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "./ui/command";
+import {
+  getConsoleCompletions,
+  type ConsoleResult,
+} from "@/game/core/DevConsole";
+
+interface DevConsoleProps {
+  open: boolean;
+  cheated: boolean;
+  onRun: (line: string) => Promise<ConsoleResult>;
+  onClose: () => void;
+}
+
+interface LogLine {
+  id: number;
+  text: string;
+  tone: "input" | "ok" | "error";
+}
+
+const MAX_LOG_LINES = 100;
+
+const TONE_CLASSES: Record<LogLine["tone"], string> = {
+  input: "text-gray-400",
+  ok: "text-green-400",
+  error: "text-red-400",
+};
+
+/**
+ * Developer console overlay. Stays mounted while closed so the log and
+ * command history last for the whole session.
+ */
+export default function DevConsole({
+  open,
+  cheated,
+  onRun,
+  onClose,
+}: DevConsoleProps) {
+  const [line, setLine] = useState("");
+  const [log, setLog] = useState<LogLine[]>([]);
+  const [history, setHistory] = useState<string[]>([]);
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  const [selected, setSelected] = useState("");
+  const inputRef = useRef<HTMLInputElement>(null);
+  const logRef = useRef<HTMLDivElement>(null);
+  const nextLogId = useRef(1);
+
+  const completions = useMemo(() => getConsoleCompletions(line), [line]);
+
+  useEffect(() => {
+    if (open) {
+      inputRef.current?.focus();
+    }
+  }, [open]);
+
+  // Keep the newest output in view
+  useEffect(() => {
+    if (logRef.current) {
+      logRef.current.scrollTop = logRef.current.scrollHeight;
+    }
+  }, [log, open]);
+
+  const appendLog = (text: string, tone: LogLine["tone"]) => {
+    const lines = text
+      .split("\n")
+      .map((part) => ({ id: nextLogId.current++, text: part, tone }));
+    setLog((prev) => [...prev, ...lines].slice(-MAX_LOG_LINES));
+  };
+
+  const submit = () => {
+    const command = line.trim();
+    if (!command) return;
+
+    setHistory((prev) =>
+      prev[prev.length - 1] === command ? prev : [...prev, command]
+    );
+    setHistoryIndex(null);
+    setLine("");
+    appendLog(`> ${command}`, "input");
+
+    onRun(command).then((result) =>
+      appendLog(result.message, result.ok ? "ok" : "error")
+    );
+  };
+
+  const complete = (value: string) => {
+    setLine(`${value} `);
+    setHistoryIndex(null);
+    inputRef.current?.focus();
+  };
+
+  const browseHistory = (direction: -1 | 1) => {
+    if (history.length === 0) return;
+
+    const current = historyIndex ?? history.length;
+    const next = Math.max(0, Math.min(history.length, current + direction));
+    setHistoryIndex(next === history.length ? null : next);
+    setLine(next === history.length ? "" : history[next]);
+  };
+
+  // Runs before cmdk's own handler; preventing default keeps cmdk from
+  // also treating Enter/arrows as list navigation
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    switch (event.key) {
+      case "Enter":
+        event.preventDefault();
+        submit();
+        break;
+      case "Tab":
+        event.preventDefault();
+        if (completions.length > 0) {
+          const match =
+            completions.find((completion) => completion.value === selected) ??
+            completions[0];
+          complete(match.value);
+        }
+        break;
+      case "ArrowUp":
+        event.preventDefault();
+        browseHistory(-1);
+        break;
+      case "ArrowDown":
+        event.preventDefault();
+        browseHistory(1);
+        break;
+      case "Escape":
+      case "`":
+        event.preventDefault();
+        onClose();
+        break;
+    }
+  };
+
+  if (!open) return null;
+
+  return (
+    <Command
+      label="Developer console"
+      shouldFilter={false}
+      loop
+      value={selected}
+      onValueChange={setSelected}
+      onKeyDown={handleKeyDown}
+      className="dev-console absolute top-0 left-0 right-0 z-50 h-auto bg-black bg-opacity-90 border-b-2 border-yellow-500 font-mono text-sm p-3"
+    >
+      <div className="flex justify-between text-xs text-yellow-400 mb-2 tracking-wider">
+        <span>CONSOLE - TAB COMPLETES, ↑/↓ HISTORY, ` CLOSES</span>
+        {cheated && <span className="text-red-400">CHEATS USED</span>}
+      </div>
+
+      <div ref={logRef} className="dev-console-log overflow-y-auto mb-2">
+        {log.map((entry) => (
+          <div key={entry.id} className={TONE_CLASSES[entry.tone]}>
+            {entry.text}
+          </div>
+        ))}
+      </div>
+
+      <CommandInput
+        ref={inputRef}
+        value={line}
+        onValueChange={(value) => {
+          setLine(value);
+          setHistoryIndex(null);
+        }}
+        placeholder="Type help for a list of commands"
+        className="dev-console-input"
+        spellCheck={false}
+        autoComplete="off"
+      />
+
+      {completions.length > 0 && (
+        <CommandList className="dev-console-list mt-2">
+          {completions.map((completion) => (
+            <CommandItem
+              key={completion.value}
+              value={completion.value}
+              onSelect={() => complete(completion.value)}
+              className="dev-console-item flex justify-between"
+            >
+              <span className="text-white">{completion.value}</span>
+              <span className="text-gray-400">{completion.description}</span>
+            </CommandItem>
+          ))}
+        </CommandList>
+      )}
+    </Command>
+  );
+}
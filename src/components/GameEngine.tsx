@@ -7,14 +7,40 @@ import {
   useImperativeHandle,
 } from "react";
 import { GameEngine } from "@/game/core/GameEngine";
-import { GameState } from "@/game/core/GameStateManager";
+import type {
+  GameMode,
+  GameState,
+  SurvivalState,
+} from "@/game/core/GameStateManager";
+import type { GameEvent } from "@/game/core/GameEvents";
 import { AudioSystem } from "@/game/systems/AudioSystem";
 import PauseOverlay from "./PauseOverlay";
+import SaveLoadMenu from "./SaveLoadMenu";
+import DevConsole from "./DevConsole";
+import Intermission, { type IntermissionColumn } from "./Intermission";
+import type { SaveSnapshot } from "@/game/systems/SaveSystem";
+import type { SkillId } from "@/game/core/Skills";
+import { getPerk, type PerkId } from "@/game/core/Perks";
+import { encodeDemo, type Demo } from "@/game/systems/DemoSystem";
+import { AchievementSystem } from "@/game/systems/AchievementSystem";
+import { getAchievement } from "@/game/core/Achievements";
+import { toast } from "sonner";
+import {
+  RunHistory,
+  createRunRecord,
+  type RunOutcome,
+} from "@/game/systems/RunHistory";
 
 interface GameEngineProps {
   onGameStateChange?: (state: GameState) => void;
+  onGameEvent?: (event: GameEvent) => void;
   onExitToMenu?: () => void;
   sharedAudioSystem?: AudioSystem | null;
+  seed?: number;
+  skill?: SkillId;
+  mode?: GameMode;
+  initialSave?: SaveSnapshot | null;
+  demo?: Demo | null;
 }
 
 export interface GameEngineRef {
@@ -22,14 +48,48 @@ export interface GameEngineRef {
 }
 
 const GameEngineComponent = forwardRef<GameEngineRef, GameEngineProps>(
-  ({ onGameStateChange, onExitToMenu, sharedAudioSystem }, ref) => {
+  (
+    {
+      onGameStateChange,
+      onGameEvent,
+      onExitToMenu,
+      sharedAudioSystem,
+      seed,
+      skill,
+      mode,
+      initialSave,
+      demo,
+    },
+    ref
+  ) => {
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
     const gameEngineRef = useRef<GameEngine | null>(null);
+    // Latest state, for recording the run when the player quits
+    const latestStateRef = useRef<GameState | null>(null);
+    const runRecordedRef = useRef(false);
     const [gameState, setGameState] = useState<
       "playing" | "paused" | "victory" | "defeat"
     >("playing");
     const [canvasSize, setCanvasSize] = useState({ width: 1200, height: 800 });
+    const [seedInfo, setSeedInfo] = useState({
+      runSeed: 0,
+      floorSeed: 0,
+      floor: 1,
+    });
+    const [saveMenuMode, setSaveMenuMode] = useState<"save" | "load" | null>(
+      null
+    );
+    const [demoFinished, setDemoFinished] = useState(false);
+    const [canExportDemo, setCanExportDemo] = useState(false);
+    const [consoleOpen, setConsoleOpen] = useState(false);
+    const [cheated, setCheated] = useState(false);
+    // Stats captured when the floor ends, for the intermission tally
+    const [endSummary, setEndSummary] = useState<{
+      columns: IntermissionColumn[];
+      survival: SurvivalState | null;
+      perkChoices: PerkId[];
+    } | null>(null);
 
     // Expose the audio system through the ref
     useImperativeHandle(ref, () => ({
@@ -112,35 +172,145 @@ const GameEngineComponent = forwardRef<GameEngineRef, GameEngineProps>(
       canvas.height = canvasSize.height;
 
       // Initialize game engine with shared audio system
-      const gameEngine = new GameEngine(canvas, sharedAudioSystem);
+      const gameEngine = new GameEngine(canvas, sharedAudioSystem, {
+        seed,
+        skill,
+        mode,
+        snapshot: initialSave,
+        demo,
+      });
       gameEngineRef.current = gameEngine;
+      runRecordedRef.current = false;
+      // Demo playback doesn't count towards achievements
+      const achievements = demo ? null : new AchievementSystem();
+      setDemoFinished(false);
 
       // Subscribe to game state changes
       const unsubscribe = gameEngine.subscribeToGameState((state) => {
         setGameState(state.gameStatus);
+        latestStateRef.current = state;
+        if (state.gameStatus === "defeat") {
+          recordRun("death");
+        }
+        setCheated(state.cheated);
+        // Floor and run stats, plus the final wave and score in survival
+        setEndSummary((prev) =>
+          state.gameStatus !== "victory" && state.gameStatus !== "defeat"
+            ? null
+            : (prev ?? {
+                columns: [
+                  ...(state.gameStatus === "victory"
+                    ? [
+                        {
+                          label: "FLOOR",
+                          stats: structuredClone(state.floorStats),
+                        },
+                      ]
+                    : []),
+                  { label: "RUN", stats: structuredClone(state.runStats) },
+                ],
+                survival: state.survival ? { ...state.survival } : null,
+                perkChoices: [...state.perkChoices],
+              })
+        );
+        setSeedInfo((prev) =>
+          prev.runSeed === state.runSeed &&
+          prev.floorSeed === state.floorSeed &&
+          prev.floor === state.currentFloor
+            ? prev
+            : {
+                runSeed: state.runSeed,
+                floorSeed: state.floorSeed,
+                floor: state.currentFloor,
+              }
+        );
+        achievements?.handleState(state).forEach((id) => {
+          const achievement = getAchievement(id);
+          toast(`ACHIEVEMENT UNLOCKED: ${achievement.name}`, {
+            description: achievement.description,
+            className: "achievement-toast",
+          });
+        });
         onGameStateChange?.(state);
       });
+      const unsubscribeEvents = gameEngine.subscribeToGameEvents((event) => {
+        achievements?.handleEvent(event);
+        onGameEvent?.(event);
+      });
+      const unsubscribeDemoEnd = gameEngine.subscribeToDemoEnd(() =>
+        setDemoFinished(true)
+      );
+      const unsubscribeConsole = gameEngine.subscribeToConsoleToggle(() =>
+        setConsoleOpen((open) => !open)
+      );
 
       // Start the game
       gameEngine.start();
 
       return () => {
         unsubscribe();
+        unsubscribeEvents();
+        unsubscribeDemoEnd();
+        unsubscribeConsole();
         gameEngine.cleanup();
         gameEngineRef.current = null;
       };
-    }, [onGameStateChange, canvasSize, sharedAudioSystem]);
+    }, [
+      onGameStateChange,
+      onGameEvent,
+      canvasSize,
+      sharedAudioSystem,
+      seed,
+      skill,
+      mode,
+      initialSave,
+      demo,
+    ]);
+
+    // The recording is only available for runs that started from a seed
+    useEffect(() => {
+      if (gameState === "paused") {
+        setCanExportDemo(gameEngineRef.current?.getRecordedDemo() != null);
+      }
+    }, [gameState]);
+
+    // Each run goes into the history once, when the player dies or leaves it
+    const recordRun = (outcome: RunOutcome) => {
+      const state = latestStateRef.current;
+      if (!state || demo || runRecordedRef.current) return;
+
+      runRecordedRef.current = true;
+      new RunHistory().record(createRunRecord(state, outcome));
+    };
 
     const handleRestart = () => {
+      recordRun("quit");
+      runRecordedRef.current = false;
       if (gameEngineRef.current) {
         gameEngineRef.current.reset();
         gameEngineRef.current.start();
+        setDemoFinished(false);
       }
     };
 
-    const handleNextLevel = () => {
+    const handleExportDemo = () => {
+      const recorded = gameEngineRef.current?.getRecordedDemo();
+      if (!recorded) return;
+
+      const blob = new Blob([encodeDemo(recorded)], {
+        type: "application/json",
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `demo-${recorded.seed}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    };
+
+    const handleNextLevel = (perk: PerkId | null) => {
       if (gameEngineRef.current) {
-        gameEngineRef.current.progressToNextLevel();
+        gameEngineRef.current.progressToNextLevel(perk);
         gameEngineRef.current.start();
       }
     };
@@ -158,12 +328,18 @@ const GameEngineComponent = forwardRef<GameEngineRef, GameEngineProps>(
     // };
 
     const handleExitToMenu = () => {
+      recordRun("quit");
       if (gameEngineRef.current) {
         gameEngineRef.current.stop();
       }
       onExitToMenu?.();
     };
 
+    const handleConsoleCommand = (line: string) =>
+      gameEngineRef.current
+        ? gameEngineRef.current.runConsoleCommand(line)
+        : Promise.resolve({ ok: false, message: "Game is not running" });
+
     const playMenuSound = () => {
       if (sharedAudioSystem) {
         try {
@@ -202,49 +378,66 @@ const GameEngineComponent = forwardRef<GameEngineRef, GameEngineProps>(
               onResume={handleResume}
               onRestart={handleRestart}
               onExit={handleExitToMenu}
+              onSave={
+                demo
+                  ? undefined
+                  : () => {
+                      playMenuSound();
+                      setSaveMenuMode("save");
+                    }
+              }
+              onLoad={
+                demo
+                  ? undefined
+                  : () => {
+                      playMenuSound();
+                      setSaveMenuMode("load");
+                    }
+              }
+              onExportDemo={
+                canExportDemo
+                  ? () => {
+                      playMenuSound();
+                      handleExportDemo();
+                    }
+                  : undefined
+              }
+              runSeed={seedInfo.runSeed}
+              floorSeed={seedInfo.floorSeed}
+              floor={seedInfo.floor}
             />
           )}
 
-          {/* Victory Overlay */}
-          {gameState === "victory" && (
-            <div className="absolute inset-0 bg-black bg-opacity-75 flex items-center justify-center">
-              <div className="text-center text-green-400 max-w-md p-8">
+          {/* Demo playback indicator */}
+          {demo && !demoFinished && (
+            <div className="absolute top-4 left-4 px-4 py-2 bg-black bg-opacity-75 border border-yellow-500 font-mono text-lg text-yellow-400 font-bold tracking-wider pointer-events-none">
+              DEMO PLAYBACK • SEED {demo.seed}
+            </div>
+          )}
+
+          {/* Demo finished */}
+          {demo && demoFinished && (
+            <div className="absolute inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50">
+              <div className="text-center text-yellow-400 max-w-md p-8">
                 <h2 className="text-5xl font-bold mb-6 font-mono tracking-wider">
-                  VICTORY!
+                  DEMO OVER
                 </h2>
-                <p className="text-2xl mb-6 font-medium">
-                  Level cleared! All enemies defeated!
-                </p>
-                <div className="mb-6 p-4 bg-green-900 border border-green-700 rounded">
-                  <p className="text-lg text-green-300 font-medium">
-                    🎵 The E minor symphony of destruction has concluded! 🎵
-                  </p>
-                </div>
                 <div className="space-y-4">
-                  <button
-                    onClick={() => {
-                      playMenuSound();
-                      handleNextLevel();
-                    }}
-                    className="block mx-auto px-8 py-4 bg-green-600 hover:bg-green-700 text-white font-mono font-bold border-2 border-green-500 transition-colors text-xl retro-button"
-                  >
-                    NEXT LEVEL
-                  </button>
                   <button
                     onClick={() => {
                       playMenuSound();
                       handleRestart();
                     }}
-                    className="block mx-auto px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-mono font-medium border-2 border-blue-500 transition-colors text-lg retro-button"
+                    className="block mx-auto px-8 py-4 bg-blue-600 hover:bg-blue-700 text-white font-mono font-bold border-2 border-blue-500 transition-colors text-xl retro-button"
                   >
-                    REPLAY LEVEL
+                    REPLAY DEMO
                   </button>
                   <button
                     onClick={() => {
                       playMenuSound();
                       handleExitToMenu();
                     }}
-                    className="block mx-auto px-6 py-3 bg-gray-600 hover:bg-gray-700 text-white font-mono font-medium border-2 border-gray-500 transition-colors text-lg retro-button"
+                    className="block mx-auto px-8 py-4 bg-gray-600 hover:bg-gray-700 text-white font-mono font-medium border-2 border-gray-500 transition-colors text-xl retro-button"
                   >
                     MAIN MENU
                   </button>
@@ -253,43 +446,138 @@ const GameEngineComponent = forwardRef<GameEngineRef, GameEngineProps>(
             </div>
           )}
 
-          {/* Defeat Overlay */}
-          {gameState === "defeat" && (
-            <div className="absolute inset-0 bg-black bg-opacity-75 flex items-center justify-center">
-              <div className="text-center text-red-400 max-w-md p-8">
-                <h2 className="text-5xl font-bold mb-6 font-mono tracking-wider">
-                  GAME OVER
-                </h2>
-                <p className="text-2xl mb-6 font-medium">
-                  You have been defeated!
-                </p>
-                <div className="mb-6 p-4 bg-red-900 border border-red-700 rounded">
-                  <p className="text-lg text-red-300 font-medium">
-                    🎵 The tritones have claimed another soul... 🎵
-                  </p>
-                </div>
-                <div className="space-y-4">
-                  <button
-                    onClick={() => {
-                      playMenuSound();
-                      handleRestart();
-                    }}
-                    className="block mx-auto px-8 py-4 bg-red-600 hover:bg-red-700 text-white font-mono font-bold border-2 border-red-500 transition-colors text-xl retro-button"
-                  >
-                    TRY AGAIN
-                  </button>
+          {/* Save / Load slots (opened from the pause menu) */}
+          {saveMenuMode && gameState === "paused" && (
+            <SaveLoadMenu
+              mode={saveMenuMode}
+              onSave={(slot) => {
+                gameEngineRef.current?.saveGame(slot);
+                setSaveMenuMode(null);
+              }}
+              onLoad={(snapshot) => {
+                gameEngineRef.current?.loadGame(snapshot);
+                setSaveMenuMode(null);
+              }}
+              onClose={() => {
+                playMenuSound();
+                setSaveMenuMode(null);
+              }}
+            />
+          )}
+
+          {/* Developer console (backtick) */}
+          <DevConsole
+            open={consoleOpen}
+            cheated={cheated}
+            onRun={handleConsoleCommand}
+            onClose={() => setConsoleOpen(false)}
+          />
+
+          {/* Victory Overlay */}
+          {gameState === "victory" && endSummary && (
+            <Intermission
+              title="VICTORY!"
+              subtitle="Level cleared! All enemies defeated!"
+              tone="victory"
+              columns={endSummary.columns}
+              onRowCounted={playMenuSound}
+            >
+              <div className="space-y-4">
+                {endSummary.perkChoices.length > 0 ? (
+                  <div className="space-y-3">
+                    <p className="text-xl text-purple-300 font-mono font-bold">
+                      CHOOSE A PERK FOR THE NEXT LEVEL
+                    </p>
+                    <div className="flex justify-center space-x-4">
+                      {endSummary.perkChoices.map((id) => (
+                        <button
+                          key={id}
+                          onClick={() => {
+                            playMenuSound();
+                            handleNextLevel(id);
+                          }}
+                          className="flex-1 px-4 py-4 bg-purple-900 hover:bg-purple-700 text-white font-mono border-2 border-purple-500 transition-colors retro-button"
+                        >
+                          <div className="text-xl font-bold">
+                            {getPerk(id).name}
+                          </div>
+                          <div className="text-sm text-purple-300">
+                            {getPerk(id).description}
+                          </div>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                ) : (
                   <button
                     onClick={() => {
                       playMenuSound();
-                      handleExitToMenu();
+                      handleNextLevel(null);
                     }}
-                    className="block mx-auto px-8 py-4 bg-gray-600 hover:bg-gray-700 text-white font-mono font-medium border-2 border-gray-500 transition-colors text-xl retro-button"
+                    className="block mx-auto px-8 py-4 bg-green-600 hover:bg-green-700 text-white font-mono font-bold border-2 border-green-500 transition-colors text-xl retro-button"
                   >
-                    MAIN MENU
+                    NEXT LEVEL
                   </button>
-                </div>
+                )}
+                <button
+                  onClick={() => {
+                    playMenuSound();
+                    handleRestart();
+                  }}
+                  className="block mx-auto px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-mono font-medium border-2 border-blue-500 transition-colors text-lg retro-button"
+                >
+                  REPLAY LEVEL
+                </button>
+                <button
+                  onClick={() => {
+                    playMenuSound();
+                    handleExitToMenu();
+                  }}
+                  className="block mx-auto px-6 py-3 bg-gray-600 hover:bg-gray-700 text-white font-mono font-medium border-2 border-gray-500 transition-colors text-lg retro-button"
+                >
+                  MAIN MENU
+                </button>
               </div>
-            </div>
+            </Intermission>
+          )}
+
+          {/* Defeat Overlay: run summary */}
+          {gameState === "defeat" && endSummary && (
+            <Intermission
+              title="GAME OVER"
+              subtitle="You have been defeated!"
+              tone="defeat"
+              columns={endSummary.columns}
+              onRowCounted={playMenuSound}
+            >
+              {endSummary.survival && (
+                <p className="text-xl mb-6 font-mono text-yellow-400">
+                  WAVE {endSummary.survival.wave} •{" "}
+                  {endSummary.survival.kills} KILLS • SCORE{" "}
+                  {endSummary.survival.score}
+                </p>
+              )}
+              <div className="space-y-4">
+                <button
+                  onClick={() => {
+                    playMenuSound();
+                    handleRestart();
+                  }}
+                  className="block mx-auto px-8 py-4 bg-red-600 hover:bg-red-700 text-white font-mono font-bold border-2 border-red-500 transition-colors text-xl retro-button"
+                >
+                  TRY AGAIN
+                </button>
+                <button
+                  onClick={() => {
+                    playMenuSound();
+                    handleExitToMenu();
+                  }}
+                  className="block mx-auto px-8 py-4 bg-gray-600 hover:bg-gray-700 text-white font-mono font-medium border-2 border-gray-500 transition-colors text-xl retro-button"
+                >
+                  MAIN MENU
+                </button>
+              </div>
+            </Intermission>
           )}
         </div>
       </div>
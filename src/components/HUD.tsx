@@ -1,31 +1,199 @@
 // import React from 'react';
+import { useEffect, useRef, useState } from "react";
+import type { GameEvent } from "@/game/core/GameEvents";
+import type { SurvivalState } from "@/game/core/GameStateManager";
+import { getEnemyArchetype } from "@/game/core/Enemies";
+import {
+  WEAPON_IDS,
+  getWeapon,
+  type AmmoType,
+  type WeaponId,
+} from "@/game/core/Weapons";
+import { DEFAULT_SKILL, getSkill, type SkillId } from "@/game/core/Skills";
+import { PERK_IDS, getPerk, type PerkStacks } from "@/game/core/Perks";
+import {
+  getArmorClass,
+  getArmorPickup,
+  isArmorPickup,
+  type ArmorClassId,
+} from "@/game/core/Armor";
+import {
+  POWER_UP_IDS,
+  getPowerUp,
+  isPowerUpId,
+  type PowerUpTimers,
+} from "@/game/core/PowerUps";
+import {
+  KEYCARD_IDS,
+  getKeycard,
+  type KeycardId,
+} from "@/game/core/Keycards";
+import { SWITCHES } from "@/game/core/Switches";
+import {
+  describeObjective,
+  getObjective,
+  type FloorObjective,
+} from "@/game/core/Objectives";
+import { getHazard, isHazardId } from "@/game/core/Hazards";
 
 interface HUDProps {
   health: number;
   maxHealth: number;
-  ammo: {
-    pistol: number;
-    shotgun: number;
-    chaingun: number;
-  };
-  maxAmmo: {
-    pistol: number;
-    shotgun: number;
-    chaingun: number;
-  };
-  weapon?: string;
+  armor?: number;
+  armorClass?: ArmorClassId | null;
+  ammo: Record<AmmoType, number>;
+  maxAmmo: Record<AmmoType, number>;
+  weapon?: WeaponId;
   isAttacking?: boolean;
+  skill?: SkillId;
+  survival?: SurvivalState | null;
+  perks?: PerkStacks;
+  powerUps?: PowerUpTimers;
+  keycards?: KeycardId[];
+  objective?: FloorObjective | null;
+  enemiesLeft?: number;
+  lastEvent?: GameEvent | null;
+}
+
+interface EventMessage {
+  text: string;
+  color: string;
 }
 
+// Gameplay events worth announcing in the status bar
+const describeEvent = (event: GameEvent): EventMessage | null => {
+  switch (event.type) {
+    case "PickupCollected": {
+      const { type, weaponType, keycard, value } = event.payload;
+      if (type === "weapon" && weaponType) {
+        const { name, hud } = getWeapon(weaponType);
+        return { text: `${name}!`, color: hud.color };
+      }
+      if (type === "keycard" && keycard) {
+        const { name, color } = getKeycard(keycard);
+        return { text: `${name}!`, color };
+      }
+      if (isArmorPickup(type)) {
+        const pickup = getArmorPickup(type);
+        return {
+          text: type === "armor_bonus" ? `+${value} ARMOR` : `${pickup.name}!`,
+          color: getArmorClass(pickup.armorClass ?? "green").color,
+        };
+      }
+      if (isPowerUpId(type)) {
+        const { name, color } = getPowerUp(type);
+        return { text: `${name}!`, color };
+      }
+      return type === "health"
+        ? { text: `+${value} HEALTH`, color: "#4ADE80" }
+        : { text: `+${value} AMMO`, color: "#60A5FA" };
+    }
+    case "PlayerDamaged": {
+      const { source } = event.payload;
+      return {
+        text: `-${event.payload.amount} ${
+          source === "crusher"
+            ? "CRUSHER"
+            : isHazardId(source)
+              ? getHazard(source).name
+              : getEnemyArchetype(source).name
+        }`,
+        color: "#EF4444",
+      };
+    }
+    case "BossPhaseChanged":
+      return { text: `BOSS PHASE ${event.payload.phase + 1}`, color: "#C084FC" };
+    case "FloorCleared":
+      return { text: `FLOOR ${event.payload.floor} CLEARED`, color: "#FCD34D" };
+    case "WaveStarted":
+      return { text: `WAVE ${event.payload.wave}!`, color: "#F97316" };
+    case "PerkChosen":
+      return {
+        text: `${getPerk(event.payload.perk).name} ${event.payload.stacks}`,
+        color: "#C084FC",
+      };
+    case "DoorLocked": {
+      const { hudLabel, color } = getKeycard(event.payload.keycard);
+      return { text: `NEED ${hudLabel} KEYCARD`, color };
+    }
+    case "DoorOpened":
+      return {
+        text: `${getKeycard(event.payload.keycard).hudLabel} DOOR OPENED`,
+        color: getKeycard(event.payload.keycard).color,
+      };
+    case "SwitchPressed":
+      return event.payload.kind === "door"
+        ? { text: "A DOOR OPENS SOMEWHERE", color: SWITCHES.door.color }
+        : null;
+    case "SecretFound":
+      return { text: "A SECRET IS REVEALED!", color: "#FCD34D" };
+    case "PowerUpExpired":
+      return {
+        text: `${getPowerUp(event.payload.powerUp).name} WORE OFF`,
+        color: "#9CA3AF",
+      };
+    case "WaveCleared":
+      return {
+        text: `WAVE ${event.payload.wave} SURVIVED +${event.payload.bonus}`,
+        color: "#FCD34D",
+      };
+    default:
+      return null;
+  }
+};
+
 export default function HUD({
   health,
   maxHealth,
+  armor = 0,
+  armorClass = null,
   ammo,
   maxAmmo,
   weapon = "pistol",
   isAttacking = false,
+  skill = DEFAULT_SKILL,
+  survival = null,
+  perks = {},
+  powerUps = {},
+  keycards = [],
+  objective = null,
+  enemiesLeft = 0,
+  lastEvent = null,
 }: HUDProps) {
   const healthPercentage = (health / maxHealth) * 100;
+  const [eventMessage, setEventMessage] = useState<EventMessage | null>(null);
+  const [isHurt, setIsHurt] = useState(false);
+  const messageTimer = useRef<number | null>(null);
+  const hurtTimer = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!lastEvent) return;
+
+    if (lastEvent.type === "PlayerDamaged") {
+      setIsHurt(true);
+      if (hurtTimer.current) window.clearTimeout(hurtTimer.current);
+      hurtTimer.current = window.setTimeout(() => setIsHurt(false), 300);
+    }
+
+    const message = describeEvent(lastEvent);
+    if (message) {
+      setEventMessage(message);
+      if (messageTimer.current) window.clearTimeout(messageTimer.current);
+      messageTimer.current = window.setTimeout(
+        () => setEventMessage(null),
+        2000
+      );
+    }
+  }, [lastEvent]);
+
+  // Clear pending timers on unmount
+  useEffect(
+    () => () => {
+      if (messageTimer.current) window.clearTimeout(messageTimer.current);
+      if (hurtTimer.current) window.clearTimeout(hurtTimer.current);
+    },
+    []
+  );
 
   // Determine face sprite based on health
   const getFaceColor = () => {
@@ -36,6 +204,7 @@ export default function HUD({
   };
 
   const getFaceExpression = () => {
+    if (isHurt) return "😣"; // Flinch when hit
     if (isAttacking) return "😠"; // Angry when attacking
     if (healthPercentage > 75) return "😊";
     if (healthPercentage > 50) return "😐";
@@ -43,35 +212,19 @@ export default function HUD({
     return "😵";
   };
 
-  const getWeaponColor = () => {
-    switch (weapon) {
-      case "pistol":
-        return "#FCD34D"; // Yellow
-      case "shotgun":
-        return "#FB923C"; // Orange
-      case "chaingun":
-        return "#EF4444"; // Red
-      default:
-        return "#FCD34D";
-    }
-  };
+  const weaponDef = getWeapon(weapon);
+  const getWeaponColor = () => weaponDef.hud.color;
 
   const getWeaponDisplay = () => {
-    return weapon.toUpperCase();
+    return weaponDef.name;
   };
 
-  const getWeaponStats = () => {
-    switch (weapon) {
-      case "pistol":
-        return { damage: 12, rate: "Medium", range: "Medium (15m)" }; // Updated damage
-      case "shotgun":
-        return { damage: 22, rate: "Slow", range: "Close (8m)" }; // Updated damage
-      case "chaingun":
-        return { damage: 7, rate: "Fast", range: "Medium (12m)" }; // Updated damage
-      default:
-        return { damage: 12, rate: "Medium", range: "Medium (15m)" }; // Updated damage
-    }
-  };
+  const getWeaponStats = () => ({
+    damage: weaponDef.damage,
+    rate:
+      weaponDef.fireRate.charAt(0).toUpperCase() + weaponDef.fireRate.slice(1),
+    range: weaponDef.hud.rangeLabel,
+  });
 
   const weaponStats = getWeaponStats();
 
@@ -104,6 +257,41 @@ export default function HUD({
               }}
             />
           </div>
+
+          {/* Armor */}
+          <div className="text-center">
+            <div className="text-lg text-gray-400 mb-1 font-medium">ARMOR</div>
+            <div
+              className="text-3xl font-mono font-bold"
+              style={{
+                color: armorClass ? getArmorClass(armorClass).color : "#6B7280",
+              }}
+            >
+              {armor}%
+            </div>
+          </div>
+
+          {/* Keycards held on this floor */}
+          <div className="text-center">
+            <div className="text-lg text-gray-400 mb-1 font-medium">KEYS</div>
+            <div className="flex items-center justify-center space-x-2 h-8">
+              {KEYCARD_IDS.map((id) => {
+                const held = keycards.includes(id);
+                return (
+                  <div
+                    key={id}
+                    className="w-3 h-6 border-2"
+                    style={{
+                      backgroundColor: held
+                        ? getKeycard(id).color
+                        : "transparent",
+                      borderColor: held ? getKeycard(id).color : "#4b5563",
+                    }}
+                  ></div>
+                );
+              })}
+            </div>
+          </div>
         </div>
 
         {/* Center - Face */}
@@ -132,8 +320,8 @@ export default function HUD({
               className="h-full bg-blue-500 transition-all duration-200 rounded"
               style={{
                 width: `${
-                  ((ammo[weapon as keyof typeof ammo] || 0) /
-                    (maxAmmo[weapon as keyof typeof maxAmmo] || 1)) *
+                  ((ammo[weaponDef.ammoType] || 0) /
+                    (maxAmmo[weaponDef.ammoType] || 1)) *
                   100
                 }%`,
                 boxShadow: "0 0 8px #3b82f6",
@@ -144,7 +332,7 @@ export default function HUD({
           <div className="text-center">
             <div className="text-lg text-gray-400 mb-1 font-medium">AMMO</div>
             <div className="text-3xl font-mono text-blue-400 font-bold">
-              {ammo[weapon as keyof typeof ammo] || 0}
+              {ammo[weaponDef.ammoType] || 0}
             </div>
           </div>
         </div>
@@ -172,11 +360,75 @@ export default function HUD({
         </div>
         <div className="flex items-center space-x-2">
           <div className="w-4 h-4 bg-red-500 border border-red-400"></div>
-          <span className="font-medium">HURT ME PLENTY</span>
+          <span className="font-medium">{getSkill(skill).name}</span>
         </div>
+        {survival && (
+          <div className="flex items-center space-x-2">
+            <div className="w-4 h-4 bg-yellow-400 border border-yellow-500"></div>
+            <span className="font-medium">
+              WAVE {survival.wave} • KILLS {survival.kills} • SCORE{" "}
+              {survival.score}
+            </span>
+          </div>
+        )}
+        {objective && (
+          <div className="flex items-center space-x-2">
+            <div
+              className="w-4 h-4 border"
+              style={{
+                backgroundColor: getObjective(objective.id).color,
+                borderColor: getObjective(objective.id).color,
+              }}
+            ></div>
+            <span
+              className="font-medium font-mono"
+              style={{ color: getObjective(objective.id).color }}
+            >
+              {describeObjective(objective, enemiesLeft)}
+            </span>
+          </div>
+        )}
+        {PERK_IDS.some((id) => perks[id]) && (
+          <div className="flex items-center space-x-2">
+            <div className="w-4 h-4 bg-purple-600 border border-purple-500"></div>
+            <span className="font-medium text-purple-300">
+              {PERK_IDS.filter((id) => perks[id])
+                .map((id) => `${getPerk(id).hudLabel}×${perks[id]}`)
+                .join(" ")}
+            </span>
+          </div>
+        )}
+        {POWER_UP_IDS.filter((id) => powerUps[id]).map((id) => (
+          <div key={id} className="flex items-center space-x-2">
+            <div
+              className="w-4 h-4 border"
+              style={{
+                backgroundColor: getPowerUp(id).color,
+                borderColor: getPowerUp(id).color,
+              }}
+            ></div>
+            <span
+              className="font-medium font-mono"
+              style={{ color: getPowerUp(id).color }}
+            >
+              {getPowerUp(id).hudLabel} {Math.ceil(powerUps[id]! / 60)}s
+            </span>
+          </div>
+        ))}
         <div className="flex items-center space-x-2">
-          <div className="w-4 h-4 bg-green-500 border border-green-400"></div>
-          <span className="font-medium">READY</span>
+          <div
+            className="w-4 h-4 border"
+            style={{
+              backgroundColor: eventMessage?.color ?? "#22c55e",
+              borderColor: eventMessage?.color ?? "#4ade80",
+            }}
+          ></div>
+          <span
+            className="font-medium"
+            style={eventMessage ? { color: eventMessage.color } : undefined}
+          >
+            {eventMessage ? eventMessage.text : "READY"}
+          </span>
         </div>
       </div>
 
@@ -192,24 +444,16 @@ export default function HUD({
       {/* Weapon switching hint and effectiveness info */}
       <div className="flex flex-col items-center mt-2 space-y-1">
         <div className="text-lg text-gray-300 font-medium">
-          Press 1, 2, or 3 to switch weapons
+          Press {WEAPON_IDS.map((id) => getWeapon(id).slot).join(", ")} to
+          switch weapons
         </div>
         <div className="text-center">
-          {weapon === "shotgun" && (
-            <span className="text-orange-400 font-medium text-lg">
-              • High damage at close range • Damage drops with distance •
-            </span>
-          )}
-          {weapon === "pistol" && (
-            <span className="text-yellow-400 font-medium text-lg">
-              • Balanced all-around weapon • Reliable at medium range •
-            </span>
-          )}
-          {weapon === "chaingun" && (
-            <span className="text-red-400 font-medium text-lg">
-              • Rapid fire • Lower damage per shot • Medium range •
-            </span>
-          )}
+          <span
+            className="font-medium text-lg"
+            style={{ color: weaponDef.hud.color }}
+          >
+            • {weaponDef.hud.description} •
+          </span>
         </div>
       </div>
     </div>
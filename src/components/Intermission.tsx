@@ -0,0 +1,239 @@
+import { useEffect, useMemo, useState } from "react";
+import type { ReactNode } from "react";
+import { getEnemyArchetype, type EnemyTypeId } from "@/game/core/Enemies";
+import { getWeapon, WEAPON_IDS } from "@/game/core/Weapons";
+import {
+  formatPlayTime,
+  getAccuracy,
+  getDiscoveredPercent,
+  getSecretsPercent,
+  getTotalKills,
+  getTotalPickups,
+  type PlayStats,
+} from "@/game/core/Stats";
+
+export interface IntermissionColumn {
+  label: string;
+  stats: PlayStats;
+}
+
+interface IntermissionProps {
+  title: string;
+  subtitle: string;
+  tone: "victory" | "defeat";
+  columns: IntermissionColumn[]; // The first column also gets the breakdowns
+  onRowCounted?: () => void;
+  children: ReactNode; // Shown once the tally has finished
+}
+
+interface TallyRow {
+  label: string;
+  values: number[];
+  format: (value: number) => string;
+  detail: string | null;
+}
+
+const ROW_MS = 500;
+const STEP_MS = 30;
+
+const TONE_CLASSES = {
+  victory: { heading: "text-green-400", value: "text-yellow-300" },
+  defeat: { heading: "text-red-400", value: "text-yellow-300" },
+};
+
+function buildRows(columns: IntermissionColumn[]): TallyRow[] {
+  const detail = columns[0].stats;
+  const percent = (value: number) => `${value}%`;
+  const plain = (value: number) => String(value);
+
+  const killDetail = (Object.keys(detail.kills) as EnemyTypeId[])
+    .map((type) => `${detail.kills[type]} ${getEnemyArchetype(type).name}`)
+    .join(" • ");
+  const pickupDetail = Object.entries(detail.pickups)
+    .filter(([, count]) => count > 0)
+    .map(
+      ([type, count]) => `${count} ${type.replace("_", " ").toUpperCase()}`
+    )
+    .join(" • ");
+  const weaponDetail = WEAPON_IDS.filter((id) => detail.weapons[id])
+    .map((id) => {
+      const { shots, hits } = detail.weapons[id]!;
+      return `${getWeapon(id).name} ${getAccuracy(detail, id)}% (${hits}/${shots})`;
+    })
+    .join(" • ");
+
+  const valuesOf = (read: (stats: PlayStats) => number) =>
+    columns.map((column) => read(column.stats));
+
+  return [
+    {
+      label: "KILLS",
+      values: valuesOf(getTotalKills),
+      format: plain,
+      detail: killDetail || null,
+    },
+    {
+      label: "ITEMS",
+      values: valuesOf(getTotalPickups),
+      format: plain,
+      detail: pickupDetail || null,
+    },
+    {
+      label: "ACCURACY",
+      values: valuesOf((stats) => getAccuracy(stats)),
+      format: percent,
+      detail: weaponDetail || null,
+    },
+    {
+      label: "DAMAGE DEALT",
+      values: valuesOf((stats) => stats.damageDealt),
+      format: plain,
+      detail: null,
+    },
+    {
+      label: "DAMAGE TAKEN",
+      values: valuesOf((stats) => stats.damageTaken),
+      format: plain,
+      detail: null,
+    },
+    {
+      label: "SECRETS",
+      values: valuesOf(getSecretsPercent),
+      format: percent,
+      detail: null,
+    },
+    {
+      label: "MAP",
+      values: valuesOf(getDiscoveredPercent),
+      format: percent,
+      detail: null,
+    },
+    {
+      label: "TIME",
+      values: valuesOf((stats) => stats.ticks),
+      format: formatPlayTime,
+      detail: null,
+    },
+  ];
+}
+
+/**
+ * Doom-style stats tally. Rows count up one after another; clicking skips
+ * to the totals. The children (usually the buttons) appear once it's done.
+ */
+export default function Intermission({
+  title,
+  subtitle,
+  tone,
+  columns,
+  onRowCounted,
+  children,
+}: IntermissionProps) {
+  const rows = useMemo(() => buildRows(columns), [columns]);
+  const [elapsed, setElapsed] = useState(0);
+  const total = rows.length * ROW_MS;
+  const done = elapsed >= total;
+  const rowsCounted = Math.min(rows.length, Math.floor(elapsed / ROW_MS));
+  const classes = TONE_CLASSES[tone];
+
+  useEffect(() => {
+    if (done) return;
+    const interval = window.setInterval(
+      () => setElapsed((value) => value + STEP_MS),
+      STEP_MS
+    );
+    return () => window.clearInterval(interval);
+  }, [done]);
+
+  useEffect(() => {
+    if (rowsCounted > 0) {
+      onRowCounted?.();
+    }
+    // Only when another row finishes, not when the callback changes
+  }, [rowsCounted]);
+
+  const countedValue = (row: TallyRow, index: number, value: number) => {
+    const progress = Math.min(
+      1,
+      Math.max(0, (elapsed - index * ROW_MS) / ROW_MS)
+    );
+    return row.format(Math.round(value * progress));
+  };
+
+  return (
+    <div
+      className="absolute inset-0 bg-black bg-opacity-90 flex items-center justify-center z-50"
+      onClick={() => setElapsed(total)}
+    >
+      <div className="text-center max-w-4xl w-full p-8 font-mono">
+        <h2
+          className={`text-5xl font-bold mb-2 tracking-wider ${classes.heading}`}
+        >
+          {title}
+        </h2>
+        <p className="text-xl mb-6 text-gray-400 font-medium">{subtitle}</p>
+
+        <div
+          className="grid gap-4 mb-8 text-xl text-left"
+          style={{
+            gridTemplateColumns: `1fr repeat(${columns.length}, 7rem)`,
+          }}
+        >
+          <span />
+          {columns.map((column) => (
+            <span key={column.label} className="text-right text-gray-400">
+              {column.label}
+            </span>
+          ))}
+          {rows.map((row, index) =>
+            elapsed < index * ROW_MS ? null : (
+              <IntermissionRow
+                key={row.label}
+                row={row}
+                showDetail={index < rowsCounted}
+                valueClass={classes.value}
+                values={row.values.map((value) =>
+                  countedValue(row, index, value)
+                )}
+              />
+            )
+          )}
+        </div>
+
+        {done ? (
+          children
+        ) : (
+          <p className="text-lg text-gray-400">Click to skip</p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function IntermissionRow({
+  row,
+  values,
+  showDetail,
+  valueClass,
+}: {
+  row: TallyRow;
+  values: string[];
+  showDetail: boolean;
+  valueClass: string;
+}) {
+  return (
+    <>
+      <div>
+        <div className="text-white font-bold">{row.label}</div>
+        {showDetail && row.detail && (
+          <div className="text-sm text-gray-400">{row.detail}</div>
+        )}
+      </div>
+      {values.map((value, index) => (
+        <span key={index} className={`text-right font-bold ${valueClass}`}>
+          {value}
+        </span>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,259 @@
+import { useMemo, useRef, useState } from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { GAME_MODES, type GameMode } from "@/game/core/GameStateManager";
+import { SKILL_IDS, getSkill, type SkillId } from "@/game/core/Skills";
+import { formatPlayTime } from "@/game/core/Stats";
+import {
+  RUN_OUTCOMES,
+  RunHistory,
+  decodeRunHistory,
+  type RunOutcome,
+  type RunRecord,
+} from "@/game/systems/RunHistory";
+
+interface LeaderboardProps {
+  onClose: () => void;
+}
+
+type SortKey = keyof Pick<
+  RunRecord,
+  "score" | "date" | "deepestFloor" | "bossesKilled" | "ticks" | "accuracy"
+>;
+
+const COLUMNS: Array<{ key: SortKey; label: string }> = [
+  { key: "score", label: "SCORE" },
+  { key: "deepestFloor", label: "DEPTH" },
+  { key: "bossesKilled", label: "BOSSES" },
+  { key: "accuracy", label: "ACC" },
+  { key: "ticks", label: "TIME" },
+  { key: "date", label: "DATE" },
+];
+
+const formatCell = (run: RunRecord, key: SortKey): string => {
+  switch (key) {
+    case "deepestFloor":
+      return run.mode === "survival"
+        ? `WAVE ${run.deepestFloor}`
+        : `FLOOR ${run.deepestFloor}`;
+    case "accuracy":
+      return `${run.accuracy}%`;
+    case "ticks":
+      return formatPlayTime(run.ticks);
+    case "date":
+      return new Date(run.date).toLocaleDateString();
+    default:
+      return String(run[key]);
+  }
+};
+
+export default function Leaderboard({ onClose }: LeaderboardProps) {
+  const [history] = useState(() => new RunHistory());
+  const [runs, setRuns] = useState(() => history.list());
+  const [mode, setMode] = useState<GameMode | "all">("all");
+  const [skill, setSkill] = useState<SkillId | "all">("all");
+  const [outcome, setOutcome] = useState<RunOutcome | "all">("all");
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({
+    key: "score",
+    descending: true,
+  });
+  const [message, setMessage] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const visibleRuns = useMemo(
+    () =>
+      runs
+        .filter(
+          (run) =>
+            (mode === "all" || run.mode === mode) &&
+            (skill === "all" || run.skill === skill) &&
+            (outcome === "all" || run.outcome === outcome)
+        )
+        .sort((a, b) =>
+          sort.descending ? b[sort.key] - a[sort.key] : a[sort.key] - b[sort.key]
+        ),
+    [runs, mode, skill, outcome, sort]
+  );
+
+  const handleSort = (key: SortKey) =>
+    setSort((prev) => ({
+      key,
+      descending: prev.key === key ? !prev.descending : true,
+    }));
+
+  const handleExport = () => {
+    const blob = new Blob([history.export()], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `run-history-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File) => {
+    const imported = decodeRunHistory(await file.text());
+    const added = imported ? history.import(imported) : null;
+    setMessage(
+      added === null ? "INVALID RUN HISTORY FILE" : `IMPORTED ${added} RUNS`
+    );
+    setRuns(history.list());
+  };
+
+  return (
+    <div className="absolute inset-0 bg-black bg-opacity-95 flex items-center justify-center z-50">
+      <div className="text-center space-y-6 max-w-6xl w-full p-8">
+        <div className="space-y-2">
+          <h2 className="text-5xl font-mono text-yellow-400 font-bold tracking-wider">
+            LEADERBOARD
+          </h2>
+          <div className="w-32 h-1 bg-yellow-400 mx-auto"></div>
+        </div>
+
+        <div className="flex items-center justify-between font-mono">
+          <Tabs
+            value={mode}
+            onValueChange={(value) => setMode(value as GameMode | "all")}
+          >
+            <TabsList className="leaderboard-tabs">
+              {(["all", ...GAME_MODES] as const).map((id) => (
+                <TabsTrigger key={id} value={id} className="leaderboard-tab">
+                  {id.toUpperCase()}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+          </Tabs>
+
+          <div className="flex items-center space-x-2">
+            <select
+              value={skill}
+              onChange={(e) => setSkill(e.target.value as SkillId | "all")}
+              className="px-4 py-2 bg-gray-800 text-white font-mono border-2 border-gray-600"
+            >
+              <option value="all">ALL SKILLS</option>
+              {SKILL_IDS.map((id) => (
+                <option key={id} value={id}>
+                  {getSkill(id).name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={outcome}
+              onChange={(e) => setOutcome(e.target.value as RunOutcome | "all")}
+              className="px-4 py-2 bg-gray-800 text-white font-mono border-2 border-gray-600"
+            >
+              <option value="all">ALL ENDINGS</option>
+              {RUN_OUTCOMES.map((id) => (
+                <option key={id} value={id}>
+                  {id.toUpperCase()}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="leaderboard-scroll border-2 border-gray-700">
+          <Table className="leaderboard-table font-mono text-left">
+            <TableHeader>
+              <TableRow>
+                <TableHead>#</TableHead>
+                <TableHead>SKILL</TableHead>
+                <TableHead>SEED</TableHead>
+                {COLUMNS.map(({ key, label }) => (
+                  <TableHead
+                    key={key}
+                    onClick={() => handleSort(key)}
+                    className="cursor-pointer text-right"
+                  >
+                    {label}
+                    {sort.key === key && (sort.descending ? " ▼" : " ▲")}
+                  </TableHead>
+                ))}
+                <TableHead>END</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleRuns.map((run, index) => (
+                <TableRow key={run.id}>
+                  <TableCell className="text-gray-400">{index + 1}</TableCell>
+                  <TableCell>{getSkill(run.skill).hudLabel}</TableCell>
+                  <TableCell className="text-gray-400 select-all">
+                    {run.seed}
+                  </TableCell>
+                  {COLUMNS.map(({ key }) => (
+                    <TableCell
+                      key={key}
+                      className={`text-right ${key === "score" ? "text-yellow-400 font-bold" : ""}`}
+                    >
+                      {formatCell(run, key)}
+                    </TableCell>
+                  ))}
+                  <TableCell
+                    className={
+                      run.outcome === "death" ? "text-red-400" : "text-gray-300"
+                    }
+                  >
+                    {run.outcome.toUpperCase()}
+                    {run.cheated && " *"}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {visibleRuns.length === 0 && (
+            <p className="p-6 text-lg text-gray-400 font-mono">NO RUNS YET</p>
+          )}
+        </div>
+
+        <p className="text-sm text-gray-400 font-mono">
+          * Cheats were used during the run
+        </p>
+        {message && (
+          <p className="text-lg text-yellow-400 font-mono">{message}</p>
+        )}
+
+        <div className="flex items-center justify-center space-x-4">
+          <button
+            onClick={handleExport}
+            disabled={runs.length === 0}
+            className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-mono text-lg font-medium border-2 border-blue-500 transition-colors"
+          >
+            EXPORT
+          </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="px-6 py-3 bg-purple-600 hover:bg-purple-700 text-white font-mono text-lg font-medium border-2 border-purple-500 transition-colors"
+          >
+            IMPORT
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) {
+                void handleImport(file);
+              }
+            }}
+          />
+          <button
+            onClick={onClose}
+            className="px-6 py-3 bg-gray-600 hover:bg-gray-700 text-white font-mono text-lg font-medium border-2 border-gray-500 transition-colors"
+          >
+            BACK
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,13 +1,34 @@
 // import React from 'react';
 import { useState, useEffect, useRef } from "react";
+import { perfMonitor } from "@/game/systems/PerfMonitor";
+import {
+  getKeycard,
+  getKeycardForDoor,
+  isKeycardId,
+  type KeycardId,
+} from "@/game/core/Keycards";
+import { DOOR_CELL, DOOR_COLOR, type Door } from "@/game/core/Doors";
+import { getSwitchColor } from "@/game/core/Switches";
+import { getHazard, getHazardAt } from "@/game/core/Hazards";
+import {
+  CRUSHER_CELL,
+  CRUSHER_COLOR,
+  isCrusherOut,
+  type Crusher,
+} from "@/game/core/Crushers";
 
 interface MinimapProps {
   playerX: number;
   playerY: number;
   playerAngle: number;
   enemies: Array<{ x: number; y: number; state: string }>;
-  pickups?: Array<{ x: number; y: number; type: string }>;
+  pickups?: Array<{ x: number; y: number; type: string; keycard?: string }>;
   worldMap: number[][];
+  hazardMap?: number[][]; // Hazard floor under each cell, 0 if safe
+  doors?: Array<Pick<Door, "x" | "y" | "state">>;
+  crushers?: Crusher[];
+  keycards?: KeycardId[]; // Held by the player
+  revealAll?: boolean; // Console "reveal" cheat: no fog, every enemy shown
 }
 
 // FOV constants matching the rendering system
@@ -27,7 +48,13 @@ export default function Minimap({
   enemies,
   pickups = [],
   worldMap,
+  hazardMap = [],
+  doors = [],
+  crushers = [],
+  keycards = [],
+  revealAll = false,
 }: MinimapProps) {
+  perfMonitor.countRender("Minimap");
   const mapSize = 200;
   const scale = mapSize / worldMap.length;
 
@@ -213,16 +240,59 @@ export default function Minimap({
         AUTOMAP
       </div>
       <svg width={mapSize} height={mapSize} className="border border-gray-500">
+        {/* Draw discovered hazard floors */}
+        {hazardMap.map((row, y) =>
+          row.map((cell, x) => {
+            const hazard = getHazardAt(cell);
+            if (!hazard || !(revealAll || discoveredMap[y]?.[x]?.discovered)) {
+              return null;
+            }
+            return (
+              <rect
+                key={`hazard-${x}-${y}`}
+                x={x * scale}
+                y={y * scale}
+                width={scale}
+                height={scale}
+                fill={getHazard(hazard).color}
+                opacity={0.6}
+              />
+            );
+          })
+        )}
+
         {/* Draw discovered walls only */}
         {worldMap.map((row, y) =>
           row.map((cell, x) => {
-            const isDiscovered = discoveredMap[y]?.[x]?.discovered;
-
-            if (cell > 0 && isDiscovered) {
+            const isDiscovered =
+              revealAll || discoveredMap[y]?.[x]?.discovered;
+
+            if (
+              cell > 0 &&
+              cell !== DOOR_CELL &&
+              cell !== CRUSHER_CELL &&
+              isDiscovered
+            ) {
               // Calculate age of discovery for visual effects
               const timeSinceDiscovered =
-                Date.now() - (discoveredMap[y][x]?.lastSeen || 0);
+                Date.now() - (discoveredMap[y]?.[x]?.lastSeen || 0);
               const opacity = Math.max(0.3, 1 - timeSinceDiscovered / 30000); // Fade over 30 seconds
+              // Locked doors stay at full strength in their key's color,
+              // switches in theirs
+              const lock = getKeycardForDoor(cell);
+              const switchColor = getSwitchColor(cell);
+              if (switchColor) {
+                return (
+                  <rect
+                    key={`${x}-${y}`}
+                    x={x * scale}
+                    y={y * scale}
+                    width={scale}
+                    height={scale}
+                    fill={switchColor}
+                  />
+                );
+              }
 
               return (
                 <rect
@@ -231,10 +301,10 @@ export default function Minimap({
                   y={y * scale}
                   width={scale}
                   height={scale}
-                  fill="#8B4513"
-                  stroke="#654321"
+                  fill={lock ? getKeycard(lock).color : "#8B4513"}
+                  stroke={lock ? getKeycard(lock).doorColor : "#654321"}
                   strokeWidth="0.5"
-                  opacity={opacity}
+                  opacity={lock ? 1 : opacity}
                 />
               );
             }
@@ -242,10 +312,46 @@ export default function Minimap({
           })
         )}
 
+        {/* Draw discovered doors, faded while they stand open */}
+        {doors
+          .filter(
+            (door) => revealAll || discoveredMap[door.y]?.[door.x]?.discovered
+          )
+          .map((door) => (
+            <rect
+              key={`door-${door.x}-${door.y}`}
+              x={door.x * scale}
+              y={door.y * scale}
+              width={scale}
+              height={scale}
+              fill={DOOR_COLOR}
+              opacity={door.state === "open" ? 0.4 : 1}
+            />
+          ))}
+
+        {/* Draw discovered crushers, faded while withdrawn */}
+        {crushers
+          .filter(
+            (crusher) =>
+              revealAll || discoveredMap[crusher.y]?.[crusher.x]?.discovered
+          )
+          .map((crusher) => (
+            <rect
+              key={`crusher-${crusher.x}-${crusher.y}`}
+              x={crusher.x * scale}
+              y={crusher.y * scale}
+              width={scale}
+              height={scale}
+              fill={CRUSHER_COLOR}
+              opacity={isCrusherOut(crusher) ? 1 : 0.4}
+            />
+          ))}
+
         {/* Draw fog of war overlay for undiscovered areas */}
         {worldMap.map((row, y) =>
           row.map((cell, x) => {
-            const isDiscovered = discoveredMap[y]?.[x]?.discovered;
+            const isDiscovered =
+              revealAll || discoveredMap[y]?.[x]?.discovered;
 
             if (!isDiscovered) {
               return (
@@ -269,7 +375,7 @@ export default function Minimap({
           .filter((pickup) => {
             const mapX = Math.floor(pickup.x);
             const mapY = Math.floor(pickup.y);
-            return discoveredMap[mapY]?.[mapX]?.discovered;
+            return revealAll || discoveredMap[mapY]?.[mapX]?.discovered;
           })
           .map((pickup, index) => (
             <g key={`pickup-${index}`}>
@@ -277,7 +383,13 @@ export default function Minimap({
                 cx={pickup.x * scale}
                 cy={pickup.y * scale}
                 r={2}
-                fill={pickup.type === "health" ? "#FF4444" : "#4488FF"}
+                fill={
+                  isKeycardId(pickup.keycard)
+                    ? getKeycard(pickup.keycard).color
+                    : pickup.type === "health"
+                      ? "#FF4444"
+                      : "#4488FF"
+                }
                 stroke="#FFFFFF"
                 strokeWidth="0.5"
               />
@@ -290,14 +402,18 @@ export default function Minimap({
                 textAnchor="middle"
                 fontFamily="monospace"
               >
-                {pickup.type === "health" ? "+" : "A"}
+                {pickup.type === "keycard"
+                  ? "K"
+                  : pickup.type === "health"
+                    ? "+"
+                    : "A"}
               </text>
             </g>
           ))}
 
         {/* Draw enemies with different visibility levels */}
         {enemies.map((enemy, index) => {
-          const inFOV = isEnemyInFOV(enemy.x, enemy.y);
+          const inFOV = revealAll || isEnemyInFOV(enemy.x, enemy.y);
           const nearby = isEnemyNearby(enemy.x, enemy.y);
 
           if (inFOV) {
@@ -389,6 +505,16 @@ export default function Minimap({
       <div className="text-xs text-gray-400 mt-1 text-center">
         <div>FOV: {Math.round((FOV * 180) / Math.PI)}°</div>
         <div>Range: {FOV_RANGE}m</div>
+        {keycards.length > 0 && (
+          <div>
+            KEYS:{" "}
+            {keycards.map((id) => (
+              <span key={id} style={{ color: getKeycard(id).color }}>
+                ■
+              </span>
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -4,12 +4,24 @@ interface PauseOverlayProps {
   onResume: () => void;
   onRestart: () => void;
   onExit: () => void;
+  onSave?: () => void; // Save/load are hidden during demo playback
+  onLoad?: () => void;
+  onExportDemo?: () => void; // Only offered when the run is being recorded
+  runSeed: number;
+  floorSeed: number;
+  floor: number;
 }
 
 export default function PauseOverlay({
   onResume,
   onRestart,
   onExit,
+  onSave,
+  onLoad,
+  onExportDemo,
+  runSeed,
+  floorSeed,
+  floor,
 }: PauseOverlayProps) {
   return (
     <div className="absolute inset-0 bg-black bg-opacity-90 flex items-center justify-center z-50">
@@ -43,6 +55,33 @@ export default function PauseOverlay({
             RESTART LEVEL
           </button>
 
+          {onSave && (
+            <button
+              onClick={onSave}
+              className="w-full px-6 py-3 bg-yellow-600 hover:bg-yellow-700 text-white font-mono text-lg font-medium border-2 border-yellow-500 transition-colors"
+            >
+              SAVE GAME
+            </button>
+          )}
+
+          {onLoad && (
+            <button
+              onClick={onLoad}
+              className="w-full px-6 py-3 bg-purple-600 hover:bg-purple-700 text-white font-mono text-lg font-medium border-2 border-purple-500 transition-colors"
+            >
+              LOAD GAME
+            </button>
+          )}
+
+          {onExportDemo && (
+            <button
+              onClick={onExportDemo}
+              className="w-full px-6 py-3 bg-gray-700 hover:bg-gray-600 text-white font-mono text-lg font-medium border-2 border-gray-500 transition-colors"
+            >
+              EXPORT DEMO
+            </button>
+          )}
+
           <button
             onClick={onExit}
             className="w-full px-6 py-3 bg-red-600 hover:bg-red-700 text-white font-mono text-lg font-medium border-2 border-red-500 transition-colors"
@@ -51,6 +90,23 @@ export default function PauseOverlay({
           </button>
         </div>
 
+        {/* Seed info - share these to reproduce a floor */}
+        <div className="p-4 bg-gray-900 border border-gray-700 rounded text-left">
+          <h3 className="text-lg font-mono text-green-400 mb-3 font-bold text-center">
+            SEED
+          </h3>
+          <div className="space-y-2 text-lg text-gray-300 font-mono">
+            <div className="flex justify-between">
+              <span className="font-medium">RUN</span>
+              <span className="select-all">{runSeed}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="font-medium">FLOOR {floor}</span>
+              <span className="select-all">{floorSeed}</span>
+            </div>
+          </div>
+        </div>
+
         {/* Controls reminder */}
         <div className="mt-8 p-4 bg-gray-900 border border-gray-700 rounded">
           <h3 className="text-lg font-mono text-green-400 mb-3 font-bold">
@@ -77,6 +133,10 @@ export default function PauseOverlay({
               <span className="font-medium">1/2/3</span>
               <span>Switch weapons</span>
             </div>
+            <div className="flex justify-between">
+              <span className="font-medium">F5/F9</span>
+              <span>Quicksave/Quickload</span>
+            </div>
             <div className="flex justify-between">
               <span className="font-medium">🔊</span>
               <span>E♭ Minor + Tritones</span>
@@ -0,0 +1,113 @@
+import { useState } from "react";
+import {
+  SaveSystem,
+  type SaveSlot,
+  type SaveSnapshot,
+} from "@/game/systems/SaveSystem";
+
+interface SaveLoadMenuProps {
+  mode: "save" | "load";
+  onSave?: (slot: SaveSlot) => void;
+  onLoad?: (snapshot: SaveSnapshot) => void;
+  onClose: () => void;
+}
+
+const SLOT_LABELS: Record<SaveSlot, string> = {
+  quicksave: "QUICKSAVE",
+  "slot-1": "SLOT 1",
+  "slot-2": "SLOT 2",
+  "slot-3": "SLOT 3",
+};
+
+const formatTheme = (theme: string) => theme.replace(/_/g, " ").toUpperCase();
+
+export default function SaveLoadMenu({
+  mode,
+  onSave,
+  onLoad,
+  onClose,
+}: SaveLoadMenuProps) {
+  const [saveSystem] = useState(() => new SaveSystem());
+  const [slots, setSlots] = useState(() => saveSystem.listSlots());
+
+  // Quicksave is written with F5 only, so it isn't offered as a save target
+  const visibleSlots =
+    mode === "save" ? slots.filter((info) => info.slot !== "quicksave") : slots;
+
+  const handleDelete = (slot: SaveSlot) => {
+    saveSystem.delete(slot);
+    setSlots(saveSystem.listSlots());
+  };
+
+  return (
+    <div className="absolute inset-0 bg-black bg-opacity-95 flex items-center justify-center z-50">
+      <div className="text-center space-y-6 max-w-lg w-full p-8">
+        <div className="space-y-2">
+          <h2 className="text-5xl font-mono text-yellow-400 font-bold tracking-wider">
+            {mode === "save" ? "SAVE GAME" : "LOAD GAME"}
+          </h2>
+          <div className="w-32 h-1 bg-yellow-400 mx-auto"></div>
+        </div>
+
+        <div className="space-y-3">
+          {visibleSlots.map(({ slot, snapshot }) => {
+            const canSelect = mode === "save" || snapshot !== null;
+
+            return (
+              <div key={slot} className="flex items-center space-x-2">
+                <button
+                  onClick={() => {
+                    if (mode === "save") {
+                      onSave?.(slot);
+                    } else if (snapshot) {
+                      onLoad?.(snapshot);
+                    }
+                  }}
+                  disabled={!canSelect}
+                  className={`flex-1 px-6 py-3 text-left font-mono text-lg border-2 transition-colors ${
+                    canSelect
+                      ? "bg-gray-800 hover:bg-gray-700 border-gray-500 text-white"
+                      : "bg-gray-900 border-gray-700 text-gray-400"
+                  }`}
+                >
+                  <div className="flex justify-between">
+                    <span className="font-bold">{SLOT_LABELS[slot]}</span>
+                    {snapshot && (
+                      <span className="text-gray-400">
+                        {new Date(snapshot.savedAt).toLocaleString()}
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-gray-300">
+                    {!snapshot
+                      ? "EMPTY"
+                      : snapshot.data.survival
+                        ? `SURVIVAL • WAVE ${snapshot.data.survival.wave} • HP ${snapshot.data.player.health}`
+                        : `FLOOR ${snapshot.data.currentFloor} • ${formatTheme(
+                            snapshot.data.floorTheme
+                          )} • HP ${snapshot.data.player.health}`}
+                  </div>
+                </button>
+                {snapshot && mode === "load" && (
+                  <button
+                    onClick={() => handleDelete(slot)}
+                    className="px-4 py-3 bg-red-900 hover:bg-red-700 text-white font-mono text-lg border-2 border-red-700 transition-colors"
+                  >
+                    ✕
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <button
+          onClick={onClose}
+          className="w-full px-6 py-3 bg-gray-600 hover:bg-gray-700 text-white font-mono text-lg font-medium border-2 border-gray-500 transition-colors"
+        >
+          BACK
+        </button>
+      </div>
+    </div>
+  );
+}
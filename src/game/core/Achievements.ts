@@ -0,0 +1,119 @@
+import type { GameEvent, GameEventMap, GameEventType } from "./GameEvents";
+import type { GameState } from "./GameStateManager";
+import { getAccuracy, getDiscoveredPercent, getTotalKills } from "./Stats";
+import type { WeaponId } from "./Weapons";
+
+/**
+ * Achievement rules. Each one is tested once per state update against the
+ * latest state and the gameplay events emitted since the previous update;
+ * unlocks are persisted by the AchievementSystem.
+ */
+
+export interface AchievementFrame {
+  state: Readonly<GameState>;
+  events: GameEvent[];
+  // Weapons that have damaged each living enemy this floor (null: not a player shot)
+  weaponsOnEnemy: ReadonlyMap<number, ReadonlySet<WeaponId | null>>;
+}
+
+export interface AchievementDefinition {
+  name: string;
+  description: string;
+  test: (frame: AchievementFrame) => boolean;
+}
+
+function eventsOf<K extends GameEventType>(
+  frame: AchievementFrame,
+  type: K
+): Array<GameEventMap[K]> {
+  return frame.events
+    .filter((event) => event.type === type)
+    .map((event) => event.payload as GameEventMap[K]);
+}
+
+const clearedFloor = (frame: AchievementFrame) =>
+  eventsOf(frame, "FloorCleared").length > 0;
+
+export const ACHIEVEMENTS = {
+  first_blood: {
+    name: "FIRST BLOOD",
+    description: "Kill your first enemy",
+    test: (frame) => eventsOf(frame, "EnemyKilled").length > 0,
+  },
+  giant_killer: {
+    name: "GIANT KILLER",
+    description: "Defeat a boss",
+    test: (frame) =>
+      eventsOf(frame, "EnemyKilled").some((kill) => kill.isBoss),
+  },
+  pea_shooter: {
+    name: "PEA SHOOTER",
+    description: "Kill a Spider Mastermind with the pistol only",
+    test: (frame) =>
+      eventsOf(frame, "EnemyKilled").some((kill) => {
+        const weapons = frame.weaponsOnEnemy.get(kill.enemyId);
+        return (
+          kill.enemyType === "boss_spider_mastermind" &&
+          !!weapons &&
+          [...weapons].every((weapon) => weapon === "pistol")
+        );
+      }),
+  },
+  untouchable: {
+    name: "UNTOUCHABLE",
+    description: "Clear a floor without taking damage",
+    test: (frame) =>
+      clearedFloor(frame) && frame.state.floorStats.damageTaken === 0,
+  },
+  sharpshooter: {
+    name: "SHARPSHOOTER",
+    description: "Clear a floor with 75% accuracy or better",
+    test: (frame) =>
+      clearedFloor(frame) && getAccuracy(frame.state.floorStats) >= 75,
+  },
+  speed_demon: {
+    name: "SPEED DEMON",
+    description: "Clear a floor in under a minute",
+    test: (frame) =>
+      clearedFloor(frame) && frame.state.floorStats.ticks < 60 * 60,
+  },
+  cartographer: {
+    name: "CARTOGRAPHER",
+    description: "Discover 100% of a floor's automap",
+    test: (frame) => getDiscoveredPercent(frame.state.floorStats) >= 100,
+  },
+  into_the_void: {
+    name: "INTO THE VOID",
+    description: "Reach floor 25 in the void realm",
+    test: (frame) =>
+      frame.state.mode === "campaign" && frame.state.currentFloor >= 25,
+  },
+  centurion: {
+    name: "CENTURION",
+    description: "Kill 100 enemies in a single run",
+    test: (frame) => getTotalKills(frame.state.runStats) >= 100,
+  },
+  last_stand: {
+    name: "LAST STAND",
+    description: "Survive wave 10 in survival",
+    test: (frame) => eventsOf(frame, "WaveCleared").some((wave) => wave.wave >= 10),
+  },
+  nightmare: {
+    name: "NIGHTMARE!",
+    description: "Clear a floor on Nightmare",
+    test: (frame) => clearedFloor(frame) && frame.state.skill === "nightmare",
+  },
+} satisfies Record<string, AchievementDefinition>;
+
+export type AchievementId = keyof typeof ACHIEVEMENTS;
+
+/** Achievement ids in gallery order */
+export const ACHIEVEMENT_IDS = Object.keys(ACHIEVEMENTS) as AchievementId[];
+
+export function getAchievement(id: AchievementId): AchievementDefinition {
+  return ACHIEVEMENTS[id];
+}
+
+export function isAchievementId(value: unknown): value is AchievementId {
+  return typeof value === "string" && value in ACHIEVEMENTS;
+}
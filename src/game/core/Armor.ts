@@ -0,0 +1,105 @@
+/**
+ * Armor the player can wear. Each armor class soaks up a fraction of every
+ * enemy hit until its points run out; armor pickups either top up the
+ * current armor or replace it with a better suit.
+ */
+
+export interface ArmorClassDefinition {
+  name: string;
+  absorption: number; // Fraction of each hit taken by the armor
+  color: string; // HUD and pickup tint
+}
+
+export const ARMOR_CLASSES = {
+  green: { name: "GREEN ARMOR", absorption: 1 / 3, color: "#22C55E" },
+  blue: { name: "BLUE ARMOR", absorption: 0.5, color: "#3B82F6" },
+} satisfies Record<string, ArmorClassDefinition>;
+
+export type ArmorClassId = keyof typeof ARMOR_CLASSES;
+
+/** Armor points can never go above this */
+export const MAX_ARMOR = 200;
+
+export interface ArmorPickupDefinition {
+  name: string;
+  armor: number; // Points added (bonus) or set (suits)
+  armorClass: ArmorClassId | null; // Suit class worn on pickup, null: keeps the current one
+  spawnWeight: number; // Relative chance among armor pickups placed on a floor / dropped
+}
+
+export const ARMOR_PICKUPS = {
+  armor_bonus: {
+    name: "ARMOR BONUS",
+    armor: 5,
+    armorClass: null,
+    spawnWeight: 6,
+  },
+  green_armor: {
+    name: "GREEN ARMOR",
+    armor: 100,
+    armorClass: "green",
+    spawnWeight: 3,
+  },
+  blue_armor: {
+    name: "BLUE ARMOR",
+    armor: 200,
+    armorClass: "blue",
+    spawnWeight: 1,
+  },
+} satisfies Record<string, ArmorPickupDefinition>;
+
+export type ArmorPickupType = keyof typeof ARMOR_PICKUPS;
+
+/** Armor pickup types, in table order */
+export const ARMOR_PICKUP_TYPES = Object.keys(
+  ARMOR_PICKUPS
+) as ArmorPickupType[];
+
+export function getArmorClass(id: ArmorClassId): ArmorClassDefinition {
+  return ARMOR_CLASSES[id];
+}
+
+export function getArmorPickup(type: ArmorPickupType): ArmorPickupDefinition {
+  return ARMOR_PICKUPS[type];
+}
+
+export function isArmorClassId(value: unknown): value is ArmorClassId {
+  return typeof value === "string" && value in ARMOR_CLASSES;
+}
+
+export function isArmorPickup(value: unknown): value is ArmorPickupType {
+  return typeof value === "string" && value in ARMOR_PICKUPS;
+}
+
+/**
+ * Pick an armor pickup from a single 0-1 roll, weighted by spawnWeight
+ */
+export function chooseArmorPickup(roll: number): ArmorPickupType {
+  const total = ARMOR_PICKUP_TYPES.reduce(
+    (sum, type) => sum + getArmorPickup(type).spawnWeight,
+    0
+  );
+
+  let threshold = roll * total;
+  for (const type of ARMOR_PICKUP_TYPES) {
+    threshold -= getArmorPickup(type).spawnWeight;
+    if (threshold < 0) return type;
+  }
+  return ARMOR_PICKUP_TYPES[ARMOR_PICKUP_TYPES.length - 1];
+}
+
+/**
+ * Split a hit between armor and health. Like Doom, the armor takes its
+ * class's share (rounded down) until it runs out and the rest goes to health.
+ */
+export function absorbDamage(
+  armor: number,
+  armorClass: ArmorClassId | null,
+  damage: number
+): { absorbed: number; healthDamage: number } {
+  const absorbed =
+    armorClass === null
+      ? 0
+      : Math.min(armor, Math.floor(damage * getArmorClass(armorClass).absorption));
+  return { absorbed, healthDamage: damage - absorbed };
+}
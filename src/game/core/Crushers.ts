@@ -0,0 +1,118 @@
+/**
+ * Crushers. A crusher is a steel panel hung in a corridor that slams shut
+ * across its cell and pulls back again on a fixed cycle, whoever is in the
+ * way. Anyone caught in the cell while it is shut takes a hit every few
+ * ticks until it lifts. Like a door the cell holds CRUSHER_CELL while the
+ * panel is out, so it blocks movement and shots, and turns back into empty
+ * floor once it has fully withdrawn; the cycle lives in GameState.crushers
+ * so it is saved and replayed.
+ */
+
+export interface Crusher {
+  x: number;
+  y: number;
+  axis: "x" | "y"; // Direction of travel through the corridor
+  cycle: number; // Ticks into the crusher's cycle, 0 to CRUSHER_CYCLE_TICKS
+}
+
+/** World map value of a crusher cell while its panel is out */
+export const CRUSHER_CELL = 34;
+
+/** Wall color of crusher panels */
+export const CRUSHER_COLOR = "#B91C1C";
+
+/** Ticks a crusher stays withdrawn before it slams */
+export const CRUSHER_OPEN_TICKS = 2 * 60;
+
+/** Ticks a crusher takes to slam shut */
+export const CRUSHER_SLAM_TICKS = 10;
+
+/** Ticks a crusher stays shut */
+export const CRUSHER_SHUT_TICKS = 40;
+
+/** Ticks a crusher takes to pull back */
+export const CRUSHER_LIFT_TICKS = 30;
+
+export const CRUSHER_CYCLE_TICKS =
+  CRUSHER_OPEN_TICKS +
+  CRUSHER_SLAM_TICKS +
+  CRUSHER_SHUT_TICKS +
+  CRUSHER_LIFT_TICKS;
+
+/** Health lost per hit while caught in a shut crusher, before armor */
+export const CRUSHER_DAMAGE = 20;
+
+/** Ticks between hits while caught in a shut crusher */
+export const CRUSHER_INTERVAL = 20;
+
+/** First campaign floor that can have crushers */
+export const CRUSHER_MIN_FLOOR = 3;
+
+/** Most crushers hung on one floor */
+export const CRUSHER_MAX_COUNT = 3;
+
+// Cycle ticks at which the panel starts slamming, is shut and starts lifting
+const SLAM_START = CRUSHER_OPEN_TICKS;
+const SHUT_START = SLAM_START + CRUSHER_SLAM_TICKS;
+const LIFT_START = SHUT_START + CRUSHER_SHUT_TICKS;
+
+/**
+ * @param cycle Where in its cycle the crusher starts, so the crushers on a
+ * floor don't all slam together; kept within the withdrawn part so a new
+ * floor starts with every crusher open
+ */
+export function createCrusher(
+  x: number,
+  y: number,
+  axis: Crusher["axis"],
+  cycle: number
+): Crusher {
+  return { x, y, axis, cycle: cycle % CRUSHER_OPEN_TICKS };
+}
+
+/** Crushers a campaign floor gets */
+export function getCrusherCount(floor: number): number {
+  if (floor < CRUSHER_MIN_FLOOR) return 0;
+  return Math.min(CRUSHER_MAX_COUNT, floor - CRUSHER_MIN_FLOOR + 1);
+}
+
+/** Whether the panel is out of the wall, so the cell blocks */
+export function isCrusherOut(crusher: Crusher): boolean {
+  return crusher.cycle >= SLAM_START;
+}
+
+/** Whether the panel is all the way across, crushing whoever is in the cell */
+export function isCrusherShut(crusher: Crusher): boolean {
+  return crusher.cycle >= SHUT_START && crusher.cycle < LIFT_START;
+}
+
+/** Whether a shut crusher lands a hit on this tick */
+export function isCrusherHitTick(crusher: Crusher): boolean {
+  return (
+    isCrusherShut(crusher) &&
+    (crusher.cycle - SHUT_START) % CRUSHER_INTERVAL === 0
+  );
+}
+
+/** Whether the panel has just finished slamming shut */
+export function hasCrusherSlammed(crusher: Crusher): boolean {
+  return crusher.cycle === SHUT_START;
+}
+
+/** How far a crusher's panel has withdrawn, 0 shut - 1 fully open */
+export function getCrusherOpenFraction(crusher: Crusher): number {
+  const { cycle } = crusher;
+  if (cycle < SLAM_START) return 1;
+  if (cycle < SHUT_START) return 1 - (cycle - SLAM_START) / CRUSHER_SLAM_TICKS;
+  if (cycle < LIFT_START) return 0;
+  return (cycle - LIFT_START) / CRUSHER_LIFT_TICKS;
+}
+
+/** The crusher in a world map cell, if any */
+export function getCrusherAt(
+  crushers: readonly Crusher[],
+  x: number,
+  y: number
+): Crusher | undefined {
+  return crushers.find((crusher) => crusher.x === x && crusher.y === y);
+}
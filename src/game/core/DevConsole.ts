@@ -0,0 +1,236 @@
+import { ENEMY_TYPE_IDS, isEnemyTypeId } from "./Enemies";
+import type { CheatFlags, GameStateManager } from "./GameStateManager";
+import { WEAPON_IDS, isWeaponId } from "./Weapons";
+
+/**
+ * Developer console commands. They run against the GameStateManager wherever
+ * the simulation lives, so the same table serves the worker and the
+ * main-thread fallback. Cheats flag the run via the manager.
+ */
+
+export interface ConsoleResult {
+  ok: boolean;
+  message: string;
+}
+
+export interface ConsoleCompletion {
+  value: string; // Full command line to put in the input
+  description: string;
+}
+
+interface ConsoleCommand {
+  usage: string;
+  description: string;
+  argOptions?: readonly string[]; // Completions for the first argument
+  run(manager: GameStateManager, args: string[]): ConsoleResult;
+}
+
+const ok = (message: string): ConsoleResult => ({ ok: true, message });
+const fail = (message: string): ConsoleResult => ({ ok: false, message });
+
+function toggleCheat(
+  manager: GameStateManager,
+  cheat: keyof CheatFlags,
+  label: string,
+  arg: string | undefined
+): ConsoleResult {
+  let enabled = !manager.getState().cheats[cheat];
+  if (arg === "on" || arg === "off") {
+    enabled = arg === "on";
+  } else if (arg !== undefined) {
+    return fail(`Expected on or off, got "${arg}"`);
+  }
+
+  manager.setCheat(cheat, enabled);
+  return ok(`${label} ${enabled ? "ON" : "OFF"}`);
+}
+
+function parseNumber(arg: string | undefined): number | null {
+  if (arg === undefined || arg.trim() === "") return null;
+  const value = Number(arg);
+  return Number.isFinite(value) ? value : null;
+}
+
+export const CONSOLE_COMMANDS = {
+  help: {
+    usage: "help",
+    description: "List commands",
+    run: (): ConsoleResult =>
+      ok(
+        Object.values(CONSOLE_COMMANDS as Record<string, ConsoleCommand>)
+          .map((command) => `${command.usage} - ${command.description}`)
+          .join("\n")
+      ),
+  },
+  god: {
+    usage: "god [on|off]",
+    description: "Enemy attacks deal no damage",
+    argOptions: ["on", "off"],
+    run: (manager, [arg]) => toggleCheat(manager, "god", "God mode", arg),
+  },
+  noclip: {
+    usage: "noclip [on|off]",
+    description: "Walk through walls",
+    argOptions: ["on", "off"],
+    run: (manager, [arg]) => toggleCheat(manager, "noclip", "Noclip", arg),
+  },
+  reveal: {
+    usage: "reveal [on|off]",
+    description: "Show the whole floor and every enemy on the minimap",
+    argOptions: ["on", "off"],
+    run: (manager, [arg]) => toggleCheat(manager, "reveal", "Reveal map", arg),
+  },
+  give: {
+    usage: `give ${[...WEAPON_IDS, "all"].join("|")}`,
+    description: "Unlock a weapon with full ammo",
+    argOptions: [...WEAPON_IDS, "all"],
+    run: (manager, [arg]) => {
+      if (arg === "all") {
+        WEAPON_IDS.forEach((weapon) => manager.giveWeapon(weapon));
+        return ok("All weapons given");
+      }
+      if (!isWeaponId(arg)) {
+        return fail(`Unknown weapon "${arg ?? ""}"`);
+      }
+
+      manager.giveWeapon(arg);
+      manager.switchWeapon(arg);
+      return ok(`Gave ${arg}`);
+    },
+  },
+  health: {
+    usage: "health N",
+    description: "Set player health",
+    run: (manager, [arg]) => {
+      const value = parseNumber(arg);
+      if (value === null) return fail("Usage: health N");
+      return ok(`Health set to ${manager.setPlayerHealth(value)}`);
+    },
+  },
+  warp: {
+    usage: "warp <floor>",
+    description: "Jump to a floor of this run",
+    run: (manager, [arg]) => {
+      const floor = parseNumber(arg);
+      if (floor === null || floor < 1) return fail("Usage: warp <floor>");
+      if (manager.getState().mode === "survival") {
+        return fail("There are no floors to warp to in survival");
+      }
+
+      manager.warpToFloor(floor);
+      const state = manager.getState();
+      return ok(
+        `Warped to floor ${state.currentFloor}${state.isBossFloor ? " (boss)" : ""}`
+      );
+    },
+  },
+  spawn: {
+    usage: "spawn <enemyType> [x y]",
+    description: "Spawn an enemy in front of you or at a map position",
+    argOptions: ENEMY_TYPE_IDS,
+    run: (manager, [type, xArg, yArg]) => {
+      if (!isEnemyTypeId(type)) {
+        return fail(`Unknown enemy type "${type ?? ""}"`);
+      }
+
+      const x = parseNumber(xArg);
+      const y = parseNumber(yArg);
+      if (xArg !== undefined && (x === null || y === null)) {
+        return fail("Usage: spawn <enemyType> [x y]");
+      }
+
+      const enemy = manager.spawnEnemy(type, x ?? undefined, y ?? undefined);
+      if (!enemy) return fail("Can't spawn inside a wall");
+      return ok(
+        `Spawned ${type} #${enemy.id} at ${enemy.x.toFixed(1)}, ${enemy.y.toFixed(1)}`
+      );
+    },
+  },
+  killall: {
+    usage: "killall",
+    description: "Kill every enemy on the floor",
+    run: (manager) => ok(`Killed ${manager.killAllEnemies()} enemies`),
+  },
+  seed: {
+    usage: "seed",
+    description: "Show the run and floor seeds",
+    run: (manager) => {
+      const { runSeed, currentFloor, floorSeed } = manager.getState();
+      return ok(`Run seed ${runSeed} - floor ${currentFloor} seed ${floorSeed}`);
+    },
+  },
+  timescale: {
+    usage: "timescale [0.1-4]",
+    description: "Show or set simulation speed",
+    run: (manager, [arg]) => {
+      if (arg === undefined) {
+        return ok(`Time scale ${manager.getState().timeScale}`);
+      }
+      const scale = parseNumber(arg);
+      if (scale === null || scale <= 0) return fail("Usage: timescale [0.1-4]");
+      return ok(`Time scale set to ${manager.setTimeScale(scale)}`);
+    },
+  },
+} satisfies Record<string, ConsoleCommand>;
+
+export type ConsoleCommandName = keyof typeof CONSOLE_COMMANDS;
+
+function isConsoleCommandName(value: string): value is ConsoleCommandName {
+  return value in CONSOLE_COMMANDS;
+}
+
+function tokenize(line: string): string[] {
+  return line.trim().split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Parse and run one console line
+ */
+export function runConsoleCommand(
+  manager: GameStateManager,
+  line: string
+): ConsoleResult {
+  const [name, ...args] = tokenize(line);
+  if (!name) return fail("Type help for a list of commands");
+
+  const command = name.toLowerCase();
+  if (!isConsoleCommandName(command)) {
+    return fail(`Unknown command "${name}"`);
+  }
+
+  const definition: ConsoleCommand = CONSOLE_COMMANDS[command];
+  return definition.run(manager, args);
+}
+
+/**
+ * Suggestions for a partially typed line: command names while typing the
+ * first word, then the command's first argument options
+ */
+export function getConsoleCompletions(line: string): ConsoleCompletion[] {
+  const tokens = tokenize(line);
+  const typingNewWord = /\s$/.test(line);
+  const names = Object.keys(CONSOLE_COMMANDS) as ConsoleCommandName[];
+
+  if (tokens.length === 0 || (tokens.length === 1 && !typingNewWord)) {
+    const prefix = (tokens[0] ?? "").toLowerCase();
+    return names
+      .filter((name) => name.startsWith(prefix))
+      .map((name) => ({
+        value: name,
+        description: CONSOLE_COMMANDS[name].description,
+      }));
+  }
+
+  const name = tokens[0].toLowerCase();
+  const argIndex = typingNewWord ? tokens.length - 1 : tokens.length - 2;
+  if (!isConsoleCommandName(name) || argIndex !== 0) return [];
+
+  const definition: ConsoleCommand = CONSOLE_COMMANDS[name];
+  const prefix = typingNewWord ? "" : tokens[1].toLowerCase();
+  return (definition.argOptions ?? [])
+    .filter((option) => option.startsWith(prefix))
+    .map((option) => ({
+      value: `${name} ${option}`,
+      description: definition.usage,
+    }));
+}
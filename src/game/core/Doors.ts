@@ -0,0 +1,89 @@
+/**
+ * Sliding doors. A door is a world map cell holding DOOR_CELL while it is
+ * shut or moving, so it blocks movement and shots like a wall; its slide
+ * lives in GameState.doors so it is saved and replayed. Once fully open the
+ * cell turns into empty floor until the door starts closing again.
+ */
+
+export type DoorState = "closed" | "opening" | "open" | "closing";
+
+export interface Door {
+  x: number;
+  y: number;
+  axis: "x" | "y"; // Direction of travel through the doorway
+  trigger: "proximity" | "switch"; // Switch doors only open from their switch
+  state: DoorState;
+  slide: number; // Ticks into the slide, 0 shut to DOOR_SLIDE_TICKS open
+  timer: number; // Ticks left open before it starts closing
+}
+
+/** World map value of a sliding door cell */
+export const DOOR_CELL = 26;
+
+/** Wall color of sliding doors */
+export const DOOR_COLOR = "#A8A29E";
+
+/** Ticks a door takes to slide fully open or shut */
+export const DOOR_SLIDE_TICKS = 30;
+
+/** Ticks a door stays open once nobody is near it */
+export const DOOR_OPEN_TICKS = 3 * 60;
+
+/** Distance from a door's center at which the player or an enemy opens it */
+export const DOOR_TRIGGER_RANGE = 1.5;
+
+export function createDoor(
+  x: number,
+  y: number,
+  axis: Door["axis"],
+  trigger: Door["trigger"] = "proximity"
+): Door {
+  return { x, y, axis, trigger, state: "closed", slide: 0, timer: 0 };
+}
+
+/** How far a door has slid into the wall, 0 shut - 1 fully open */
+export function getDoorOpenFraction(door: Door): number {
+  return door.slide / DOOR_SLIDE_TICKS;
+}
+
+/** The door in a world map cell, if any */
+export function getDoorAt(
+  doors: readonly Door[],
+  x: number,
+  y: number
+): Door | undefined {
+  return doors.find((door) => door.x === x && door.y === y);
+}
+
+/**
+ * Direction of travel through an empty cell that is a one-cell gap in a
+ * wall, or null if a door can't hang there
+ */
+export function getDoorwayAxis(
+  worldMap: number[][],
+  x: number,
+  y: number
+): Door["axis"] | null {
+  const cell = (cx: number, cy: number) => worldMap[cy]?.[cx] ?? 1;
+  const isWall = (cx: number, cy: number) =>
+    cell(cx, cy) > 0 && cell(cx, cy) !== DOOR_CELL;
+  const isOpen = (cx: number, cy: number) => cell(cx, cy) === 0;
+
+  if (
+    isWall(x - 1, y) &&
+    isWall(x + 1, y) &&
+    isOpen(x, y - 1) &&
+    isOpen(x, y + 1)
+  ) {
+    return "y";
+  }
+  if (
+    isWall(x, y - 1) &&
+    isWall(x, y + 1) &&
+    isOpen(x - 1, y) &&
+    isOpen(x + 1, y)
+  ) {
+    return "x";
+  }
+  return null;
+}
@@ -0,0 +1,206 @@
+import type { SoundType } from "../systems/AudioSystem";
+
+/**
+ * Enemy archetype definitions. Spawning, AI tuning, drops, boss phases and
+ * sprites all read from this table, so enemies can be added or rebalanced
+ * without touching the AI code.
+ */
+
+/** Enemy texture sets the renderer has pixel art for */
+export type EnemySpriteSet = "grunt" | "soldier" | "captain";
+
+export interface MinionOption {
+  type: string; // Enemy archetype id
+  health: number;
+  // Rolled in order; the first option whose roll passes is spawned.
+  // Omit on the last option to make it the fallback.
+  chance?: number;
+}
+
+export interface BossDefinition {
+  healthPerFloor: number; // Added to health.min for every floor number
+  baseSpawns: number; // Minions available, +1 every 5 floors
+  phaseThresholds: number[]; // Fractions of max health that start a new phase
+  minions: MinionOption[];
+  // Applied each time the boss enters a new phase
+  onPhaseChange: {
+    spawnCooldown?: number; // Ticks until the next minion spawn
+    attackCooldownReduction?: number; // Ticks shaved off the current cooldown
+    minAttackCooldown?: number;
+    extraSpawns?: number;
+  };
+}
+
+export interface EnemyArchetype {
+  name: string;
+  health: { min: number; max: number }; // Rolled on spawn; bosses scale from min
+  speed: number; // World units per update
+  chaseSpeedMultiplier: number;
+  perception: {
+    detectionRange: number; // Notices a visible player within this range
+    loseRange: number; // Gives up the chase beyond this range when out of sight
+  };
+  attack: {
+    range: number; // Starts attacking inside this distance
+    breakRange: number; // Goes back to chasing beyond this distance
+    damage: number;
+    cooldown: number; // Ticks between attacks
+  };
+  // Chance to drop each pickup type on death
+  drops: { health: number; ammo: number; weapon: number; armor: number };
+  sprite: {
+    set: EnemySpriteSet;
+    scale: number;
+    indicator: { text: string; color: string } | null;
+  };
+  sounds: { hurt: SoundType; death: SoundType };
+  spawnsOnFloors: boolean; // Part of the regular floor population
+  boss: BossDefinition | null;
+}
+
+export const ENEMY_ARCHETYPES = {
+  grunt: {
+    name: "GRUNT",
+    health: { min: 20, max: 35 },
+    speed: 0.025,
+    chaseSpeedMultiplier: 1.5,
+    perception: { detectionRange: 8, loseRange: 10 },
+    attack: { range: 1.5, breakRange: 2.5, damage: 10, cooldown: 60 },
+    drops: { health: 0.5, ammo: 0.7, weapon: 0.05, armor: 0.1 },
+    sprite: {
+      set: "grunt",
+      scale: 1.0,
+      indicator: { text: "G", color: "#FFFF00" },
+    },
+    sounds: { hurt: "enemy_hit", death: "enemy_death" },
+    spawnsOnFloors: true,
+    boss: null,
+  },
+  soldier: {
+    name: "SOLDIER",
+    health: { min: 30, max: 50 },
+    speed: 0.03,
+    chaseSpeedMultiplier: 1.5,
+    perception: { detectionRange: 10, loseRange: 10 },
+    attack: { range: 1.5, breakRange: 2.5, damage: 12, cooldown: 60 },
+    drops: { health: 0.7, ammo: 0.8, weapon: 0.15, armor: 0.2 },
+    sprite: {
+      set: "soldier",
+      scale: 1.1,
+      indicator: { text: "S", color: "#00FF00" },
+    },
+    sounds: { hurt: "enemy_hit", death: "enemy_death" },
+    spawnsOnFloors: true,
+    boss: null,
+  },
+  captain: {
+    name: "CAPTAIN",
+    health: { min: 45, max: 70 },
+    speed: 0.035,
+    chaseSpeedMultiplier: 1.5,
+    perception: { detectionRange: 12, loseRange: 10 },
+    attack: { range: 1.5, breakRange: 2.5, damage: 15, cooldown: 45 }, // Captains attack faster
+    drops: { health: 0.8, ammo: 0.9, weapon: 0.25, armor: 0.3 },
+    sprite: {
+      set: "captain",
+      scale: 1.2,
+      indicator: { text: "C", color: "#FF00FF" },
+    },
+    sounds: { hurt: "enemy_hit", death: "enemy_death" },
+    spawnsOnFloors: true,
+    boss: null,
+  },
+  boss_demon: {
+    name: "DEMON",
+    health: { min: 150, max: 150 },
+    speed: 0.045,
+    chaseSpeedMultiplier: 1.5,
+    perception: { detectionRange: 25, loseRange: 10 },
+    attack: { range: 1.5, breakRange: 2.5, damage: 10, cooldown: 60 },
+    drops: { health: 1.0, ammo: 1.0, weapon: 0.8, armor: 1.0 }, // High chance of weapon
+    sprite: { set: "grunt", scale: 1.0, indicator: null },
+    sounds: { hurt: "enemy_hit", death: "enemy_death" },
+    spawnsOnFloors: false,
+    boss: {
+      healthPerFloor: 20,
+      baseSpawns: 3,
+      phaseThresholds: [0.75, 0.5, 0.25],
+      minions: [
+        { type: "grunt", health: 25, chance: 0.7 },
+        { type: "soldier", health: 35 },
+      ],
+      // Become more aggressive, spawn minions soon
+      onPhaseChange: { spawnCooldown: 60 },
+    },
+  },
+  boss_cyberdemon: {
+    name: "CYBERDEMON",
+    health: { min: 200, max: 200 },
+    speed: 0.045,
+    chaseSpeedMultiplier: 1.5,
+    perception: { detectionRange: 25, loseRange: 10 },
+    attack: { range: 1.5, breakRange: 2.5, damage: 10, cooldown: 60 },
+    drops: { health: 1.0, ammo: 1.0, weapon: 0.9, armor: 1.0 },
+    sprite: { set: "grunt", scale: 1.0, indicator: null },
+    sounds: { hurt: "enemy_hit", death: "enemy_death" },
+    spawnsOnFloors: false,
+    boss: {
+      healthPerFloor: 25,
+      baseSpawns: 4,
+      phaseThresholds: [0.8, 0.6, 0.4, 0.2],
+      minions: [
+        { type: "soldier", health: 40, chance: 0.5 },
+        { type: "captain", health: 55 },
+      ],
+      // More frequent attacks
+      onPhaseChange: { attackCooldownReduction: 20, minAttackCooldown: 10 },
+    },
+  },
+  boss_spider_mastermind: {
+    name: "SPIDER MASTERMIND",
+    health: { min: 250, max: 250 },
+    speed: 0.045,
+    chaseSpeedMultiplier: 1.5,
+    perception: { detectionRange: 25, loseRange: 10 },
+    attack: { range: 1.5, breakRange: 2.5, damage: 10, cooldown: 60 },
+    drops: { health: 1.0, ammo: 1.0, weapon: 1.0, armor: 1.0 }, // Always drop weapon
+    sprite: { set: "grunt", scale: 1.0, indicator: null },
+    sounds: { hurt: "enemy_hit", death: "enemy_death" },
+    spawnsOnFloors: false,
+    boss: {
+      healthPerFloor: 30,
+      baseSpawns: 5,
+      phaseThresholds: [0.85, 0.7, 0.55, 0.4, 0.25],
+      minions: [
+        { type: "grunt", health: 30, chance: 0.3 },
+        { type: "soldier", health: 45, chance: 0.6 },
+        { type: "captain", health: 60 },
+      ],
+      // Become erratic, multiple spawn waves
+      onPhaseChange: { spawnCooldown: 30, extraSpawns: 2 },
+    },
+  },
+} satisfies Record<string, EnemyArchetype>;
+
+export type EnemyTypeId = keyof typeof ENEMY_ARCHETYPES;
+
+/** Every archetype id, in table order */
+export const ENEMY_TYPE_IDS = Object.keys(ENEMY_ARCHETYPES) as EnemyTypeId[];
+
+export function getEnemyArchetype(type: EnemyTypeId): EnemyArchetype {
+  return ENEMY_ARCHETYPES[type];
+}
+
+export function isEnemyTypeId(value: unknown): value is EnemyTypeId {
+  return typeof value === "string" && value in ENEMY_ARCHETYPES;
+}
+
+/** Archetypes that make up the regular floor population */
+export const FLOOR_ENEMY_TYPES = ENEMY_TYPE_IDS.filter(
+  (type) => ENEMY_ARCHETYPES[type].spawnsOnFloors
+);
+
+/** Bosses in the order they rotate through boss floors */
+export const BOSS_TYPES = ENEMY_TYPE_IDS.filter(
+  (type) => getEnemyArchetype(type).boss !== null
+);
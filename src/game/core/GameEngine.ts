@@ -1,44 +1,134 @@
-import { GameStateManager, type GameState } from "./GameStateManager";
+import {
+  GameStateManager,
+  type GameMode,
+  type GameState,
+  type Pickup,
+} from "./GameStateManager";
+import type { GameEvent } from "./GameEvents";
+import type { ConsoleResult } from "./DevConsole";
+import { createSimulationHost, type SimulationHost } from "./SimulationHost";
 import { InputSystem } from "../systems/InputSystem";
 import { AudioSystem, type SoundType } from "../systems/AudioSystem";
+import { getWeapon, type WeaponId } from "./Weapons";
+import { getEnemyArchetype } from "./Enemies";
+import type { SkillId } from "./Skills";
+import type { PerkId } from "./Perks";
 import { RenderingSystem } from "../rendering/RenderingSystem";
+import {
+  DebugOverlay,
+  DEBUG_OVERLAY_MODES,
+  type DebugOverlayMode,
+} from "../rendering/DebugOverlay";
+import { perfMonitor } from "../systems/PerfMonitor";
+import {
+  SaveSystem,
+  createSnapshot,
+  restoreSnapshot,
+  type SaveSlot,
+  type SaveSnapshot,
+} from "../systems/SaveSystem";
+import {
+  DemoPlayer,
+  DemoRecorder,
+  type Demo,
+  type DemoFrame,
+} from "../systems/DemoSystem";
+
+export interface GameEngineOptions {
+  seed?: number; // Run seed; a random one is chosen when omitted
+  skill?: SkillId; // Skill level for a new run; defaults to medium
+  mode?: GameMode; // Campaign floors or the survival arena; defaults to campaign
+  snapshot?: SaveSnapshot | null; // Saved game to resume instead of a new run
+  demo?: Demo | null; // Recorded run to play back instead of live input
+}
+
+// Sounds for the cue timers the simulation schedules on victory/defeat
+const STING_SOUNDS: Record<string, { sound: SoundType; volume: number }> = {
+  victory_fanfare: { sound: "pickup_weapon", volume: 1.0 },
+  victory_chime: { sound: "pickup_health", volume: 0.8 },
+  defeat_hit: { sound: "player_hurt", volume: 1.0 },
+  defeat_fall: { sound: "enemy_death", volume: 0.6 },
+};
 
 export class GameEngine {
-  private gameStateManager: GameStateManager;
+  private simulation: SimulationHost;
   private inputSystem: InputSystem;
   private audioSystem: AudioSystem;
   private renderingSystem: RenderingSystem;
+  private debugOverlay: DebugOverlay;
+  private debugOverlayMode: DebugOverlayMode = "off";
+  private saveSystem: SaveSystem;
   private animationFrameId: number | null = null;
   private isRunning = false;
   // private lastFrameTime = 0;
   private canvas: HTMLCanvasElement;
-  private lastPlayerHealth = 100;
-  // private lastAmmoCount = 50;
-  private lastEnemyCount = 0;
-  private lastPickupCount = 0;
   // private currentWeapon: string = 'pistol';
-  private victoryPlayed = false;
-  private defeatPlayed = false;
   private footstepTimer = 0;
-  // private lastPlayerPosition = { x: 0, y: 0 };
-
-  constructor(canvas: HTMLCanvasElement, sharedAudioSystem?: AudioSystem) {
+  private lastPlayerPosition = { x: 0, y: 0 };
+
+  // Discrete actions from input events are buffered and applied at the start
+  // of the next frame, so live play and demo playback step identically
+  private pendingFire = false;
+  private pendingUse = false;
+  private pendingWeaponSwitch: DemoFrame["weaponSwitch"] = null;
+  private demoRecorder: DemoRecorder | null = null;
+  private demoPlayer: DemoPlayer | null = null;
+  private demoFinished = false;
+  private demoEndListeners: Array<() => void> = [];
+  private consoleToggleListeners: Array<() => void> = [];
+  private floorsSkipped = 0;
+  private perkChosen: PerkId | null = null;
+
+  constructor(
+    canvas: HTMLCanvasElement,
+    sharedAudioSystem?: AudioSystem,
+    options: GameEngineOptions = {}
+  ) {
     this.canvas = canvas;
-    this.gameStateManager = new GameStateManager();
+    // A resumed save can't be replayed from its seed, so it isn't recorded
+    const restored =
+      !options.demo && options.snapshot
+        ? restoreSnapshot(options.snapshot)
+        : null;
+    const gameStateManager = options.demo
+      ? new GameStateManager(
+          options.demo.seed,
+          options.demo.skill,
+          options.demo.mode
+        )
+      : restored
+        ? GameStateManager.fromState(restored.state, restored.rngState)
+        : new GameStateManager(options.seed, options.skill, options.mode);
     this.inputSystem = new InputSystem();
 
     // Use shared audio system if provided, otherwise create new one
     this.audioSystem = sharedAudioSystem || new AudioSystem();
 
     this.renderingSystem = new RenderingSystem(canvas);
+    this.debugOverlay = new DebugOverlay(canvas);
+    this.saveSystem = new SaveSystem();
+
+    if (options.demo) {
+      this.demoPlayer = new DemoPlayer(options.demo);
+    }
+
+    // Step the simulation off the main thread where workers are available
+    this.simulation = createSimulationHost(gameStateManager);
+    const { player } = this.simulation.getState();
+    this.lastPlayerPosition = { x: player.x, y: player.y };
+    if (!options.demo && !options.snapshot) {
+      this.startRecording();
+    }
 
     // Bind canvas events
     this.setupEventListeners();
+    this.setupGameEventAudio();
   }
 
   private setupEventListeners(): void {
     // Mouse click events
     this.canvas.addEventListener("mousedown", this.handleMouseDown.bind(this));
+    document.addEventListener("visibilitychange", this.handleVisibilityChange);
 
     // Subscribe to input changes for pause and weapon switching
     this.inputSystem.subscribe((inputState) => {
@@ -46,9 +136,36 @@ export class GameEngine {
         this.handlePauseToggle();
       }
 
+      if (inputState.debugOverlayPressed) {
+        const next = DEBUG_OVERLAY_MODES.indexOf(this.debugOverlayMode) + 1;
+        this.debugOverlayMode =
+          DEBUG_OVERLAY_MODES[next % DEBUG_OVERLAY_MODES.length];
+      }
+
+      // Demo playback only listens for pause
+      if (this.demoPlayer) return;
+
       if (inputState.weaponSwitchPressed) {
         this.handleWeaponSwitch(inputState.weaponSwitchPressed.weapon);
       }
+
+      if (inputState.usePressed && !this.simulation.getState().isPaused) {
+        this.pendingUse = true;
+      }
+
+      if (inputState.quickSavePressed) {
+        this.quickSave();
+      }
+
+      if (inputState.quickLoadPressed) {
+        this.quickLoad();
+      }
+
+      if (inputState.consoleTogglePressed) {
+        // Free the cursor for the console overlay
+        this.inputSystem.exitPointerLock();
+        this.consoleToggleListeners.forEach((listener) => listener());
+      }
     });
   }
 
@@ -59,29 +176,40 @@ export class GameEngine {
     event.preventDefault();
 
     const inputState = this.inputSystem.getInputState();
-    const gameState = this.gameStateManager.getState();
+    const gameState = this.simulation.getState();
 
     // If game is paused, don't handle shooting
-    if (gameState.isPaused) return;
+    if (gameState.isPaused || this.demoPlayer) return;
 
     if (!inputState.mouseLocked) {
       // Request pointer lock first
       this.inputSystem.requestPointerLock(this.canvas);
     } else {
-      // Mouse is locked, handle shooting
-      this.handleShooting();
+      // Mouse is locked, fire on the next frame
+      this.pendingFire = true;
     }
   }
 
+  // Pause when the tab is hidden so the game doesn't carry on unwatched;
+  // it stays paused until the player resumes
+  private handleVisibilityChange = (): void => {
+    if (
+      document.hidden &&
+      this.simulation.getState().gameStatus === "playing"
+    ) {
+      this.pause();
+    }
+  };
+
   private handlePauseToggle(): void {
-    const gameState = this.gameStateManager.getState();
+    const gameState = this.simulation.getState();
 
     // Only allow pause/resume if game is playing or paused
     if (
       gameState.gameStatus === "playing" ||
       gameState.gameStatus === "paused"
     ) {
-      this.gameStateManager.togglePause();
+      this.simulation.togglePause();
 
       // Exit pointer lock when pausing
       if (gameState.gameStatus === "playing") {
@@ -94,172 +222,119 @@ export class GameEngine {
     }
   }
 
-  private handleWeaponSwitch(weapon: "pistol" | "shotgun" | "chaingun"): void {
-    const gameState = this.gameStateManager.getState();
+  private handleWeaponSwitch(weapon: WeaponId): void {
+    const gameState = this.simulation.getState();
 
     // Don't switch weapons if game is paused
     if (gameState.isPaused) return;
 
-    // Attempt to switch weapon
-    const switched = this.gameStateManager.switchWeapon(weapon);
-
-    if (switched) {
-      this.audioSystem.playSound("weapon_switch", 0.7);
-      // this.currentWeapon = weapon;
-    }
+    this.pendingWeaponSwitch = weapon;
   }
 
-  private handleShooting(): void {
-    const didShoot = this.gameStateManager.shoot();
-    if (didShoot) {
-      const gameState = this.gameStateManager.getState();
-
-      // Play weapon sound based on current weapon
-      const weaponSounds: Record<string, SoundType> = {
-        pistol: "pistol_fire",
-        shotgun: "shotgun_fire",
-        chaingun: "chaingun_fire",
-      };
+  /**
+   * Play sounds for gameplay events emitted by the simulation
+   */
+  private setupGameEventAudio(): void {
+    const events = this.simulation.getEvents();
 
-      const soundType = weaponSounds[gameState.player.weapon] || "pistol_fire";
-      this.audioSystem.playSound(soundType, 0.8);
+    events.on("PlayerDamaged", () => {
+      this.audioSystem.playSound("player_hurt", 0.7);
+    });
 
-      const hit = this.renderingSystem.castRay(
-        gameState.player.x,
-        gameState.player.y,
-        gameState.player.angle,
-        gameState.worldMap
+    events.on("EnemyDamaged", ({ enemyType }) => {
+      this.audioSystem.playSound(
+        getEnemyArchetype(enemyType).sounds.hurt,
+        0.6
       );
+    });
 
-      // Get weapon stats for range and accuracy
-      const weaponRange = this.gameStateManager.getWeaponRange();
-      const weaponAccuracy = this.gameStateManager.getWeaponAccuracy();
-      const weaponDamage = this.gameStateManager.getWeaponDamage();
-
-      // Check if ray hit an enemy within range
-      // let hitEnemy = false;
-      for (const enemy of gameState.enemies) {
-        const enemyDistance = Math.sqrt(
-          (enemy.x - gameState.player.x) ** 2 +
-            (enemy.y - gameState.player.y) ** 2
-        );
+    events.on("EnemyKilled", ({ enemyType }) => {
+      this.audioSystem.playSound(
+        getEnemyArchetype(enemyType).sounds.death,
+        0.8
+      );
+    });
 
-        // First check if enemy is within weapon range
-        if (enemyDistance > weaponRange) {
-          continue; // Enemy is too far away for this weapon
-        }
+    // Play weapon sound based on the weapon that fired
+    events.on("WeaponFired", ({ weapon }) => {
+      this.audioSystem.playSound(getWeapon(weapon).fireSound, 0.8);
+    });
 
-        // Check if there's a wall between player and enemy
-        if (enemyDistance > hit.distance) {
-          continue; // Wall is blocking the shot
-        }
+    events.on("WeaponSwitched", () => {
+      this.audioSystem.playSound("weapon_switch", 0.7);
+    });
 
-        // Check if player is aiming at the enemy
-        const enemyAngle = Math.atan2(
-          enemy.y - gameState.player.y,
-          enemy.x - gameState.player.x
-        );
-        let angleDiff = Math.abs(gameState.player.angle - enemyAngle);
+    const pickupSounds: Record<Pickup["type"], SoundType> = {
+      health: "pickup_health",
+      ammo: "pickup_ammo",
+      weapon: "pickup_weapon",
+      keycard: "pickup_weapon",
+      armor_bonus: "pickup_armor",
+      green_armor: "pickup_armor",
+      blue_armor: "pickup_armor",
+      invulnerability: "pickup_powerup",
+      berserk: "pickup_powerup",
+      invisibility: "pickup_powerup",
+      light_amp: "pickup_powerup",
+      radiation_suit: "pickup_powerup",
+    };
+    events.on("PickupCollected", ({ type }) => {
+      this.audioSystem.playSound(pickupSounds[type], 0.6);
+    });
 
-        // Normalize angle difference to [0, π]
-        if (angleDiff > Math.PI) {
-          angleDiff = 2 * Math.PI - angleDiff;
-        }
+    events.on("PowerUpExpired", () => {
+      this.audioSystem.playSound("powerup_expire", 0.7);
+    });
 
-        // Check if within weapon accuracy cone
-        if (angleDiff < weaponAccuracy) {
-          // Apply damage falloff for longer range shots
-          let actualDamage = weaponDamage;
-
-          // For shotgun, apply significant damage falloff with distance
-          if (gameState.player.weapon === "shotgun") {
-            const rangeFactor = Math.max(
-              0.3,
-              1 - (enemyDistance / weaponRange) * 0.7
-            );
-            actualDamage = Math.floor(weaponDamage * rangeFactor);
-          }
-          // For other weapons, minimal damage falloff
-          else {
-            const rangeFactor = Math.max(
-              0.8,
-              1 - (enemyDistance / weaponRange) * 0.2
-            );
-            actualDamage = Math.floor(weaponDamage * rangeFactor);
-          }
-
-          // Play enemy hit sound
-          this.audioSystem.playSound("enemy_hit", 0.6);
-
-          // const enemyKilled = this.gameStateManager.damageEnemy(enemy.id, actualDamage);
-          this.gameStateManager.damageEnemy(enemy.id, actualDamage);
-          // hitEnemy = true;
-          break; // Only hit the first enemy in line
-        }
+    // Doors are heard from nearby only, fading out with distance
+    events.on("DoorMoved", ({ x, y, opening }) => {
+      const { player } = this.simulation.getState();
+      const distance = Math.sqrt(
+        (x + 0.5 - player.x) ** 2 + (y + 0.5 - player.y) ** 2
+      );
+      const volume = 0.6 * (1 - distance / 12);
+      if (volume > 0) {
+        this.audioSystem.playSound(
+          opening ? "door_open" : "door_close",
+          volume
+        );
       }
-    }
-  }
+    });
 
-  private detectGameEvents(currentState: GameState): void {
-    // Detect health changes
-    if (currentState.player.health < this.lastPlayerHealth) {
-      this.audioSystem.playSound("player_hurt", 0.7);
-    }
-    this.lastPlayerHealth = currentState.player.health;
+    events.on("SwitchPressed", () => {
+      this.audioSystem.playSound("switch_press", 0.7);
+    });
 
-    // Detect enemy count changes (enemy deaths)
-    if (currentState.enemies.length < this.lastEnemyCount) {
-      const enemiesKilled = this.lastEnemyCount - currentState.enemies.length;
-      for (let i = 0; i < enemiesKilled; i++) {
-        this.audioSystem.playSound("enemy_death", 0.8);
-      }
-    }
-    this.lastEnemyCount = currentState.enemies.length;
-
-    // Enhanced pickup collection detection with proper sound mapping
-    if (currentState.pickups.length < this.lastPickupCount) {
-      // Since we can't directly track which pickup was collected,
-      // we'll play a variety of pickup sounds based on the reduction in pickup count
-      const pickupsCollected =
-        this.lastPickupCount - currentState.pickups.length;
-      for (let i = 0; i < pickupsCollected; i++) {
-        // Randomize pickup sounds for variety since we can't determine exact type
-        const pickupSounds = ["pickup_health", "pickup_ammo", "pickup_weapon"];
-        const randomSound =
-          pickupSounds[Math.floor(Math.random() * pickupSounds.length)];
-        this.audioSystem.playSound(randomSound as any, 0.6);
+    events.on("CrusherSlammed", ({ x, y }) => {
+      const { player } = this.simulation.getState();
+      const distance = Math.sqrt(
+        (x + 0.5 - player.x) ** 2 + (y + 0.5 - player.y) ** 2
+      );
+      const volume = 0.9 * (1 - distance / 12);
+      if (volume > 0) {
+        this.audioSystem.playSound("door_close", volume);
       }
-    }
-    this.lastPickupCount = currentState.pickups.length;
+    });
+
+    events.on("SecretFound", () => {
+      this.audioSystem.playSound("secret_found", 0.7);
+    });
 
-    // Play victory/defeat sounds with enhanced feedback
-    if (currentState.gameStatus === "victory" && !this.victoryPlayed) {
+    // Victory/defeat stings arrive as cues scheduled on simulation time
+    events.on("FloorCleared", () => {
       this.audioSystem.stopAmbientMusic();
-      // Play triumphant victory sequence
-      setTimeout(() => {
-        this.audioSystem.playSound("pickup_weapon", 1.0);
-      }, 200);
-      setTimeout(() => {
-        this.audioSystem.playSound("pickup_health", 0.8);
-      }, 600);
-      this.victoryPlayed = true;
-    } else if (currentState.gameStatus === "defeat" && !this.defeatPlayed) {
+    });
+
+    events.on("PlayerDied", () => {
       this.audioSystem.stopAmbientMusic();
-      // Play dramatic defeat sequence
-      setTimeout(() => {
-        this.audioSystem.playSound("player_hurt", 1.0);
-      }, 100);
-      setTimeout(() => {
-        this.audioSystem.playSound("enemy_death", 0.6);
-      }, 800);
-      this.defeatPlayed = true;
-    }
+    });
 
-    // Reset audio state flags when returning to playing
-    if (currentState.gameStatus === "playing") {
-      this.victoryPlayed = false;
-      this.defeatPlayed = false;
-    }
+    events.on("CueTriggered", ({ cue }) => {
+      const sting = STING_SOUNDS[cue];
+      if (sting) {
+        this.audioSystem.playSound(sting.sound, sting.volume);
+      }
+    });
   }
 
   private handleFootsteps(
@@ -302,68 +377,144 @@ export class GameEngine {
     }
   }
 
+  /**
+   * Build this frame's input from the keyboard and mouse, queue it and record it
+   */
+  private stepLiveFrame(currentTime: number): void {
+    const gameState = this.simulation.getState();
+
+    // Paused frames only keep the clock fresh and are left out of demos
+    if (gameState.isPaused) {
+      this.simulation.idle(currentTime);
+      return;
+    }
+
+    const frame: DemoFrame = {
+      ticks: 0,
+      movement: this.inputSystem.getMovementInput(),
+      mouseDeltaX: this.inputSystem.consumeMouseMovement().deltaX,
+      fire: this.pendingFire,
+      use: this.pendingUse,
+      weaponSwitch: this.pendingWeaponSwitch,
+      floorsAdvanced: this.floorsSkipped,
+      perk: this.perkChosen,
+    };
+    this.pendingFire = false;
+    this.pendingUse = false;
+    this.pendingWeaponSwitch = null;
+    this.floorsSkipped = 0;
+    this.perkChosen = null;
+
+    // Update game state with fixed timestep
+    const recorder = this.demoRecorder;
+    this.runFrame(frame, currentTime, null).then(
+      (ticks) => {
+        frame.ticks = ticks;
+        recorder?.record(frame);
+      },
+      (error) => {
+        // A demo missing this frame would no longer replay the run
+        if (this.demoRecorder) {
+          console.warn("Demo recording stopped:", error);
+          this.demoRecorder = null;
+        }
+      }
+    );
+  }
+
+  /**
+   * Replay the next recorded frame in place of live input
+   */
+  private stepDemoFrame(player: DemoPlayer, currentTime: number): void {
+    const gameState = this.simulation.getState();
+    if (gameState.isPaused) {
+      this.simulation.idle(currentTime);
+      return;
+    }
+
+    const frame = this.demoFinished ? null : player.next();
+    if (!frame) {
+      if (!this.demoFinished) {
+        this.demoFinished = true;
+        this.demoEndListeners.forEach((listener) => listener());
+      }
+      return;
+    }
+
+    for (let i = 0; i < frame.floorsAdvanced; i++) {
+      this.simulation.progressToNextFloor(frame.perk);
+    }
+
+    this.runFrame(frame, currentTime, frame.ticks).catch((error) => {
+      // The rest of the demo was recorded against the lost frame
+      console.warn("Demo playback stopped:", error);
+      if (!this.demoFinished) {
+        this.demoFinished = true;
+        this.demoEndListeners.forEach((listener) => listener());
+      }
+    });
+  }
+
+  /**
+   * Hand a frame's input to the simulation and run its fixed ticks. All
+   * movement, shooting and enemy AI happens inside those ticks.
+   */
+  private runFrame(
+    frame: DemoFrame,
+    currentTime: number,
+    ticks: number | null
+  ): Promise<number> {
+    return this.simulation
+      .runFrame(frame, currentTime, ticks)
+      .then((ticksRun) => {
+        // Play footstep sounds during movement
+        const { player } = this.simulation.getState();
+        this.handleFootsteps(
+          this.lastPlayerPosition.x,
+          this.lastPlayerPosition.y,
+          player.x,
+          player.y,
+          frame.movement
+        );
+        this.lastPlayerPosition = { x: player.x, y: player.y };
+        perfMonitor.recordTicks(ticksRun);
+        return ticksRun;
+      });
+  }
+
   private gameLoop = (currentTime: number): void => {
     if (!this.isRunning) return;
+    const frameStart = performance.now();
 
     // Delta time calculation for frame-rate independent updates
     // const deltaTime = currentTime - this.lastFrameTime;
     // this.lastFrameTime = currentTime;
 
-    // Update game state with fixed timestep (handles pause internally)
-    this.gameStateManager.updateWithDeltaTime(currentTime);
-
-    const gameState = this.gameStateManager.getState();
+    if (this.demoPlayer) {
+      this.stepDemoFrame(this.demoPlayer, currentTime);
+    } else {
+      this.stepLiveFrame(currentTime);
+    }
 
-    // Detect and play sounds for game events
-    this.detectGameEvents(gameState);
+    const gameState = this.simulation.getState();
 
     // Update adaptive music based on game state
     if (!gameState.isPaused) {
-      const musicGameState = this.gameStateManager.getGameStateForMusic();
+      const musicGameState = this.simulation.getGameStateForMusic();
       this.audioSystem.updateGameStateForMusic(musicGameState);
     }
 
-    // Only process input if not paused
-    if (!gameState.isPaused) {
-      // Handle movement input
-      const movementInput = this.inputSystem.getMovementInput();
-
-      // Store previous position for footstep calculation
-      const prevX = gameState.player.x;
-      const prevY = gameState.player.y;
-
-      this.gameStateManager.updatePlayer(movementInput);
-
-      // Play footstep sounds during movement
-      this.handleFootsteps(
-        prevX,
-        prevY,
-        gameState.player.x,
-        gameState.player.y,
-        movementInput
-      );
-
-      // Handle mouse look
-      const mouseDelta = this.inputSystem.consumeMouseMovement();
-      if (mouseDelta.deltaX !== 0) {
-        this.gameStateManager.updateMouseLook(mouseDelta.deltaX);
-      }
-
-      // Update enemies with raycasting function
-      this.gameStateManager.updateEnemies((startX, startY, angle) =>
-        this.renderingSystem.castRay(startX, startY, angle, gameState.worldMap)
-      );
-    }
-
     // Always render (even when paused)
-    const finalState = this.gameStateManager.getState();
+    const finalState = this.simulation.getState();
+    // Draw between the last two ticks so motion is smooth at any refresh rate
+    const positions = this.simulation.getInterpolatedPositions();
     this.renderingSystem.render(
-      finalState.player.x,
-      finalState.player.y,
-      finalState.player.angle,
+      positions.player.x,
+      positions.player.y,
+      positions.player.angle,
       finalState.enemies.map((enemy) => ({
-        x: enemy.x,
-        y: enemy.y,
+        x: positions.enemies.get(enemy.id)?.x ?? enemy.x,
+        y: positions.enemies.get(enemy.id)?.y ?? enemy.y,
         state: enemy.state,
         health: enemy.health,
         maxHealth: enemy.maxHealth,
@@ -378,14 +529,34 @@ export class GameEngine {
         spawnTime: pickup.spawnTime,
         animationOffset: pickup.animationOffset,
         weaponType: pickup.weaponType,
+        keycard: pickup.keycard,
       })),
       finalState.worldMap,
+      finalState.doors,
       currentTime,
       finalState.player.weapon,
       finalState.player.isAttacking,
       finalState.player.muzzleFlash,
-      this.gameStateManager.getWeaponRange()
+      getWeapon(finalState.player.weapon).range,
+      finalState.player.powerUps,
+      finalState.hazardMap,
+      finalState.crushers
+    );
+
+    perfMonitor.recordFrame(
+      currentTime,
+      performance.now() - frameStart,
+      this.renderingSystem.getRenderStats(),
+      this.simulation.getFrameStats()
     );
+    if (this.debugOverlayMode !== "off") {
+      this.debugOverlay.draw(
+        this.debugOverlayMode,
+        perfMonitor.getSnapshot(),
+        finalState,
+        positions
+      );
+    }
 
     // Continue the game loop
     this.animationFrameId = requestAnimationFrame(this.gameLoop);
@@ -396,18 +567,9 @@ export class GameEngine {
 
     this.isRunning = true;
     // this.lastFrameTime = performance.now();
+    perfMonitor.resetFrames();
 
-    // Initialize audio state tracking
-    const initialState = this.gameStateManager.getState();
-    this.lastPlayerHealth = initialState.player.health;
-    // this.lastAmmoCount = initialState.player.ammo;
-    this.lastEnemyCount = initialState.enemies.length;
-    this.lastPickupCount = initialState.pickups.length;
-    // this.currentWeapon = initialState.player.weapon;
-    // this.lastPlayerPosition = { x: initialState.player.x, y: initialState.player.y };
     this.footstepTimer = 0;
-    this.victoryPlayed = false;
-    this.defeatPlayed = false;
 
     // Start ambient music
     this.audioSystem.playAmbientMusic();
@@ -432,62 +594,189 @@ export class GameEngine {
   }
 
   public pause(): void {
-    this.gameStateManager.pause();
+    this.simulation.pause();
     this.inputSystem.exitPointerLock();
     this.audioSystem.stopAmbientMusic();
   }
 
   public resume(): void {
-    this.gameStateManager.resume();
+    this.simulation.resume();
     this.audioSystem.playAmbientMusic();
   }
 
   public reset(): void {
-    this.gameStateManager.reset();
+    this.simulation.reset();
+    if (this.demoPlayer) {
+      this.demoPlayer.rewind();
+      this.demoFinished = false;
+    } else {
+      this.startRecording();
+    }
     this.inputSystem.exitPointerLock();
     this.audioSystem.stopAmbientMusic();
 
-    // Reset audio state tracking
-    const newState = this.gameStateManager.getState();
-    this.lastPlayerHealth = newState.player.health;
-    // this.lastAmmoCount = newState.player.ammo;
-    this.lastEnemyCount = newState.enemies.length;
-    this.lastPickupCount = newState.pickups.length;
-    // this.currentWeapon = newState.player.weapon;
-    // this.lastPlayerPosition = { x: newState.player.x, y: newState.player.y };
     this.footstepTimer = 0;
-    this.victoryPlayed = false;
-    this.defeatPlayed = false;
 
     // Start ambient music for new game
     this.audioSystem.playAmbientMusic();
   }
 
   /**
-   * Progress to the next level without resetting to level 1
+   * Progress to the next level without resetting to level 1, taking one of
+   * the perks offered on the victory screen
    */
-  public progressToNextLevel(): void {
-    this.gameStateManager.progressToNextFloor();
+  public progressToNextLevel(perk: PerkId | null = null): void {
+    // Demo playback advances floors when the recording did
+    if (this.demoPlayer) return;
+
+    // Recorded as a request; replaying it against the same state has the
+    // same effect (a no-op if the floor already advanced on its own)
+    this.simulation.progressToNextFloor(perk);
+    this.floorsSkipped++;
+    this.perkChosen = perk;
     this.inputSystem.exitPointerLock();
     this.audioSystem.stopAmbientMusic();
 
-    // Reset audio state tracking for new level
-    const newState = this.gameStateManager.getState();
-    this.lastPlayerHealth = newState.player.health;
-    this.lastEnemyCount = newState.enemies.length;
-    this.lastPickupCount = newState.pickups.length;
     this.footstepTimer = 0;
-    this.victoryPlayed = false;
-    this.defeatPlayed = false;
 
     // Start ambient music for new level
     this.audioSystem.playAmbientMusic();
   }
 
+  /**
+   * Write the current run to a save slot
+   */
+  public saveGame(slot: SaveSlot): boolean {
+    const gameState = this.simulation.getState();
+    if (
+      this.demoPlayer ||
+      (gameState.gameStatus !== "playing" && gameState.gameStatus !== "paused")
+    ) {
+      return false;
+    }
+
+    const saved = this.saveSystem.save(
+      slot,
+      createSnapshot(gameState, this.simulation.getRngState())
+    );
+    if (saved) {
+      this.audioSystem.playSound("menu_click", 0.6);
+    }
+    return saved;
+  }
+
+  /**
+   * Replace the running game with a saved snapshot
+   */
+  public loadGame(snapshot: SaveSnapshot): void {
+    if (this.demoPlayer) return;
+
+    const { state, rngState } = restoreSnapshot(snapshot);
+    this.simulation.loadState(state, rngState);
+    // The recording no longer matches what a replay from the seed would do
+    this.demoRecorder = null;
+
+    this.footstepTimer = 0;
+
+    this.audioSystem.playSound("pickup_weapon", 0.6);
+    this.audioSystem.playAmbientMusic();
+  }
+
+  public quickSave(): boolean {
+    return this.saveGame("quicksave");
+  }
+
+  public quickLoad(): boolean {
+    const snapshot = this.saveSystem.load("quicksave");
+    if (!snapshot) return false;
+
+    this.loadGame(snapshot);
+    return true;
+  }
+
+  private startRecording(): void {
+    const state = this.simulation.getState();
+    this.demoRecorder = new DemoRecorder(
+      state.runSeed,
+      state.skill,
+      state.mode
+    );
+    this.floorsSkipped = 0;
+    this.perkChosen = null;
+    this.pendingFire = false;
+    this.pendingUse = false;
+    this.pendingWeaponSwitch = null;
+  }
+
+  /**
+   * Run a developer console line against the simulation. Cheats can't be
+   * replayed from the seed, so a cheated run stops being recorded.
+   */
+  public runConsoleCommand(line: string): Promise<ConsoleResult> {
+    if (this.demoPlayer) {
+      return Promise.resolve({
+        ok: false,
+        message: "Console is disabled during demo playback",
+      });
+    }
+
+    return this.simulation.runCommand(line).then((result) => {
+      if (this.simulation.getState().cheated) {
+        this.demoRecorder = null;
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Demo of the current run so far, or null when it can't be replayed
+   * (playing back a demo, the run was resumed from a save, or cheats were used)
+   */
+  public getRecordedDemo(): Demo | null {
+    return this.demoRecorder ? this.demoRecorder.toDemo() : null;
+  }
+
+  public isPlayingDemo(): boolean {
+    return this.demoPlayer !== null;
+  }
+
+  public getDemoProgress(): number {
+    return this.demoPlayer ? this.demoPlayer.getProgress() : 0;
+  }
+
+  public subscribeToDemoEnd(listener: () => void): () => void {
+    this.demoEndListeners.push(listener);
+    return () => {
+      const index = this.demoEndListeners.indexOf(listener);
+      if (index > -1) {
+        this.demoEndListeners.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Called when the player presses the console key during live play
+   */
+  public subscribeToConsoleToggle(listener: () => void): () => void {
+    this.consoleToggleListeners.push(listener);
+    return () => {
+      const index = this.consoleToggleListeners.indexOf(listener);
+      if (index > -1) {
+        this.consoleToggleListeners.splice(index, 1);
+      }
+    };
+  }
+
+  public subscribeToGameEvents(
+    listener: (event: GameEvent) => void
+  ): () => void {
+    return this.simulation.getEvents().onAny(listener);
+  }
+
   public subscribeToGameState(
     listener: (state: GameState) => void
   ): () => void {
-    return this.gameStateManager.subscribe(listener);
+    return this.simulation.subscribe(listener);
   }
 
   public resize(width: number, height: number): void {
@@ -500,7 +789,12 @@ export class GameEngine {
 
   public cleanup(): void {
     this.stop();
+    this.simulation.dispose();
     this.inputSystem.cleanup();
+    document.removeEventListener(
+      "visibilitychange",
+      this.handleVisibilityChange
+    );
     // Don't cleanup shared audio system as it's managed externally
     this.canvas.removeEventListener(
       "mousedown",
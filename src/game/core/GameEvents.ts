@@ -0,0 +1,171 @@
+import type { Enemy, Pickup, Player } from "./GameStateManager";
+import type { PerkId } from "./Perks";
+import type { PowerUpId } from "./PowerUps";
+import type { KeycardId } from "./Keycards";
+import type { SwitchKind } from "./Switches";
+import type { HazardId } from "./Hazards";
+
+/**
+ * Payload of every gameplay event the simulation emits, keyed by event name
+ */
+export interface GameEventMap {
+  PickupCollected: {
+    type: Pickup["type"];
+    weaponType?: Pickup["weaponType"];
+    keycard?: Pickup["keycard"];
+    value: number;
+  };
+  EnemyDamaged: {
+    enemyId: number;
+    enemyType: Enemy["enemyType"];
+    isBoss: boolean;
+    amount: number;
+    remainingHealth: number;
+    weapon: Player["weapon"] | null; // Null when not dealt by a player shot
+  };
+  EnemyKilled: {
+    enemyId: number;
+    enemyType: Enemy["enemyType"];
+    isBoss: boolean;
+    x: number;
+    y: number;
+  };
+  EnemyRespawned: {
+    enemyId: number;
+    enemyType: Enemy["enemyType"];
+    x: number;
+    y: number;
+  };
+  PlayerDamaged: {
+    source: Enemy["enemyType"] | HazardId | "crusher"; // What hurt them
+    amount: number; // Health lost
+    absorbed: number; // Soaked up by armor
+    remainingHealth: number;
+  };
+  PlayerDied: {
+    floor: number;
+  };
+  BossPhaseChanged: {
+    enemyId: number;
+    enemyType: Enemy["enemyType"];
+    phase: number;
+  };
+  WeaponFired: {
+    weapon: Player["weapon"];
+  };
+  WeaponSwitched: {
+    weapon: Player["weapon"];
+    previous: Player["weapon"];
+  };
+  FloorCleared: {
+    floor: number;
+    isBossFloor: boolean;
+  };
+  PerkChosen: {
+    perk: PerkId;
+    stacks: number; // Stacks held after this pick
+  };
+  PowerUpExpired: {
+    powerUp: PowerUpId;
+  };
+  DoorOpened: {
+    keycard: KeycardId;
+    x: number;
+    y: number;
+  };
+  DoorLocked: {
+    keycard: KeycardId; // The keycard the player is missing
+  };
+  DoorMoved: {
+    x: number;
+    y: number;
+    opening: boolean; // False when it starts closing
+  };
+  CrusherSlammed: {
+    x: number;
+    y: number;
+  };
+  SwitchPressed: {
+    kind: SwitchKind;
+    x: number;
+    y: number;
+  };
+  SecretFound: {
+    x: number; // Cell the push-wall was pushed from
+    y: number;
+  };
+  WaveStarted: {
+    wave: number;
+    enemies: number; // Enemies sent in, bosses included
+  };
+  WaveCleared: {
+    wave: number;
+    bonus: number; // Score awarded for surviving the wave
+  };
+  CueTriggered: {
+    cue: string; // Name given when the cue timer was scheduled
+  };
+}
+
+export type GameEventType = keyof GameEventMap;
+
+export type GameEvent = {
+  [K in GameEventType]: { type: K; payload: GameEventMap[K] };
+}[GameEventType];
+
+type EventHandler<K extends GameEventType> = (payload: GameEventMap[K]) => void;
+
+/**
+ * Typed pub/sub for gameplay events, so audio, HUD and stats react to what
+ * actually happened instead of diffing state between frames
+ * @author @darianrosebrook
+ */
+export class GameEventBus {
+  private handlers: { [K in GameEventType]?: Array<EventHandler<K>> } = {};
+  private anyHandlers: Array<(event: GameEvent) => void> = [];
+
+  /**
+   * Listen for one event type. Returns an unsubscribe function.
+   */
+  public on<K extends GameEventType>(
+    type: K,
+    handler: EventHandler<K>
+  ): () => void {
+    const list = (this.handlers[type] ??= []) as Array<EventHandler<K>>;
+    list.push(handler);
+    return () => {
+      const index = list.indexOf(handler);
+      if (index > -1) {
+        list.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Listen for every event, e.g. to forward them to the UI or a stats log
+   */
+  public onAny(handler: (event: GameEvent) => void): () => void {
+    this.anyHandlers.push(handler);
+    return () => {
+      const index = this.anyHandlers.indexOf(handler);
+      if (index > -1) {
+        this.anyHandlers.splice(index, 1);
+      }
+    };
+  }
+
+  public emit<K extends GameEventType>(type: K, payload: GameEventMap[K]): void {
+    const list = this.handlers[type] as Array<EventHandler<K>> | undefined;
+    list?.slice().forEach((handler) => handler(payload));
+
+    if (this.anyHandlers.length > 0) {
+      const event = { type, payload } as GameEvent;
+      this.anyHandlers.slice().forEach((handler) => handler(event));
+    }
+  }
+
+  public clear(): void {
+    this.handlers = {};
+    this.anyHandlers = [];
+  }
+}
@@ -1,21 +1,140 @@
+import {
+  SeededRandom,
+  createRunSeed,
+  deriveFloorSeed,
+} from "./SeededRandom";
+import { castRay, isWalkable } from "./Raycaster";
+import { GameEventBus, type GameEventMap } from "./GameEvents";
+import {
+  AMMO_TYPES,
+  STARTING_WEAPON,
+  chooseWeaponDrop,
+  createAmmoPools,
+  getDamageAtDistance,
+  getWeapon,
+  type AmmoType,
+  type WeaponId,
+} from "./Weapons";
+import {
+  BOSS_TYPES,
+  FLOOR_ENEMY_TYPES,
+  getEnemyArchetype,
+  isEnemyTypeId,
+  type EnemyTypeId,
+} from "./Enemies";
+import { DEFAULT_SKILL, getSkill, type SkillId } from "./Skills";
+import {
+  SURVIVAL,
+  chooseWaveEnemy,
+  getWaveSize,
+  isMiniBossWave,
+} from "./Survival";
+import { createPlayStats, recordStatsEvent, type PlayStats } from "./Stats";
+import {
+  PERK_CHOICES,
+  getDamageTakenMultiplier,
+  getDropChanceMultiplier,
+  getFireRateMultiplier,
+  getOfferablePerks,
+  getPerk,
+  getPickupRangeBonus,
+  type PerkId,
+  type PerkStacks,
+} from "./Perks";
+import {
+  MAX_ARMOR,
+  absorbDamage,
+  chooseArmorPickup,
+  getArmorPickup,
+  type ArmorClassId,
+  type ArmorPickupType,
+} from "./Armor";
+import {
+  POWER_UP_FLOOR_CHANCE,
+  POWER_UP_IDS,
+  choosePowerUp,
+  getDetectionChance,
+  getEnemyMissChance,
+  getMeleeDamageMultiplier,
+  getPowerUp,
+  hasPowerUpEffect,
+  isPowerUpId,
+  type PowerUpId,
+  type PowerUpTimers,
+} from "./PowerUps";
+import {
+  getFloorKeycards,
+  getKeycard,
+  getKeycardForDoor,
+  type KeycardId,
+} from "./Keycards";
+import {
+  DOOR_CELL,
+  DOOR_OPEN_TICKS,
+  DOOR_SLIDE_TICKS,
+  DOOR_TRIGGER_RANGE,
+  createDoor,
+  getDoorAt,
+  getDoorwayAxis,
+  type Door,
+} from "./Doors";
+import {
+  SWITCHES,
+  SWITCH_ROOM_CHANCE,
+  getSwitchAt,
+  type Switch,
+  type SwitchKind,
+} from "./Switches";
+import {
+  PUSH_WALL_DISTANCE,
+  PUSH_WALL_STEP_TICKS,
+  SECRET_CHANCE,
+  createPushWall,
+  getPushWallAt,
+  type PushWall,
+} from "./Secrets";
+import {
+  chooseObjective,
+  createObjective,
+  type FloorObjective,
+} from "./Objectives";
+import {
+  HAZARD_AREA_CHANCE,
+  HAZARD_MIN_FLOOR,
+  createHazardMap,
+  getHazard,
+  getHazardAt,
+  type HazardId,
+} from "./Hazards";
+import {
+  CRUSHER_CELL,
+  CRUSHER_CYCLE_TICKS,
+  CRUSHER_DAMAGE,
+  CRUSHER_OPEN_TICKS,
+  createCrusher,
+  getCrusherAt,
+  getCrusherCount,
+  hasCrusherSlammed,
+  isCrusherHitTick,
+  isCrusherOut,
+  type Crusher,
+} from "./Crushers";
+
 export interface Player {
   x: number;
   y: number;
   angle: number;
   health: number;
-  ammo: {
-    pistol: number;
-    shotgun: number;
-    chaingun: number;
-  };
+  ammo: Record<AmmoType, number>;
   maxHealth: number;
-  maxAmmo: {
-    pistol: number;
-    shotgun: number;
-    chaingun: number;
-  };
-  weapon: "pistol" | "shotgun" | "chaingun";
-  availableWeapons: Set<"pistol" | "shotgun" | "chaingun">;
+  armor: number;
+  armorClass: ArmorClassId | null; // Class of the suit worn, null without armor
+  maxAmmo: Record<AmmoType, number>;
+  weapon: WeaponId;
+  availableWeapons: Set<WeaponId>;
+  perks: PerkStacks; // Stacks picked between floors
+  powerUps: PowerUpTimers; // Ticks left on active power-ups
+  keycards: KeycardId[]; // Held on the current floor
   isAttacking: boolean;
   attackTimer: number;
   muzzleFlash: boolean;
@@ -33,13 +152,7 @@ export interface Enemy {
   lastPlayerY: number;
   attackCooldown: number;
   patrolTarget: { x: number; y: number } | null;
-  enemyType:
-    | "grunt"
-    | "soldier"
-    | "captain"
-    | "boss_demon"
-    | "boss_cyberdemon"
-    | "boss_spider_mastermind";
+  enemyType: EnemyTypeId;
   explorationCooldown: number; // New: cooldown for exploration moves
   explorationDirection: { dx: number; dy: number } | null; // New: current exploration direction
   isBoss: boolean;
@@ -55,11 +168,52 @@ export interface Pickup {
   id: number;
   x: number;
   y: number;
-  type: "health" | "ammo" | "weapon";
+  type: "health" | "ammo" | "weapon" | "keycard" | ArmorPickupType | PowerUpId;
   value: number;
   spawnTime: number;
   animationOffset: number;
-  weaponType?: "shotgun" | "chaingun";
+  weaponType?: WeaponId;
+  keycard?: KeycardId;
+}
+
+/**
+ * Simulation work deferred by a number of fixed ticks. Actions are plain
+ * data so pending timers survive saves and replay identically in demos.
+ */
+export type TimerAction =
+  | { type: "checkFloorProgression" }
+  | { type: "spawnDrops"; x: number; y: number; enemyType: EnemyTypeId }
+  | { type: "respawnEnemy"; x: number; y: number; enemyType: EnemyTypeId }
+  | { type: "startWave" }
+  | { type: "cue"; cue: string }; // Emitted as CueTriggered for audio/UI
+
+export interface Timer {
+  id: number;
+  ticksRemaining: number;
+  action: TimerAction;
+}
+
+/**
+ * Toggles set from the developer console
+ */
+export interface CheatFlags {
+  god: boolean; // Enemy attacks deal no damage
+  noclip: boolean; // Walk through walls
+  reveal: boolean; // Minimap shows the whole floor and every enemy
+}
+
+/** Ways to play a run */
+export const GAME_MODES = ["campaign", "survival"] as const;
+export type GameMode = (typeof GAME_MODES)[number];
+
+/**
+ * Wave progress for a survival run
+ */
+export interface SurvivalState {
+  wave: number; // Latest wave sent in, 0 before the first
+  waveActive: boolean; // The latest wave still has enemies alive
+  kills: number;
+  score: number;
 }
 
 export interface GameState {
@@ -68,6 +222,12 @@ export interface GameState {
   pickups: Pickup[];
   gameStatus: "playing" | "paused" | "victory" | "defeat";
   worldMap: number[][];
+  hazardMap: number[][]; // Hazard floor under each worldMap cell, 0 if safe
+  doors: Door[]; // Sliding doors on the floor, hung in worldMap's DOOR_CELLs
+  crushers: Crusher[]; // Crushers on the floor, cycling in corridor cells
+  switches: Switch[]; // Door switches on the floor and the doors they open
+  pushWalls: PushWall[]; // Secret push-walls on the floor
+  objective: FloorObjective | null; // What ends the floor, campaign only
   lastUpdateTime: number;
   accumulator: number;
   isPaused: boolean;
@@ -78,43 +238,187 @@ export interface GameState {
   floorTheme: string;
   isBossFloor: boolean;
   bossDefeated: boolean;
+  runSeed: number; // Seed for the whole run, chosen or entered at game start
+  skill: SkillId; // Skill level chosen at game start
+  mode: GameMode;
+  survival: SurvivalState | null; // Survival runs only
+  floorStats: PlayStats; // Restarted on every floor
+  runStats: PlayStats; // Whole run, current floor included
+  discovered: number[]; // Bitset of the floor's tiles the player has seen, row by row
+  perkChoices: PerkId[]; // Offered on the victory screen, picked when advancing
+  floorSeed: number; // Seed derived from runSeed + floor that drives all floor randomness
+  timers: Timer[]; // Pending delayed actions, counted down in fixed ticks
+  nextTimerId: number;
+  cheats: CheatFlags;
+  cheated: boolean; // Set once any console cheat is used; the run no longer counts for stats
+  timeScale: number; // Simulation speed multiplier from the console, 1 = normal
+}
+
+export interface MovementInput {
+  forward: boolean;
+  backward: boolean;
+  left: boolean;
+  right: boolean;
+  rotateLeft: boolean;
+  rotateRight: boolean;
+}
+
+/**
+ * Everything the player can do in a single fixed tick
+ */
+export interface TickInput {
+  movement: MovementInput;
+  mouseDeltaX: number;
+  fire: boolean;
+  use: boolean; // Press whatever is right in front of the player
+  weaponSwitch: WeaponId | null;
+}
+
+/**
+ * Player and enemy positions blended between the last two fixed ticks
+ */
+export interface InterpolatedPositions {
+  player: { x: number; y: number; angle: number };
+  enemies: Map<number, { x: number; y: number }>; // Keyed by enemy id
+}
+
+/**
+ * Work done by the latest update call, shown by the perf overlay
+ */
+export interface SimulationFrameStats {
+  ticks: number;
+  losRays: number; // castRay calls for enemy line of sight
+}
+
+export type RaycastFunction = (
+  startX: number,
+  startY: number,
+  angle: number
+) => { distance: number };
+
+/**
+ * Walled-in area made by sealVault. The entrance faces out along dx/dy.
+ */
+interface Vault {
+  entrance: { x: number; y: number; dx: number; dy: number };
+  outside: boolean[][]; // Reachable without passing the entrance
+  inside: Array<{ x: number; y: number }>; // Floor only reachable through it
+  restore: () => void; // Put the map back as it was
+}
+
+/**
+ * Interactive parts of a generated floor, from generateFloorLayout
+ */
+interface FloorLayout {
+  objective: FloorObjective;
+  doors: Door[];
+  switches: Switch[];
+  pushWalls: PushWall[];
+  keySpots: Array<{ keycard: KeycardId; x: number; y: number }>;
+  // In switch rooms and secrets, plus a radiation suit by the hazards
+  lootSpots: Array<{ x: number; y: number; powerUp?: PowerUpId }>;
+  hazardMap: number[][];
+  crushers: Crusher[];
 }
 
 export class GameStateManager {
   private state: GameState;
   private listeners: Array<(state: GameState) => void> = [];
   private readonly FIXED_TIMESTEP = 1000 / 60; // 60 FPS in milliseconds
-
-  // Weapon statistics including range - REDUCED DAMAGE BY HALF
-  private readonly WEAPON_STATS = {
-    pistol: {
-      damage: 12, // Reduced from 25
-      ammoUse: 1,
-      attackDuration: 15,
-      muzzleDuration: 8,
-      range: 15, // Medium range
-      accuracy: 0.2, // Hit tolerance in radians
-    },
-    shotgun: {
-      damage: 22, // Reduced from 45
-      ammoUse: 1,
-      attackDuration: 25,
-      muzzleDuration: 12,
-      range: 8, // Close range
-      accuracy: 0.3, // More generous hit area
-    },
-    chaingun: {
-      damage: 7, // Reduced from 15
-      ammoUse: 1,
-      attackDuration: 8,
-      muzzleDuration: 5,
-      range: 12, // Medium range
-      accuracy: 0.2, // Standard accuracy
+  // Longest wall-clock gap one frame catches up on, in milliseconds
+  private readonly MAX_FRAME_TIME = 250;
+  // Every random choice in the simulation goes through this generator so a
+  // run seed + floor number always reproduces the same floor
+  private rng: SeededRandom = new SeededRandom(0);
+  private events = new GameEventBus();
+  // Input collected between ticks. Held movement applies to every tick; mouse
+  // movement, fire, use and weapon switches are used up by the next tick.
+  private inputBuffer: TickInput = {
+    movement: {
+      forward: false,
+      backward: false,
+      left: false,
+      right: false,
+      rotateLeft: false,
+      rotateRight: false,
     },
+    mouseDeltaX: 0,
+    fire: false,
+    use: false,
+    weaponSwitch: null,
   };
+  // Positions at the start of the latest tick, for render interpolation
+  private previousPlayer = { x: 0, y: 0, angle: 0 };
+  private previousEnemies = new Map<number, { x: number; y: number }>();
+  private frameStats: SimulationFrameStats = { ticks: 0, losRays: 0 };
+  // Tile the player last looked around from; discovery only reruns on a new tile
+  private lastDiscoveryTile = -1;
+  // Locked door cell the player is pushing against, so DoorLocked fires once
+  private lockedDoorBumped = -1;
+  // Doorways carved into room walls on the floor being generated; doors are
+  // hung in the ones that are still gaps once the map is finished
+  private roomDoorways: Array<{ x: number; y: number }> = [];
+  // Zones of the floor being generated themed for hazards, and the room
+  // floors and corridors laid out in them that may become hazard floors
+  private hazardZones: Array<{
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+  }> = [];
+  private hazardAreas: Array<Array<{ x: number; y: number }>> = [];
+  // Loot spots of the first floor, laid out before there is state to spawn
+  // pickups into
+  private pendingLoot: FloorLayout["lootSpots"] = [];
+  // How far in front of the player the use action reaches
+  private readonly USE_RANGE = 1.5;
+
+  /**
+   * @param restore State and RNG position to pick up from instead of
+   * generating the first floor; see GameStateManager.fromState
+   */
+  constructor(
+    runSeed: number = createRunSeed(),
+    skill: SkillId = DEFAULT_SKILL,
+    mode: GameMode = "campaign",
+    restore: { state: GameState; rngState: number } | null = null
+  ) {
+    if (restore) {
+      this.state = restore.state;
+      this.rng = new SeededRandom(restore.rngState);
+    } else {
+      this.state = this.createInitialState(runSeed, skill, mode);
+      this.initializeEnemiesAfterState();
+    }
+    this.snapInterpolation();
+    // Stats are counted from the simulation's own events
+    this.events.onAny((event) => {
+      recordStatsEvent(this.state.floorStats, event);
+      recordStatsEvent(this.state.runStats, event);
+    });
+  }
+
+  /**
+   * Build a manager straight from a saved or transferred state, without
+   * generating a floor only to throw it away
+   */
+  public static fromState(
+    state: GameState,
+    rngState: number
+  ): GameStateManager {
+    return new GameStateManager(state.runSeed, state.skill, state.mode, {
+      state,
+      rngState,
+    });
+  }
 
-  constructor() {
-    this.state = this.createInitialState();
+  /**
+   * Re-seed the generator for a floor and return the floor seed
+   */
+  private seedFloor(runSeed: number, floor: number): number {
+    const floorSeed = deriveFloorSeed(runSeed, floor);
+    this.rng = new SeededRandom(floorSeed);
+    return floorSeed;
   }
 
   private generateWorldMap(size: number): number[][] {
@@ -146,6 +450,9 @@ export class GameStateManager {
   private generateRooms(map: number[][], size: number): void {
     // Create themed zones for better organization
     const zones = this.createThemedZones(size);
+    this.hazardZones = zones.filter(
+      (zone) => zone.theme === "warning" || zone.theme === "danger"
+    );
     const rooms: Array<{
       x: number;
       y: number;
@@ -156,7 +463,7 @@ export class GameStateManager {
     }> = [];
 
     // Generate more rooms with better size distribution
-    const roomCount = 15 + Math.floor(Math.random() * 10); // 15-24 rooms for better coverage
+    const roomCount = 15 + Math.floor(this.rng.next() * 10); // 15-24 rooms for better coverage
     const attempts = roomCount * 10; // More attempts for better placement
 
     for (
@@ -166,24 +473,24 @@ export class GameStateManager {
     ) {
       // Better size distribution: mix of small, medium, and large rooms
       let roomWidth, roomHeight;
-      const sizeCategory = Math.random();
+      const sizeCategory = this.rng.next();
 
       if (sizeCategory < 0.4) {
         // Small rooms (40% chance)
-        roomWidth = 3 + Math.floor(Math.random() * 4); // 3-6
-        roomHeight = 3 + Math.floor(Math.random() * 4); // 3-6
+        roomWidth = 3 + Math.floor(this.rng.next() * 4); // 3-6
+        roomHeight = 3 + Math.floor(this.rng.next() * 4); // 3-6
       } else if (sizeCategory < 0.8) {
         // Medium rooms (40% chance)
-        roomWidth = 6 + Math.floor(Math.random() * 6); // 6-11
-        roomHeight = 6 + Math.floor(Math.random() * 6); // 6-11
+        roomWidth = 6 + Math.floor(this.rng.next() * 6); // 6-11
+        roomHeight = 6 + Math.floor(this.rng.next() * 6); // 6-11
       } else {
         // Large rooms (20% chance)
-        roomWidth = 10 + Math.floor(Math.random() * 8); // 10-17
-        roomHeight = 10 + Math.floor(Math.random() * 8); // 10-17
+        roomWidth = 10 + Math.floor(this.rng.next() * 8); // 10-17
+        roomHeight = 10 + Math.floor(this.rng.next() * 8); // 10-17
       }
 
-      const startX = 2 + Math.floor(Math.random() * (size - roomWidth - 4));
-      const startY = 2 + Math.floor(Math.random() * (size - roomHeight - 4));
+      const startX = 2 + Math.floor(this.rng.next() * (size - roomWidth - 4));
+      const startY = 2 + Math.floor(this.rng.next() * (size - roomHeight - 4));
 
       // Check for overlaps with existing rooms (with small buffer)
       const hasOverlap = rooms.some((existingRoom) => {
@@ -217,6 +524,18 @@ export class GameStateManager {
 
       // Create room with enhanced structure
       this.createEnhancedRoom(map, roomInfo);
+
+      const centerX = startX + roomWidth / 2;
+      const centerY = startY + roomHeight / 2;
+      if (this.isHazardZone(centerX, centerY)) {
+        const floor: Array<{ x: number; y: number }> = [];
+        for (let y = startY + 1; y < startY + roomHeight - 1; y++) {
+          for (let x = startX + 1; x < startX + roomWidth - 1; x++) {
+            floor.push({ x, y });
+          }
+        }
+        this.hazardAreas.push(floor);
+      }
     }
 
     // Generate better connectivity
@@ -275,11 +594,11 @@ export class GameStateManager {
 
     // Guarantee at least one door
     const guaranteedDoor =
-      validDoors[Math.floor(Math.random() * validDoors.length)];
+      validDoors[Math.floor(this.rng.next() * validDoors.length)];
     doorPositions.push(guaranteedDoor);
 
     // Add additional doors randomly (1-3 total doors per room)
-    const additionalDoors = Math.floor(Math.random() * 3); // 0-2 additional doors
+    const additionalDoors = Math.floor(this.rng.next() * 3); // 0-2 additional doors
     for (
       let i = 0;
       i < additionalDoors && doorPositions.length < validDoors.length;
@@ -294,7 +613,7 @@ export class GameStateManager {
 
       if (availableDoors.length > 0) {
         const additionalDoor =
-          availableDoors[Math.floor(Math.random() * availableDoors.length)];
+          availableDoors[Math.floor(this.rng.next() * availableDoors.length)];
         doorPositions.push(additionalDoor);
       }
     }
@@ -302,6 +621,7 @@ export class GameStateManager {
     // Create the doors
     doorPositions.forEach((door) => {
       map[door.y][door.x] = 0;
+      this.roomDoorways.push({ x: door.x, y: door.y });
     });
   }
 
@@ -327,7 +647,7 @@ export class GameStateManager {
     ];
 
     // Create 4-6 zones across the map
-    const zoneCount = 4 + Math.floor(Math.random() * 3);
+    const zoneCount = 4 + Math.floor(this.rng.next() * 3);
     const zonesPerRow = Math.ceil(Math.sqrt(zoneCount));
     const zoneWidth = Math.floor(size / zonesPerRow);
     const zoneHeight = Math.floor(size / zonesPerRow);
@@ -335,7 +655,7 @@ export class GameStateManager {
     for (let i = 0; i < zoneCount; i++) {
       const row = Math.floor(i / zonesPerRow);
       const col = i % zonesPerRow;
-      const theme = themes[Math.floor(Math.random() * themes.length)];
+      const theme = themes[Math.floor(this.rng.next() * themes.length)];
 
       zones.push({
         x: col * zoneWidth,
@@ -343,13 +663,27 @@ export class GameStateManager {
         width: zoneWidth,
         height: zoneHeight,
         theme,
-        colorIndex: Math.floor(Math.random() * 4), // 4 colors per theme
+        colorIndex: Math.floor(this.rng.next() * 4), // 4 colors per theme
       });
     }
 
     return zones;
   }
 
+  /**
+   * Whether a spot lies in a zone whose rooms and corridors may get
+   * hazard floors
+   */
+  private isHazardZone(x: number, y: number): boolean {
+    return this.hazardZones.some(
+      (zone) =>
+        x >= zone.x &&
+        x < zone.x + zone.width &&
+        y >= zone.y &&
+        y < zone.y + zone.height
+    );
+  }
+
   /**
    * Get the zone at a specific coordinate
    */
@@ -435,14 +769,14 @@ export class GameStateManager {
       const centerY = room.y + Math.floor(room.height / 2);
 
       // Maybe add a central pillar
-      if (Math.random() < 0.3) {
+      if (this.rng.next() < 0.3) {
         map[centerY][centerX] = room.wallType;
       }
 
       // Maybe add internal walls for complex structure
-      if (Math.random() < 0.2) {
+      if (this.rng.next() < 0.2) {
         for (let x = room.x + 2; x < room.x + room.width - 2; x++) {
-          if (Math.random() < 0.6) {
+          if (this.rng.next() < 0.6) {
             map[centerY][x] = room.wallType;
           }
         }
@@ -481,15 +815,15 @@ export class GameStateManager {
    */
   private generateDenseCorridors(map: number[][], size: number): void {
     // Create a denser network of corridors
-    const corridorCount = 12 + Math.floor(Math.random() * 8); // 12-19 corridors
+    const corridorCount = 12 + Math.floor(this.rng.next() * 8); // 12-19 corridors
 
     for (let i = 0; i < corridorCount; i++) {
-      const startX = 2 + Math.floor(Math.random() * (size - 4));
-      const startY = 2 + Math.floor(Math.random() * (size - 4));
-      const length = 15 + Math.floor(Math.random() * 20); // Longer corridors
+      const startX = 2 + Math.floor(this.rng.next() * (size - 4));
+      const startY = 2 + Math.floor(this.rng.next() * (size - 4));
+      const length = 15 + Math.floor(this.rng.next() * 20); // Longer corridors
 
       // More varied directions including diagonals
-      const direction = Math.floor(Math.random() * 8);
+      const direction = Math.floor(this.rng.next() * 8);
       const directions = [
         { dx: 1, dy: 0 }, // right
         { dx: 0, dy: 1 }, // down
@@ -504,6 +838,7 @@ export class GameStateManager {
       let x = startX,
         y = startY;
       const dir = directions[direction];
+      const corridor: Array<{ x: number; y: number }> = [];
 
       for (let j = 0; j < length; j++) {
         if (x >= 2 && x < size - 2 && y >= 2 && y < size - 2) {
@@ -511,20 +846,25 @@ export class GameStateManager {
           map[y][x] = 0;
           if (x + 1 < size - 1) map[y][x + 1] = 0;
           if (y + 1 < size - 1) map[y + 1][x] = 0;
+          corridor.push({ x, y }, { x: x + 1, y }, { x, y: y + 1 });
         }
 
         x += dir.dx;
         y += dir.dy;
 
         // Change direction occasionally for more interesting paths
-        if (Math.random() < 0.1) {
-          const newDir = directions[Math.floor(Math.random() * 8)];
+        if (this.rng.next() < 0.1) {
+          const newDir = directions[Math.floor(this.rng.next() * 8)];
           dir.dx = newDir.dx;
           dir.dy = newDir.dy;
         }
 
         if (x <= 2 || x >= size - 3 || y <= 2 || y >= size - 3) break;
       }
+
+      if (this.isHazardZone(startX, startY)) {
+        this.hazardAreas.push(corridor);
+      }
     }
   }
 
@@ -539,11 +879,11 @@ export class GameStateManager {
     const zones = this.createThemedZones(size);
 
     // More pillars for better space utilization
-    const pillarCount = 20 + Math.floor(Math.random() * 15); // 20-34 pillars
+    const pillarCount = 20 + Math.floor(this.rng.next() * 15); // 20-34 pillars
 
     for (let i = 0; i < pillarCount; i++) {
-      const x = 3 + Math.floor(Math.random() * (size - 6));
-      const y = 3 + Math.floor(Math.random() * (size - 6));
+      const x = 3 + Math.floor(this.rng.next() * (size - 6));
+      const y = 3 + Math.floor(this.rng.next() * (size - 6));
 
       // Get themed pillar type
       const zone = this.getZoneAt(x, y, zones);
@@ -555,7 +895,7 @@ export class GameStateManager {
         map[y][x] = pillarType;
 
         // Maybe create a small cluster
-        if (Math.random() < 0.3) {
+        if (this.rng.next() < 0.3) {
           const clusterOffsets = [
             { dx: 1, dy: 0 },
             { dx: -1, dy: 0 },
@@ -567,9 +907,9 @@ export class GameStateManager {
             { dx: -1, dy: 1 },
           ];
 
-          for (let j = 0; j < 2 + Math.floor(Math.random() * 3); j++) {
+          for (let j = 0; j < 2 + Math.floor(this.rng.next() * 3); j++) {
             const offset =
-              clusterOffsets[Math.floor(Math.random() * clusterOffsets.length)];
+              clusterOffsets[Math.floor(this.rng.next() * clusterOffsets.length)];
             const newX = x + offset.dx;
             const newY = y + offset.dy;
 
@@ -579,7 +919,7 @@ export class GameStateManager {
               newY >= 2 &&
               newY < size - 2 &&
               map[newY][newX] === 0 &&
-              Math.random() < 0.6
+              this.rng.next() < 0.6
             ) {
               map[newY][newX] = pillarType;
             }
@@ -662,17 +1002,17 @@ export class GameStateManager {
     ];
 
     // Generate more special rooms for better coverage
-    const roomCount = 6 + Math.floor(Math.random() * 6); // 6-11 special rooms
+    const roomCount = 6 + Math.floor(this.rng.next() * 6); // 6-11 special rooms
 
     for (let i = 0; i < roomCount; i++) {
       const template =
         specialRoomTemplates[
-          Math.floor(Math.random() * specialRoomTemplates.length)
+          Math.floor(this.rng.next() * specialRoomTemplates.length)
         ];
       const startX =
-        3 + Math.floor(Math.random() * (size - template.pattern[0].length - 6));
+        3 + Math.floor(this.rng.next() * (size - template.pattern[0].length - 6));
       const startY =
-        3 + Math.floor(Math.random() * (size - template.pattern.length - 6));
+        3 + Math.floor(this.rng.next() * (size - template.pattern.length - 6));
 
       // Get theme for this location
       const centerX = startX + Math.floor(template.pattern[0].length / 2);
@@ -776,9 +1116,9 @@ export class GameStateManager {
     // Create at least one opening
     if (perimeterCells.length > 0) {
       const doorCount =
-        1 + Math.floor(Math.random() * Math.min(3, perimeterCells.length));
+        1 + Math.floor(this.rng.next() * Math.min(3, perimeterCells.length));
       for (let i = 0; i < doorCount; i++) {
-        const doorIndex = Math.floor(Math.random() * perimeterCells.length);
+        const doorIndex = Math.floor(this.rng.next() * perimeterCells.length);
         const door = perimeterCells[doorIndex];
         map[door.y][door.x] = 0;
         // Remove this position to avoid duplicate doors
@@ -806,14 +1146,32 @@ export class GameStateManager {
     map: number[][],
     startX: number,
     startY: number,
-    size: number
+    size: number,
+    passable: (cell: number, x: number, y: number) => boolean = (cell) =>
+      cell === 0
   ): boolean[][] {
-    const visited: boolean[][] = Array(size)
+    return this.distanceMap(map, startX, startY, size, passable).map((row) =>
+      row.map((steps) => steps >= 0)
+    );
+  }
+
+  /**
+   * Steps from the start to every cell reachable through passable cells,
+   * -1 for cells that can't be reached
+   */
+  private distanceMap(
+    map: number[][],
+    startX: number,
+    startY: number,
+    size: number,
+    passable: (cell: number, x: number, y: number) => boolean
+  ): number[][] {
+    const distances: number[][] = Array(size)
       .fill(null)
-      .map(() => Array(size).fill(false));
+      .map(() => Array(size).fill(-1));
     const queue: Array<{ x: number; y: number }> = [{ x: startX, y: startY }];
 
-    visited[startY][startX] = true;
+    distances[startY][startX] = 0;
 
     const directions = [
       { dx: 0, dy: -1 }, // Up
@@ -822,8 +1180,8 @@ export class GameStateManager {
       { dx: -1, dy: 0 }, // Left
     ];
 
-    while (queue.length > 0) {
-      const current = queue.shift()!;
+    for (let head = 0; head < queue.length; head++) {
+      const current = queue[head];
 
       for (const dir of directions) {
         const newX = current.x + dir.dx;
@@ -834,16 +1192,16 @@ export class GameStateManager {
           newX < size &&
           newY >= 0 &&
           newY < size &&
-          !visited[newY][newX] &&
-          map[newY][newX] === 0
+          distances[newY][newX] === -1 &&
+          passable(map[newY][newX], newX, newY)
         ) {
-          visited[newY][newX] = true;
+          distances[newY][newX] = distances[current.y][current.x] + 1;
           queue.push({ x: newX, y: newY });
         }
       }
     }
 
-    return visited;
+    return distances;
   }
 
   private connectUnreachableAreas(
@@ -928,14 +1286,14 @@ export class GameStateManager {
 
     // Create guaranteed horizontal and vertical corridors through the center
     for (let x = 1; x < size - 1; x++) {
-      if (Math.random() < 0.3) {
+      if (this.rng.next() < 0.3) {
         // 30% chance for each cell to be cleared
         map[midPoint][x] = 0;
       }
     }
 
     for (let y = 1; y < size - 1; y++) {
-      if (Math.random() < 0.3) {
+      if (this.rng.next() < 0.3) {
         // 30% chance for each cell to be cleared
         map[y][midPoint] = 0;
       }
@@ -954,209 +1312,990 @@ export class GameStateManager {
   }
 
   /**
-   * Get floor theme based on floor number
+   * Hang a sliding door in every room doorway that the later generation
+   * passes left as a one-cell gap in a wall. Doors open for anyone walking
+   * up to them, so they never change which parts of the floor connect.
    */
-  private getFloorTheme(floor: number): string {
-    const themes = [
-      "tech_base", // Floors 1-5: Tech base (grey/blue walls)
-      "hell_fortress", // Floors 6-10: Hell fortress (red/orange walls)
-      "ancient_ruins", // Floors 11-15: Ancient ruins (brown/gold walls)
-      "cyber_facility", // Floors 16-20: Cyber facility (green/teal walls)
-      "void_realm", // Floors 21+: Void realm (purple/black walls)
-    ];
+  private placeDoors(map: number[][], size: number): Door[] {
+    const start = Math.floor(size / 2);
+    const doors: Door[] = [];
 
-    const themeIndex = Math.floor((floor - 1) / 5) % themes.length;
-    return themes[themeIndex];
+    for (const { x, y } of this.roomDoorways) {
+      if (map[y][x] !== 0 || (x === start && y === start)) continue;
+      const axis = getDoorwayAxis(map, x, y);
+      if (axis === null) continue;
+
+      map[y][x] = DOOR_CELL;
+      doors.push(createDoor(x, y, axis));
+    }
+    this.roomDoorways = [];
+
+    return doors;
   }
 
   /**
-   * Generate world map with themed wall colors
+   * Roll the floor's objective and lay out everything on the finished map
+   * that the player interacts with: sliding doors, keycard vaults, a room
+   * behind a switch door, the exit room, a secret behind a push-wall, the
+   * theme's hazard floors and crushers. The connectivity passes carve
+   * through room walls, so this runs once they are done.
    */
-  private generateWorldMapWithTheme(size: number, theme: string): number[][] {
-    const map: number[][] = Array(size)
-      .fill(null)
-      .map(() => Array(size).fill(0));
+  private generateFloorLayout(
+    map: number[][],
+    size: number,
+    floor: number,
+    isBossFloor: boolean,
+    theme: string
+  ): FloorLayout {
+    const objective = chooseObjective(this.rng.next(), floor, isBossFloor);
+    const doors = this.placeDoors(map, size);
+    const keycards = getFloorKeycards(floor);
+    const keySpots = this.generateLockedAreas(map, size, keycards);
+    const lootSpots: FloorLayout["lootSpots"] = [];
+    const switches: Switch[] = [];
+    const pushWalls: PushWall[] = [];
+
+    // Later vaults may need every key, which the player always gets in order
+    const passable = (cell: number): boolean => {
+      const lock = getKeycardForDoor(cell);
+      return (
+        cell === 0 ||
+        cell === DOOR_CELL ||
+        (lock !== null && keycards.includes(lock))
+      );
+    };
+    const reserved = () => [...keySpots, ...lootSpots];
 
-    // Get wall types for this theme
-    const wallTypes = this.getThemeWallTypes(theme);
+    const switchRoom = this.generateSwitchRoom(map, size, passable, reserved());
+    if (switchRoom) {
+      doors.push(switchRoom.door);
+      switches.push(switchRoom.switch);
+      lootSpots.push(...switchRoom.loot);
+    }
 
-    // Fill borders with walls
-    for (let y = 0; y < size; y++) {
-      for (let x = 0; x < size; x++) {
-        if (x === 0 || x === size - 1 || y === 0 || y === size - 1) {
-          map[y][x] = wallTypes.border;
-        }
-      }
+    if (objective.id === "exit") {
+      const exitDoor = this.generateExitRoom(map, size, passable, reserved());
+      if (exitDoor) doors.push(exitDoor);
     }
 
-    // Use enhanced generation system for better density and variety
-    this.generateRooms(map, size); // This now uses the enhanced system with themed zones
-    this.generateMaze(map, size); // This now uses dense corridors
-    this.generatePillars(map, size); // This now creates themed clusters
-    this.generateSpecialRooms(map, size); // This now has more varied patterns
+    const secret = this.generateSecret(map, size, passable, reserved());
+    if (secret) {
+      pushWalls.push(secret.pushWall);
+      lootSpots.push(...secret.loot);
+    }
 
-    // Ensure map connectivity
-    this.ensureMapConnectivity(map, size);
+    const hazardMap = createHazardMap(size);
+    if (floor >= HAZARD_MIN_FLOOR) {
+      const suitSpot = this.placeHazards(
+        map,
+        hazardMap,
+        size,
+        this.getThemeWallTypes(theme).hazard,
+        passable,
+        reserved()
+      );
+      if (suitSpot) {
+        lootSpots.push({ ...suitSpot, powerUp: "radiation_suit" });
+      }
+    }
+    this.hazardAreas = [];
+    const crushers = this.placeCrushers(
+      map,
+      size,
+      floor,
+      passable,
+      reserved(),
+      hazardMap
+    );
 
-    return map;
+    return {
+      objective,
+      doors,
+      switches,
+      pushWalls,
+      keySpots,
+      lootSpots,
+      hazardMap,
+      crushers,
+    };
   }
 
   /**
-   * Get wall type mapping for each theme
+   * Hang crushers in straight corridor cells the player can reach, away
+   * from the start, doors, switches, hazards and item spots. A crusher only
+   * blocks its cell for part of its cycle, so it never cuts anything off.
    */
-  private getThemeWallTypes(theme: string): {
-    border: number;
-    primary: number;
-    secondary: number;
-    accent: number;
-  } {
-    switch (theme) {
-      case "tech_base":
-        return { border: 1, primary: 2, secondary: 3, accent: 4 }; // Dark slate, bright blue, light blue, pale blue
-      case "hell_fortress":
-        return { border: 1, primary: 18, secondary: 19, accent: 20 }; // Dark slate, red, light red, purple
-      case "ancient_ruins":
-        return { border: 1, primary: 14, secondary: 15, accent: 16 }; // Dark slate, orange, yellow, light orange
-      case "cyber_facility":
-        return { border: 1, primary: 10, secondary: 11, accent: 13 }; // Dark slate, emerald, light green, teal
-      case "void_realm":
-        return { border: 1, primary: 22, secondary: 23, accent: 24 }; // Dark slate, lavender, blue gray, turquoise
-      case "industrial_complex":
-        return { border: 1, primary: 6, secondary: 7, accent: 8 }; // Dark slate, light steel, bright steel, chrome
-      default:
-        return { border: 1, primary: 2, secondary: 3, accent: 4 };
+  private placeCrushers(
+    map: number[][],
+    size: number,
+    floor: number,
+    passable: (cell: number) => boolean,
+    reserved: Array<{ x: number; y: number }>,
+    hazardMap: number[][]
+  ): Crusher[] {
+    const count = getCrusherCount(floor);
+    if (count === 0) return [];
+
+    const start = Math.floor(size / 2);
+    const reached = this.floodFill(map, start, start, size, passable);
+    const isFixture = (cell: number): boolean =>
+      cell === DOOR_CELL ||
+      getKeycardForDoor(cell) !== null ||
+      getSwitchAt(cell) !== null;
+
+    const candidates: Array<{ x: number; y: number; axis: Crusher["axis"] }> =
+      [];
+    for (let y = 1; y < size - 1; y++) {
+      for (let x = 1; x < size - 1; x++) {
+        const axis = getDoorwayAxis(map, x, y);
+        if (
+          axis === null ||
+          !reached[y][x] ||
+          hazardMap[y][x] !== 0 ||
+          Math.abs(x - start) + Math.abs(y - start) <= 6 ||
+          reserved.some((spot) => spot.x === x && spot.y === y)
+        ) {
+          continue;
+        }
+
+        let crowded = false;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            crowded ||= isFixture(map[y + dy][x + dx]);
+          }
+        }
+        if (!crowded) candidates.push({ x, y, axis });
+      }
     }
+
+    const crushers: Crusher[] = [];
+    while (crushers.length < count && candidates.length > 0) {
+      const index = Math.floor(this.rng.next() * candidates.length);
+      const [{ x, y, axis }] = candidates.splice(index, 1);
+      // Spread them out rather than stacking them down one corridor
+      if (
+        crushers.some(
+          (crusher) => Math.abs(crusher.x - x) + Math.abs(crusher.y - y) < 6
+        )
+      ) {
+        continue;
+      }
+      const cycle = Math.floor(this.rng.next() * CRUSHER_OPEN_TICKS);
+      crushers.push(createCrusher(x, y, axis, cycle));
+    }
+    return crushers;
   }
 
   /**
-   * Generate rooms with themed wall types
+   * Turn some of the room floors and corridors laid out in hazard zones
+   * into hazard floors. An area is only kept if every cell that could be
+   * reached before can still be reached without stepping on a hazard, so
+   * the way to keys, switches and the exit always stays safe. Returns a
+   * spot next to the hazards for a radiation suit, or null if none were
+   * placed.
    */
-  private generateThemedRooms(
+  private placeHazards(
     map: number[][],
+    hazardMap: number[][],
     size: number,
-    wallTypes: {
-      border: number;
-      primary: number;
-      secondary: number;
-      accent: number;
-    }
-  ): void {
-    const roomCount = 10 + Math.floor(Math.random() * 8); // 10-17 rooms for bigger maps
-    const rooms: Array<{
-      x: number;
-      y: number;
-      width: number;
-      height: number;
-      wallType: number;
-    }> = [];
-
-    for (let i = 0; i < roomCount; i++) {
-      const roomWidth = 5 + Math.floor(Math.random() * 10); // 5-14 width
-      const roomHeight = 5 + Math.floor(Math.random() * 10); // 5-14 height
-      const startX = 2 + Math.floor(Math.random() * (size - roomWidth - 4));
-      const startY = 2 + Math.floor(Math.random() * (size - roomHeight - 4));
+    hazard: HazardId,
+    passable: (cell: number) => boolean,
+    reserved: Array<{ x: number; y: number }>
+  ): { x: number; y: number } | null {
+    const start = Math.floor(size / 2);
+    const before = this.floodFill(map, start, start, size, passable);
+    const neighbours = [
+      { dx: 0, dy: -1 },
+      { dx: 1, dy: 0 },
+      { dx: 0, dy: 1 },
+      { dx: -1, dy: 0 },
+    ];
+    // The start, item spots and the floor in front of switches stay safe
+    const isKeptSafe = (x: number, y: number): boolean =>
+      (Math.abs(x - start) <= 2 && Math.abs(y - start) <= 2) ||
+      reserved.some((spot) => spot.x === x && spot.y === y) ||
+      neighbours.some(
+        ({ dx, dy }) => getSwitchAt(map[y + dy]?.[x + dx] ?? 0) !== null
+      );
 
-      // Choose wall type based on room importance
-      let wallType;
-      if (i === 0) wallType = wallTypes.accent; // First room is special
-      else if (i < 3) wallType = wallTypes.primary; // Important rooms
-      else if (Math.random() < 0.3)
-        wallType = wallTypes.secondary; // Some variety
-      else wallType = wallTypes.primary; // Most rooms
+    for (const area of this.hazardAreas) {
+      if (this.rng.next() >= HAZARD_AREA_CHANCE) continue;
 
-      // Store room info for door generation
-      const roomInfo = {
-        x: startX,
-        y: startY,
-        width: roomWidth,
-        height: roomHeight,
-        wallType,
-      };
-      rooms.push(roomInfo);
+      const cells = area.filter(
+        ({ x, y }) =>
+          map[y][x] === 0 &&
+          before[y][x] &&
+          hazardMap[y][x] === 0 &&
+          !isKeptSafe(x, y)
+      );
+      if (cells.length === 0) continue;
+
+      cells.forEach(({ x, y }) => (hazardMap[y][x] = getHazard(hazard).cell));
+      const after = this.floodFill(
+        map,
+        start,
+        start,
+        size,
+        (cell, x, y) => passable(cell) && hazardMap[y][x] === 0
+      );
+      const cutOff = before.some((row, y) =>
+        row.some(
+          (reached, x) => reached && hazardMap[y][x] === 0 && !after[y][x]
+        )
+      );
+      if (cutOff) {
+        cells.forEach(({ x, y }) => (hazardMap[y][x] = 0));
+      }
+    }
 
-      // Create room outline
-      for (let y = startY; y < startY + roomHeight; y++) {
-        for (let x = startX; x < startX + roomWidth; x++) {
-          if (
-            x === startX ||
-            x === startX + roomWidth - 1 ||
-            y === startY ||
-            y === startY + roomHeight - 1
-          ) {
-            map[y][x] = wallType;
-          } else {
-            map[y][x] = 0; // Clear interior
-          }
+    const suitSpots: Array<{ x: number; y: number }> = [];
+    for (let y = 1; y < size - 1; y++) {
+      for (let x = 1; x < size - 1; x++) {
+        if (
+          map[y][x] === 0 &&
+          before[y][x] &&
+          hazardMap[y][x] === 0 &&
+          !reserved.some((spot) => spot.x === x && spot.y === y) &&
+          neighbours.some(({ dx, dy }) => hazardMap[y + dy][x + dx] !== 0)
+        ) {
+          suitSpots.push({ x, y });
         }
       }
     }
-
-    // Generate doors for each room with guaranteed connectivity
-    rooms.forEach((room) => {
-      this.generateRoomDoors(map, room, size);
-    });
+    if (suitSpots.length === 0) return null;
+    return suitSpots[Math.floor(this.rng.next() * suitSpots.length)];
   }
 
-  private generateRandomEnemies(worldMap: number[][], size: number): Enemy[] {
-    const enemies: Enemy[] = [];
-    const enemyCount = 8 + Math.floor(Math.random() * 9); // 8-16 enemies
-    const enemyTypes: ("grunt" | "soldier" | "captain")[] = [
-      "grunt",
-      "soldier",
-      "captain",
-    ];
+  /**
+   * Seal off a vault behind a locked door for each keycard and pick a spot
+   * for every key. Each key is placed where the keys before it can reach,
+   * so the locks always open in order.
+   */
+  private generateLockedAreas(
+    map: number[][],
+    size: number,
+    keycards: KeycardId[]
+  ): Array<{ keycard: KeycardId; x: number; y: number }> {
+    const start = Math.floor(size / 2);
+    const keySpots: Array<{ keycard: KeycardId; x: number; y: number }> = [];
+    const held: KeycardId[] = [];
+    // Open floor and sliding doors, plus the locks of the keys already held
+    const passableWith =
+      (keys: KeycardId[]) =>
+      (cell: number): boolean => {
+        const lock = getKeycardForDoor(cell);
+        return (
+          cell === 0 ||
+          cell === DOOR_CELL ||
+          (lock !== null && keys.includes(lock))
+        );
+      };
 
-    let attempts = 0;
-    while (enemies.length < enemyCount && attempts < 200) {
-      // Increased attempts for better placement
-      const x = 2 + Math.random() * (size - 4);
-      const y = 2 + Math.random() * (size - 4);
+    for (const keycard of keycards) {
+      const passable = passableWith(held);
+      const before = this.floodFill(map, start, start, size, passable);
 
-      // Check if position is valid (not in walls, not too close to player spawn, reachable)
-      if (worldMap[Math.floor(y)][Math.floor(x)] === 0) {
-        const distanceFromPlayer = Math.sqrt(
-          (x - size / 2) ** 2 + (y - size / 2) ** 2
+      for (let attempt = 0; attempt < 40; attempt++) {
+        const vault = this.sealVault(
+          map,
+          size,
+          before,
+          passable,
+          getKeycard(keycard).doorCell,
+          keySpots
         );
-        if (distanceFromPlayer > 5) {
-          // Verify the position is reachable from player spawn
-          const reachable = this.floodFill(
-            worldMap,
-            Math.floor(size / 2),
-            Math.floor(size / 2),
-            size
-          );
-          if (reachable[Math.floor(y)][Math.floor(x)]) {
-            const enemyType =
-              enemyTypes[Math.floor(Math.random() * enemyTypes.length)];
-            let maxHealth;
-
-            switch (enemyType) {
-              case "grunt":
-                maxHealth = 20 + Math.floor(Math.random() * 16); // 20-35 HP
-                break;
-              case "soldier":
-                maxHealth = 30 + Math.floor(Math.random() * 21); // 30-50 HP
-                break;
-              case "captain":
-                maxHealth = 45 + Math.floor(Math.random() * 26); // 45-70 HP
-                break;
+        if (!vault) continue;
+
+        // The key goes anywhere the earlier keys reach, away from the start
+        const candidates: Array<{ x: number; y: number }> = [];
+        vault.outside.forEach((row, y) =>
+          row.forEach((reached, x) => {
+            if (
+              reached &&
+              map[y][x] === 0 &&
+              Math.abs(x - start) + Math.abs(y - start) > 6
+            ) {
+              candidates.push({ x, y });
             }
+          })
+        );
+        if (candidates.length === 0) {
+          vault.restore();
+          continue;
+        }
 
-            enemies.push({
-              id: this.state?.nextEnemyId || enemies.length + 1,
-              x,
-              y,
-              health: maxHealth,
-              maxHealth,
-              state: "idle",
-              lastPlayerX: 0,
-              lastPlayerY: 0,
-              attackCooldown: 0,
-              patrolTarget: null,
-              enemyType,
-              explorationCooldown: Math.floor(Math.random() * 300) + 60,
-              explorationDirection: null,
-              isBoss: false,
+        const spot =
+          candidates[Math.floor(this.rng.next() * candidates.length)];
+        keySpots.push({ keycard, ...spot });
+        held.push(keycard);
+        break;
+      }
+    }
+
+    return keySpots;
+  }
+
+  /**
+   * Maybe seal a room behind a door that only opens from a switch set into
+   * a wall somewhere else on the floor, out of sight of the door
+   */
+  private generateSwitchRoom(
+    map: number[][],
+    size: number,
+    passable: (cell: number) => boolean,
+    reserved: Array<{ x: number; y: number }>
+  ): {
+    door: Door;
+    switch: Switch;
+    loot: Array<{ x: number; y: number }>;
+  } | null {
+    if (this.rng.next() >= SWITCH_ROOM_CHANCE) return null;
+
+    const start = Math.floor(size / 2);
+    const before = this.floodFill(map, start, start, size, passable);
+
+    for (let attempt = 0; attempt < 40; attempt++) {
+      const vault = this.sealVault(
+        map,
+        size,
+        before,
+        passable,
+        DOOR_CELL,
+        reserved
+      );
+      if (!vault) continue;
+
+      const { entrance } = vault;
+      const axis = getDoorwayAxis(map, entrance.x, entrance.y);
+      const walls =
+        axis === null
+          ? []
+          : this.findSwitchWalls(map, size, vault.outside).filter(
+              ({ x, y }) =>
+                Math.abs(x - entrance.x) + Math.abs(y - entrance.y) > 8
+            );
+      if (walls.length === 0) {
+        vault.restore();
+        continue;
+      }
+
+      const spot = walls[Math.floor(this.rng.next() * walls.length)];
+      map[spot.y][spot.x] = SWITCHES.door.cell;
+      return {
+        door: createDoor(entrance.x, entrance.y, axis!, "switch"),
+        switch: { ...spot, door: { x: entrance.x, y: entrance.y } },
+        loot: this.pickLootSpots(vault.inside, 2),
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Seal the exit switch in a room behind a sliding door far from the
+   * player start, out in the last stretch of the floor's distance map.
+   * Falls back to setting the switch into the farthest reachable wall when
+   * no room fits out there. Returns the room's door, if it got one.
+   */
+  private generateExitRoom(
+    map: number[][],
+    size: number,
+    passable: (cell: number) => boolean,
+    reserved: Array<{ x: number; y: number }>
+  ): Door | null {
+    const start = Math.floor(size / 2);
+    const distances = this.distanceMap(map, start, start, size, passable);
+    const reachable = distances.map((row) => row.map((steps) => steps >= 0));
+    const farthest = Math.max(...distances.map((row) => Math.max(...row)));
+    const farEnough = Math.floor(farthest * 0.6);
+
+    for (let attempt = 0; attempt < 80; attempt++) {
+      const vault = this.sealVault(
+        map,
+        size,
+        reachable,
+        passable,
+        DOOR_CELL,
+        reserved
+      );
+      if (!vault) continue;
+
+      const { entrance, inside } = vault;
+      const axis = getDoorwayAxis(map, entrance.x, entrance.y);
+      const inRoom = distances.map((row) => row.map(() => false));
+      inside.forEach(({ x, y }) => (inRoom[y][x] = true));
+      // The switch goes on the wall farthest from the door
+      const walls = this.findSwitchWalls(map, size, inRoom).sort(
+        (a, b) =>
+          Math.abs(b.x - entrance.x) +
+          Math.abs(b.y - entrance.y) -
+          (Math.abs(a.x - entrance.x) + Math.abs(a.y - entrance.y))
+      );
+      if (
+        axis === null ||
+        walls.length === 0 ||
+        distances[entrance.y + entrance.dy][entrance.x + entrance.dx] <
+          farEnough
+      ) {
+        vault.restore();
+        continue;
+      }
+
+      map[walls[0].y][walls[0].x] = SWITCHES.exit.cell;
+      return createDoor(entrance.x, entrance.y, axis);
+    }
+
+    const walls = this.findSwitchWalls(map, size, reachable);
+    const steps = (wall: { x: number; y: number }) =>
+      Math.max(
+        ...[
+          [0, -1],
+          [1, 0],
+          [0, 1],
+          [-1, 0],
+        ].map(([dx, dy]) => distances[wall.y + dy][wall.x + dx])
+      );
+    const wall = walls.reduce<{ x: number; y: number } | null>(
+      (best, candidate) =>
+        !best || steps(candidate) > steps(best) ? candidate : best,
+      null
+    );
+    if (wall) {
+      map[wall.y][wall.x] = SWITCHES.exit.cell;
+    }
+    return null;
+  }
+
+  /**
+   * Maybe hide a loot room behind a push-wall that looks like the walls
+   * around it
+   */
+  private generateSecret(
+    map: number[][],
+    size: number,
+    passable: (cell: number) => boolean,
+    reserved: Array<{ x: number; y: number }>
+  ): { pushWall: PushWall; loot: Array<{ x: number; y: number }> } | null {
+    if (this.rng.next() >= SECRET_CHANCE) return null;
+
+    const start = Math.floor(size / 2);
+    const before = this.floodFill(map, start, start, size, passable);
+
+    for (let attempt = 0; attempt < 40; attempt++) {
+      const vault = this.sealVault(map, size, before, passable, 1, reserved);
+      if (!vault) continue;
+
+      // Slides into the vault, so nothing may lie in its way
+      const { entrance } = vault;
+      const inPath = (x: number, y: number) =>
+        Array.from({ length: PUSH_WALL_DISTANCE }).some(
+          (_, step) =>
+            x === entrance.x - entrance.dx * (step + 1) &&
+            y === entrance.y - entrance.dy * (step + 1)
+        );
+      const loot = this.pickLootSpots(
+        vault.inside.filter(({ x, y }) => !inPath(x, y)),
+        2
+      );
+      if (loot.length === 0) {
+        vault.restore();
+        continue;
+      }
+
+      return {
+        pushWall: createPushWall(
+          entrance.x,
+          entrance.y,
+          -entrance.dx,
+          -entrance.dy,
+          1
+        ),
+        loot,
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Wall in a vault somewhere on the map with an entrance cell in the
+   * middle of one side, facing floor reached in `before`. The vault must
+   * hold some floor only reachable through the entrance and may not cut
+   * off anything else. Returns null, leaving the map as it was, when the
+   * spot rolled doesn't work out.
+   */
+  private sealVault(
+    map: number[][],
+    size: number,
+    before: boolean[][],
+    passable: (cell: number) => boolean,
+    entranceCell: number,
+    reserved: Array<{ x: number; y: number }>
+  ): Vault | null {
+    const start = Math.floor(size / 2);
+    const countCells = (cells: boolean[][]) =>
+      cells.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+
+    const width = 5 + Math.floor(this.rng.next() * 4); // 5-8 including walls
+    const height = 5 + Math.floor(this.rng.next() * 4);
+    const x0 = 2 + Math.floor(this.rng.next() * (size - width - 4));
+    const y0 = 2 + Math.floor(this.rng.next() * (size - height - 4));
+
+    // Keep clear of the player start, of other vaults, doors and switches,
+    // and of spots already picked for items
+    if (
+      start >= x0 - 3 &&
+      start <= x0 + width + 2 &&
+      start >= y0 - 3 &&
+      start <= y0 + height + 2
+    ) {
+      return null;
+    }
+    const region = map
+      .slice(y0 - 1, y0 + height + 1)
+      .map((row) => row.slice(x0 - 1, x0 + width + 1));
+    if (
+      region.some((row) =>
+        row.some(
+          (cell) =>
+            cell === DOOR_CELL ||
+            getKeycardForDoor(cell) !== null ||
+            getSwitchAt(cell) !== null
+        )
+      ) ||
+      reserved.some(
+        ({ x, y }) =>
+          x >= x0 - 1 && x <= x0 + width && y >= y0 - 1 && y <= y0 + height
+      )
+    ) {
+      return null;
+    }
+    const restore = () =>
+      region.forEach((row, dy) =>
+        row.forEach((cell, dx) => (map[y0 - 1 + dy][x0 - 1 + dx] = cell))
+      );
+
+    // Entrance in the middle of a random side, opening onto reachable floor
+    const midX = x0 + Math.floor(width / 2);
+    const midY = y0 + Math.floor(height / 2);
+    const sides = [
+      { x: midX, y: y0, dx: 0, dy: -1 }, // Top
+      { x: x0 + width - 1, y: midY, dx: 1, dy: 0 }, // Right
+      { x: midX, y: y0 + height - 1, dx: 0, dy: 1 }, // Bottom
+      { x: x0, y: midY, dx: -1, dy: 0 }, // Left
+    ];
+    const entrance = sides[Math.floor(this.rng.next() * sides.length)];
+    if (!before[entrance.y + entrance.dy][entrance.x + entrance.dx]) {
+      return null;
+    }
+
+    // Wall in the vault with the entrance set into it
+    for (let y = y0; y < y0 + height; y++) {
+      for (let x = x0; x < x0 + width; x++) {
+        if (
+          x === x0 ||
+          x === x0 + width - 1 ||
+          y === y0 ||
+          y === y0 + height - 1
+        ) {
+          map[y][x] = 1;
+        }
+      }
+    }
+    map[entrance.y][entrance.x] = entranceCell;
+    map[entrance.y - entrance.dy][entrance.x - entrance.dx] = 0;
+
+    // Nothing outside may get cut off, and the vault must hold some floor
+    const isEntrance = (x: number, y: number) =>
+      x === entrance.x && y === entrance.y;
+    const through = this.floodFill(
+      map,
+      start,
+      start,
+      size,
+      (cell, x, y) => isEntrance(x, y) || passable(cell)
+    );
+    const outside = this.floodFill(
+      map,
+      start,
+      start,
+      size,
+      (cell, x, y) => !isEntrance(x, y) && passable(cell)
+    );
+    const cutOff = before.some((row, y) =>
+      row.some((reached, x) => reached && map[y][x] === 0 && !through[y][x])
+    );
+    if (cutOff || countCells(through) - countCells(outside) < 8) {
+      restore();
+      return null;
+    }
+
+    const vaultFloor: Array<{ x: number; y: number }> = [];
+    through.forEach((row, y) =>
+      row.forEach((reached, x) => {
+        if (reached && !outside[y][x] && map[y][x] === 0) {
+          vaultFloor.push({ x, y });
+        }
+      })
+    );
+
+    return { entrance, outside, inside: vaultFloor, restore };
+  }
+
+  /**
+   * Plain wall cells a switch can be set into: inside the map border and
+   * facing reached open floor
+   */
+  private findSwitchWalls(
+    map: number[][],
+    size: number,
+    reached: boolean[][]
+  ): Array<{ x: number; y: number }> {
+    const walls: Array<{ x: number; y: number }> = [];
+    const faces = (x: number, y: number) => reached[y][x] && map[y][x] === 0;
+    for (let y = 1; y < size - 1; y++) {
+      for (let x = 1; x < size - 1; x++) {
+        const cell = map[y][x];
+        if (
+          cell > 0 &&
+          cell !== DOOR_CELL &&
+          getKeycardForDoor(cell) === null &&
+          getSwitchAt(cell) === null &&
+          (faces(x, y - 1) ||
+            faces(x, y + 1) ||
+            faces(x - 1, y) ||
+            faces(x + 1, y))
+        ) {
+          walls.push({ x, y });
+        }
+      }
+    }
+    return walls;
+  }
+
+  /**
+   * Up to `count` distinct random cells out of `cells`
+   */
+  private pickLootSpots(
+    cells: Array<{ x: number; y: number }>,
+    count: number
+  ): Array<{ x: number; y: number }> {
+    const remaining = [...cells];
+    const spots: Array<{ x: number; y: number }> = [];
+    while (spots.length < count && remaining.length > 0) {
+      const index = Math.floor(this.rng.next() * remaining.length);
+      spots.push(...remaining.splice(index, 1));
+    }
+    return spots;
+  }
+
+  /**
+   * Get floor theme based on floor number
+   */
+  private getFloorTheme(floor: number): string {
+    const themes = [
+      "tech_base", // Floors 1-5: Tech base (grey/blue walls)
+      "hell_fortress", // Floors 6-10: Hell fortress (red/orange walls)
+      "ancient_ruins", // Floors 11-15: Ancient ruins (brown/gold walls)
+      "cyber_facility", // Floors 16-20: Cyber facility (green/teal walls)
+      "void_realm", // Floors 21+: Void realm (purple/black walls)
+    ];
+
+    const themeIndex = Math.floor((floor - 1) / 5) % themes.length;
+    return themes[themeIndex];
+  }
+
+  /**
+   * Generate world map with themed wall colors
+   */
+  private generateWorldMapWithTheme(size: number, theme: string): number[][] {
+    const map: number[][] = Array(size)
+      .fill(null)
+      .map(() => Array(size).fill(0));
+
+    // Get wall types for this theme
+    const wallTypes = this.getThemeWallTypes(theme);
+    this.roomDoorways = [];
+    this.hazardZones = [];
+    this.hazardAreas = [];
+
+    // Fill borders with walls
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (x === 0 || x === size - 1 || y === 0 || y === size - 1) {
+          map[y][x] = wallTypes.border;
+        }
+      }
+    }
+
+    // Use enhanced generation system for better density and variety
+    this.generateRooms(map, size); // This now uses the enhanced system with themed zones
+    this.generateMaze(map, size); // This now uses dense corridors
+    this.generatePillars(map, size); // This now creates themed clusters
+    this.generateSpecialRooms(map, size); // This now has more varied patterns
+
+    // Ensure map connectivity
+    this.ensureMapConnectivity(map, size);
+
+    return map;
+  }
+
+  /**
+   * Generate the survival arena: one open hall with scattered cover, kept
+   * clear around the player start and along the walls where waves come in
+   */
+  private generateArenaMap(size: number, theme: string): number[][] {
+    const map: number[][] = Array(size)
+      .fill(null)
+      .map(() => Array(size).fill(0));
+    const wallTypes = this.getThemeWallTypes(theme);
+    const coverTypes = [
+      wallTypes.primary,
+      wallTypes.secondary,
+      wallTypes.accent,
+    ];
+
+    // Fill borders with walls
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (x === 0 || x === size - 1 || y === 0 || y === size - 1) {
+          map[y][x] = wallTypes.border;
+        }
+      }
+    }
+
+    const center = size / 2;
+    const coverCount = 14 + Math.floor(this.rng.next() * 8); // 14-21 blocks
+    for (let i = 0; i < coverCount; i++) {
+      const width = 1 + Math.floor(this.rng.next() * 3); // 1-3
+      const height = 1 + Math.floor(this.rng.next() * 3); // 1-3
+      const startX = 4 + Math.floor(this.rng.next() * (size - 8 - width));
+      const startY = 4 + Math.floor(this.rng.next() * (size - 8 - height));
+      const wallType =
+        coverTypes[Math.floor(this.rng.next() * coverTypes.length)];
+
+      // Leave room to move around the player start
+      if (
+        Math.abs(startX + width / 2 - center) < 5 &&
+        Math.abs(startY + height / 2 - center) < 5
+      ) {
+        continue;
+      }
+
+      for (let y = startY; y < startY + height; y++) {
+        for (let x = startX; x < startX + width; x++) {
+          map[y][x] = wallType;
+        }
+      }
+    }
+
+    // Ensure map connectivity
+    this.ensureMapConnectivity(map, size);
+
+    return map;
+  }
+
+  /**
+   * Get wall type mapping for each theme
+   */
+  private getThemeWallTypes(theme: string): {
+    border: number;
+    primary: number;
+    secondary: number;
+    accent: number;
+    hazard: HazardId; // Floor of the theme's hazard zones
+  } {
+    switch (theme) {
+      case "tech_base":
+        // Dark slate, bright blue, light blue, pale blue
+        return {
+          border: 1,
+          primary: 2,
+          secondary: 3,
+          accent: 4,
+          hazard: "nukage",
+        };
+      case "hell_fortress":
+        // Dark slate, red, light red, purple
+        return {
+          border: 1,
+          primary: 18,
+          secondary: 19,
+          accent: 20,
+          hazard: "lava",
+        };
+      case "ancient_ruins":
+        // Dark slate, orange, yellow, light orange
+        return {
+          border: 1,
+          primary: 14,
+          secondary: 15,
+          accent: 16,
+          hazard: "nukage",
+        };
+      case "cyber_facility":
+        // Dark slate, emerald, light green, teal
+        return {
+          border: 1,
+          primary: 10,
+          secondary: 11,
+          accent: 13,
+          hazard: "nukage",
+        };
+      case "void_realm":
+        // Dark slate, lavender, blue gray, turquoise
+        return {
+          border: 1,
+          primary: 22,
+          secondary: 23,
+          accent: 24,
+          hazard: "void_rift",
+        };
+      case "industrial_complex":
+        // Dark slate, light steel, bright steel, chrome
+        return {
+          border: 1,
+          primary: 6,
+          secondary: 7,
+          accent: 8,
+          hazard: "nukage",
+        };
+      default:
+        return {
+          border: 1,
+          primary: 2,
+          secondary: 3,
+          accent: 4,
+          hazard: "nukage",
+        };
+    }
+  }
+
+  /**
+   * Generate rooms with themed wall types
+   */
+  private generateThemedRooms(
+    map: number[][],
+    size: number,
+    wallTypes: {
+      border: number;
+      primary: number;
+      secondary: number;
+      accent: number;
+    }
+  ): void {
+    const roomCount = 10 + Math.floor(this.rng.next() * 8); // 10-17 rooms for bigger maps
+    const rooms: Array<{
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      wallType: number;
+    }> = [];
+
+    for (let i = 0; i < roomCount; i++) {
+      const roomWidth = 5 + Math.floor(this.rng.next() * 10); // 5-14 width
+      const roomHeight = 5 + Math.floor(this.rng.next() * 10); // 5-14 height
+      const startX = 2 + Math.floor(this.rng.next() * (size - roomWidth - 4));
+      const startY = 2 + Math.floor(this.rng.next() * (size - roomHeight - 4));
+
+      // Choose wall type based on room importance
+      let wallType;
+      if (i === 0) wallType = wallTypes.accent; // First room is special
+      else if (i < 3) wallType = wallTypes.primary; // Important rooms
+      else if (this.rng.next() < 0.3)
+        wallType = wallTypes.secondary; // Some variety
+      else wallType = wallTypes.primary; // Most rooms
+
+      // Store room info for door generation
+      const roomInfo = {
+        x: startX,
+        y: startY,
+        width: roomWidth,
+        height: roomHeight,
+        wallType,
+      };
+      rooms.push(roomInfo);
+
+      // Create room outline
+      for (let y = startY; y < startY + roomHeight; y++) {
+        for (let x = startX; x < startX + roomWidth; x++) {
+          if (
+            x === startX ||
+            x === startX + roomWidth - 1 ||
+            y === startY ||
+            y === startY + roomHeight - 1
+          ) {
+            map[y][x] = wallType;
+          } else {
+            map[y][x] = 0; // Clear interior
+          }
+        }
+      }
+    }
+
+    // Generate doors for each room with guaranteed connectivity
+    rooms.forEach((room) => {
+      this.generateRoomDoors(map, room, size);
+    });
+  }
+
+  private generateRandomEnemies(worldMap: number[][], size: number): Enemy[] {
+    const enemies: Enemy[] = [];
+    const skill = getSkill(this.state?.skill ?? DEFAULT_SKILL);
+    const doors = this.state?.doors ?? [];
+    const enemyCount = Math.round(
+      (8 + Math.floor(this.rng.next() * 9)) * skill.enemyCount
+    ); // 8-16 enemies on medium
+    const enemyTypes = FLOOR_ENEMY_TYPES;
+
+    let attempts = 0;
+    while (enemies.length < enemyCount && attempts < 200) {
+      // Increased attempts for better placement
+      const x = 2 + this.rng.next() * (size - 4);
+      const y = 2 + this.rng.next() * (size - 4);
+
+      // Check if position is valid (not in walls, not too close to player spawn, reachable)
+      if (worldMap[Math.floor(y)][Math.floor(x)] === 0) {
+        const distanceFromPlayer = Math.sqrt(
+          (x - size / 2) ** 2 + (y - size / 2) ** 2
+        );
+        if (distanceFromPlayer > 5) {
+          // Verify the position is reachable from player spawn
+          const reachable = this.floodFill(
+            worldMap,
+            Math.floor(size / 2),
+            Math.floor(size / 2),
+            size,
+            // Nothing starts shut in behind a switch door
+            (cell, cx, cy) =>
+              cell === 0 ||
+              (cell === DOOR_CELL &&
+                getDoorAt(doors, cx, cy)?.trigger !== "switch")
+          );
+          if (reachable[Math.floor(y)][Math.floor(x)]) {
+            const enemyType =
+              enemyTypes[Math.floor(this.rng.next() * enemyTypes.length)];
+            const { health } = getEnemyArchetype(enemyType);
+            const maxHealth =
+              health.min +
+              Math.floor(this.rng.next() * (health.max - health.min + 1));
+
+            enemies.push({
+              id: this.state?.nextEnemyId || enemies.length + 1,
+              x,
+              y,
+              health: maxHealth,
+              maxHealth,
+              state: "idle",
+              lastPlayerX: 0,
+              lastPlayerY: 0,
+              attackCooldown: 0,
+              patrolTarget: null,
+              enemyType,
+              explorationCooldown: Math.floor(this.rng.next() * 300) + 60,
+              explorationDirection: null,
+              isBoss: false,
               spawnCooldown: 0,
               spawnsRemaining: 0,
               phaseTransitions: [],
@@ -1185,17 +2324,13 @@ export class GameStateManager {
     size: number,
     floorNumber: number
   ): Enemy | null {
-    const bossTypes: (
-      | "boss_demon"
-      | "boss_cyberdemon"
-      | "boss_spider_mastermind"
-    )[] = ["boss_demon", "boss_cyberdemon", "boss_spider_mastermind"];
+    const bossTypes = BOSS_TYPES;
 
     // Find a suitable spawn location for the boss
     let attempts = 0;
     while (attempts < 100) {
-      const x = 5 + Math.random() * (size - 10);
-      const y = 5 + Math.random() * (size - 10);
+      const x = 5 + this.rng.next() * (size - 10);
+      const y = 5 + this.rng.next() * (size - 10);
 
       if (worldMap[Math.floor(y)][Math.floor(x)] === 0) {
         const distanceFromPlayer = Math.sqrt(
@@ -1205,42 +2340,14 @@ export class GameStateManager {
           // Bosses spawn farther from player
           const bossType =
             bossTypes[Math.floor(floorNumber / 5) % bossTypes.length];
-          let maxHealth: number;
-          let spawnsRemaining: number;
-          let phaseTransitions: number[];
-
-          switch (bossType) {
-            case "boss_demon":
-              maxHealth = 150 + floorNumber * 20; // Scales with floor
-              spawnsRemaining = 3 + Math.floor(floorNumber / 5);
-              phaseTransitions = [
-                maxHealth * 0.75,
-                maxHealth * 0.5,
-                maxHealth * 0.25,
-              ];
-              break;
-            case "boss_cyberdemon":
-              maxHealth = 200 + floorNumber * 25;
-              spawnsRemaining = 4 + Math.floor(floorNumber / 5);
-              phaseTransitions = [
-                maxHealth * 0.8,
-                maxHealth * 0.6,
-                maxHealth * 0.4,
-                maxHealth * 0.2,
-              ];
-              break;
-            case "boss_spider_mastermind":
-              maxHealth = 250 + floorNumber * 30;
-              spawnsRemaining = 5 + Math.floor(floorNumber / 5);
-              phaseTransitions = [
-                maxHealth * 0.85,
-                maxHealth * 0.7,
-                maxHealth * 0.55,
-                maxHealth * 0.4,
-                maxHealth * 0.25,
-              ];
-              break;
-          }
+          const archetype = getEnemyArchetype(bossType);
+          const boss = archetype.boss!;
+          const maxHealth =
+            archetype.health.min + floorNumber * boss.healthPerFloor; // Scales with floor
+          const spawnsRemaining = boss.baseSpawns + Math.floor(floorNumber / 5);
+          const phaseTransitions = boss.phaseThresholds.map(
+            (fraction) => maxHealth * fraction
+          );
 
           return {
             id: this.state?.nextEnemyId || 1000 + floorNumber,
@@ -1273,114 +2380,236 @@ export class GameStateManager {
   }
 
   /**
-   * Progress to next floor when current floor is cleared
+   * Progress to next floor when current floor is cleared, taking the perk
+   * picked on the victory screen if it was one of those offered
    */
-  public progressToNextFloor(): void {
-    if (
-      this.state.enemies.length === 0 ||
-      (this.state.isBossFloor && this.state.bossDefeated)
-    ) {
-      const nextFloor = this.state.currentFloor + 1;
-      const isBossFloor = nextFloor % 5 === 0;
-      const floorTheme = this.getFloorTheme(nextFloor);
-      const worldSize = Math.min(64 + Math.floor(nextFloor / 5) * 8, 96); // Gradually increase size
-      const worldMap = this.generateWorldMapWithTheme(worldSize, floorTheme);
-
-      // Reset player position to center of new map
-      this.state.player.x = worldSize / 2;
-      this.state.player.y = worldSize / 2;
-      this.state.player.angle = 0;
-
-      // Heal player partially between floors
-      this.state.player.health = Math.min(
-        this.state.player.maxHealth,
-        this.state.player.health + 25
-      );
+  public progressToNextFloor(perk: PerkId | null = null): void {
+    // The arena is the only map in survival
+    if (this.state.mode === "survival") return;
 
-      // Give some ammo to all weapons
-      this.state.player.ammo.pistol = Math.min(
-        this.state.player.maxAmmo.pistol,
-        this.state.player.ammo.pistol + 20
-      );
-      this.state.player.ammo.shotgun = Math.min(
-        this.state.player.maxAmmo.shotgun,
-        this.state.player.ammo.shotgun + 10
-      );
-      this.state.player.ammo.chaingun = Math.min(
-        this.state.player.maxAmmo.chaingun,
-        this.state.player.ammo.chaingun + 30
-      );
+    if (this.state.gameStatus === "victory") {
+      if (perk && this.state.perkChoices.includes(perk)) {
+        this.applyPerk(perk);
+      }
+      this.loadFloor(this.state.currentFloor + 1);
+    }
+  }
 
-      // Update floor properties
-      this.state.currentFloor = nextFloor;
-      this.state.floorTheme = floorTheme;
-      this.state.isBossFloor = isBossFloor;
-      this.state.bossDefeated = false;
-      this.state.worldMap = worldMap;
-      this.state.worldSize = worldSize;
-
-      // Generate new enemies
-      if (isBossFloor) {
-        // Boss floor: fewer regular enemies + 1 boss
-        const regularEnemies = this.generateRandomEnemies(worldMap, worldSize);
-        const bossEnemy = this.generateBossEnemy(
-          worldMap,
-          worldSize,
-          nextFloor
+  /**
+   * Roll the perks offered for clearing the floor, without repeats
+   */
+  private rollPerkChoices(): PerkId[] {
+    const pool = getOfferablePerks(
+      this.state.player.perks,
+      this.state.player.availableWeapons
+    );
+    const choices: PerkId[] = [];
+    while (choices.length < PERK_CHOICES && pool.length > 0) {
+      const index = Math.floor(this.rng.next() * pool.length);
+      choices.push(...pool.splice(index, 1));
+    }
+    return choices;
+  }
+
+  private applyPerk(perk: PerkId): void {
+    const { player } = this.state;
+    const { effect } = getPerk(perk);
+    const stacks = (player.perks[perk] ?? 0) + 1;
+    player.perks[perk] = stacks;
+
+    // Capacity perks take effect once, when picked
+    if (effect.maxHealth) {
+      player.maxHealth += effect.maxHealth;
+      player.health += effect.maxHealth;
+    }
+    if (effect.ammoCapacity) {
+      for (const type of Object.keys(AMMO_TYPES) as AmmoType[]) {
+        player.maxAmmo[type] += Math.round(
+          AMMO_TYPES[type].max * effect.ammoCapacity
         );
+      }
+    }
 
-        this.state.enemies = regularEnemies.slice(
-          0,
-          3 + Math.floor(nextFloor / 10)
-        ); // Fewer regular enemies
-        if (bossEnemy) {
-          this.state.enemies.push(bossEnemy);
-        }
+    this.events.emit("PerkChosen", { perk, stacks });
+  }
+
+  /**
+   * Generate and enter a floor, carrying the player over with a heal and
+   * ammo top-up sized by the skill level
+   */
+  private loadFloor(floor: number): void {
+    const skill = getSkill(this.state.skill);
+    // Pending transitions and drops belonged to the floor being left
+    this.cancelTimers((action) => action.type !== "cue");
+
+    const floorSeed = this.seedFloor(this.state.runSeed, floor);
+    const isBossFloor = floor % 5 === 0;
+    const floorTheme = this.getFloorTheme(floor);
+    const worldSize = Math.min(64 + Math.floor(floor / 5) * 8, 96); // Gradually increase size
+    const worldMap = this.generateWorldMapWithTheme(worldSize, floorTheme);
+    const layout = this.generateFloorLayout(
+      worldMap,
+      worldSize,
+      floor,
+      isBossFloor,
+      floorTheme
+    );
+
+    // Reset player position to center of new map
+    this.state.player.x = worldSize / 2;
+    this.state.player.y = worldSize / 2;
+    this.state.player.angle = 0;
+
+    // Heal player partially between floors
+    this.state.player.health = Math.min(
+      this.state.player.maxHealth,
+      this.state.player.health + skill.floorHeal
+    );
+
+    // Give some ammo of every type
+    for (const type of Object.keys(AMMO_TYPES) as AmmoType[]) {
+      this.state.player.ammo[type] = Math.min(
+        this.state.player.maxAmmo[type],
+        this.state.player.ammo[type] +
+          Math.round(AMMO_TYPES[type].floorBonus * skill.floorAmmo)
+      );
+    }
+
+    // Update floor properties
+    this.state.currentFloor = floor;
+    this.state.floorSeed = floorSeed;
+    this.state.floorTheme = floorTheme;
+    this.state.isBossFloor = isBossFloor;
+    this.state.bossDefeated = false;
+    this.state.worldMap = worldMap;
+    this.state.hazardMap = layout.hazardMap;
+    this.state.doors = layout.doors;
+    this.state.crushers = layout.crushers;
+    this.state.switches = layout.switches;
+    this.state.pushWalls = layout.pushWalls;
+    this.state.objective = layout.objective;
+    this.state.worldSize = worldSize;
+
+    this.state.perkChoices = [];
+    this.state.player.keycards = [];
+
+    // Start counting the new floor
+    const openTiles = this.countOpenTiles(worldMap);
+    const secrets = layout.pushWalls.length;
+    this.state.floorStats = createPlayStats(openTiles, secrets);
+    this.state.runStats.openTiles += openTiles;
+    this.state.runStats.secrets += secrets;
+    this.state.discovered = this.createDiscoveryBits(worldSize);
+    this.lastDiscoveryTile = -1;
+
+    // Generate new enemies
+    if (isBossFloor) {
+      // Boss floor: fewer regular enemies + 1 boss
+      const regularEnemies = this.generateRandomEnemies(worldMap, worldSize);
+      const bossEnemy = this.generateBossEnemy(
+        worldMap,
+        worldSize,
+        floor
+      );
+
+      this.state.enemies = regularEnemies.slice(
+        0,
+        3 + Math.floor(floor / 10)
+      ); // Fewer regular enemies
+      if (bossEnemy) {
+        this.state.enemies.push(bossEnemy);
       } else {
-        // Regular floor: normal enemy generation
-        this.state.enemies = this.generateRandomEnemies(worldMap, worldSize);
+        // Nobody to hunt down, so clear the floor instead
+        this.state.objective = createObjective("kill_all", floor);
       }
+    } else {
+      // Regular floor: normal enemy generation
+      this.state.enemies = this.generateRandomEnemies(worldMap, worldSize);
+    }
 
-      // Clear pickups and generate new ones
-      this.state.pickups = [];
-      this.generateRandomPickups();
+    // Clear pickups and generate new ones
+    this.state.pickups = [];
+    for (const { keycard, x, y } of layout.keySpots) {
+      this.spawnPickup(x + 0.5, y + 0.5, "keycard", 0, undefined, keycard);
+    }
+    this.spawnLoot(layout.lootSpots);
+    this.generateRandomPickups();
 
-      // Reset game status to playing for the new level
-      this.state.gameStatus = "playing";
+    // Reset game status to playing for the new level
+    this.state.gameStatus = "playing";
 
-      this.notifyListeners();
+    this.snapInterpolation();
+    this.notifyListeners();
+  }
+
+  /**
+   * End the floor once its objective is met. The victory screen then waits
+   * for the player to pick a perk and move on.
+   */
+  public checkFloorProgression(): void {
+    if (this.state.mode === "survival") {
+      this.checkWaveCleared();
+      return;
+    }
+
+    const { objective, enemies } = this.state;
+    if (!objective || this.state.gameStatus !== "playing") return;
+
+    const aliveEnemies = enemies.filter((enemy) => enemy.health > 0);
+    if (
+      this.state.isBossFloor &&
+      !aliveEnemies.some((enemy) => enemy.isBoss)
+    ) {
+      this.state.bossDefeated = true;
     }
-  }
 
-  /**
-   * Check if floor should progress and handle it
-   */
-  public checkFloorProgression(): void {
-    const aliveBosses = this.state.enemies.filter(
-      (enemy) => enemy.isBoss && enemy.health > 0
-    );
-    const aliveEnemies = this.state.enemies.filter((enemy) => enemy.health > 0);
+    switch (objective.id) {
+      case "kill_all":
+        objective.complete = aliveEnemies.length === 0;
+        break;
+      case "kill_boss":
+        objective.complete = this.state.bossDefeated;
+        break;
+      case "survive":
+        objective.complete = objective.ticksLeft <= 0;
+        break;
+      case "exit":
+        break; // Set when the exit switch is thrown
+    }
 
-    if (this.state.isBossFloor) {
-      // Boss floor: all enemies dead AND boss defeated
-      if (aliveEnemies.length === 0 && aliveBosses.length === 0) {
-        this.state.bossDefeated = true;
-        setTimeout(() => this.progressToNextFloor(), 2000); // 2 second delay
-      }
-    } else {
-      // Regular floor: all enemies dead
-      if (aliveEnemies.length === 0) {
-        setTimeout(() => this.progressToNextFloor(), 1500); // 1.5 second delay
-      }
+    if (objective.complete) {
+      this.completeFloor();
     }
   }
 
-  private createInitialState(): GameState {
-    const worldSize = 64; // Even bigger for more exploration
+  private createInitialState(
+    runSeed: number,
+    skill: SkillId,
+    mode: GameMode
+  ): GameState {
+    const isSurvival = mode === "survival";
+    const worldSize = isSurvival ? SURVIVAL.arenaSize : 64; // Even bigger for more exploration
     const currentFloor = 1;
+    const floorSeed = this.seedFloor(runSeed, currentFloor);
     const isBossFloor = currentFloor % 5 === 0;
-    const floorTheme = this.getFloorTheme(currentFloor);
-    const worldMap = this.generateWorldMapWithTheme(worldSize, floorTheme);
+    const floorTheme = isSurvival
+      ? "industrial_complex"
+      : this.getFloorTheme(currentFloor);
+    const worldMap = isSurvival
+      ? this.generateArenaMap(worldSize, floorTheme)
+      : this.generateWorldMapWithTheme(worldSize, floorTheme);
+    const layout: FloorLayout | null = isSurvival
+      ? null
+      : this.generateFloorLayout(
+          worldMap,
+          worldSize,
+          currentFloor,
+          isBossFloor,
+          floorTheme
+        );
+    const openTiles = this.countOpenTiles(worldMap);
+    const secrets = layout?.pushWalls.length ?? 0;
+    this.pendingLoot = layout?.lootSpots ?? [];
 
     return {
       player: {
@@ -1388,19 +2617,16 @@ export class GameStateManager {
         y: worldSize / 2,
         angle: 0,
         health: 100,
-        ammo: {
-          pistol: 50,
-          shotgun: 0,
-          chaingun: 0,
-        },
+        ammo: createAmmoPools((type) => AMMO_TYPES[type].starting),
         maxHealth: 100,
-        maxAmmo: {
-          pistol: 200,
-          shotgun: 50,
-          chaingun: 200,
-        },
-        weapon: "pistol",
-        availableWeapons: new Set(["pistol"]), // Start with only pistol
+        armor: 0,
+        armorClass: null,
+        maxAmmo: createAmmoPools((type) => AMMO_TYPES[type].max),
+        weapon: STARTING_WEAPON,
+        availableWeapons: new Set([STARTING_WEAPON]), // Start with only pistol
+        perks: {},
+        powerUps: {},
+        keycards: [],
         isAttacking: false,
         attackTimer: 0,
         muzzleFlash: false,
@@ -1410,6 +2636,12 @@ export class GameStateManager {
       pickups: [],
       gameStatus: "playing",
       worldMap,
+      hazardMap: layout?.hazardMap ?? createHazardMap(worldSize),
+      doors: layout?.doors ?? [],
+      crushers: layout?.crushers ?? [],
+      switches: layout?.switches ?? [],
+      pushWalls: layout?.pushWalls ?? [],
+      objective: layout?.objective ?? null,
       lastUpdateTime: 0,
       accumulator: 0,
       isPaused: false,
@@ -1420,21 +2652,83 @@ export class GameStateManager {
       floorTheme,
       isBossFloor,
       bossDefeated: false,
+      runSeed,
+      skill,
+      mode,
+      survival: isSurvival
+        ? { wave: 0, waveActive: false, kills: 0, score: 0 }
+        : null,
+      floorStats: createPlayStats(openTiles, secrets),
+      runStats: createPlayStats(openTiles, secrets),
+      discovered: this.createDiscoveryBits(worldSize),
+      perkChoices: [],
+      floorSeed,
+      timers: [],
+      nextTimerId: 1,
+      cheats: { god: false, noclip: false, reveal: false },
+      cheated: false,
+      timeScale: 1,
     };
   }
 
+  private countOpenTiles(worldMap: number[][]): number {
+    return worldMap.reduce(
+      (count, row) => count + row.filter((cell) => cell === 0).length,
+      0
+    );
+  }
+
+  private createDiscoveryBits(size: number): number[] {
+    return new Array(Math.ceil((size * size) / 32)).fill(0);
+  }
+
   private initializeEnemiesAfterState(): void {
+    // The arena starts empty; the first wave arrives after a short warm-up
+    if (this.state.mode === "survival") {
+      this.scheduleTimer(SURVIVAL.firstWaveDelay, { type: "startWave" });
+      return;
+    }
+
     // Generate enemies after state is created
     this.state.enemies = this.generateRandomEnemies(
       this.state.worldMap,
       this.state.worldSize
     );
+    this.spawnLoot(this.pendingLoot);
+    this.pendingLoot = [];
   }
 
   public getState(): Readonly<GameState> {
     return { ...this.state };
   }
 
+  /**
+   * Current position of the simulation RNG, saved with snapshots so a loaded
+   * game keeps rolling the same numbers it would have
+   */
+  public getRngState(): number {
+    return this.rng.getState();
+  }
+
+  /**
+   * Replace the whole game state, e.g. when loading a save
+   */
+  public loadState(state: GameState, rngState: number): void {
+    this.state = state;
+    this.rng = new SeededRandom(rngState);
+    this.lastDiscoveryTile = -1;
+    this.takeBufferedInput(); // Drop one-shot input meant for the old game
+    this.snapInterpolation();
+    this.notifyListeners();
+  }
+
+  /**
+   * Typed gameplay events (pickups, damage, kills, floor cleared...)
+   */
+  public getEvents(): GameEventBus {
+    return this.events;
+  }
+
   public subscribe(listener: (state: GameState) => void): () => void {
     this.listeners.push(listener);
     return () => {
@@ -1475,54 +2769,471 @@ export class GameStateManager {
     }
   }
 
-  public switchWeapon(weapon: "pistol" | "shotgun" | "chaingun"): boolean {
+  public switchWeapon(weapon: WeaponId): boolean {
     // Only switch if weapon is available
     if (this.state.player.availableWeapons.has(weapon)) {
+      const previous = this.state.player.weapon;
       this.state.player.weapon = weapon;
+      if (previous !== weapon) {
+        this.events.emit("WeaponSwitched", { weapon, previous });
+      }
       this.notifyListeners();
       return true;
     }
     return false;
   }
 
-  public updateWithDeltaTime(currentTime: number): void {
+  /**
+   * Advance by wall-clock time. Returns how many fixed ticks were run, which
+   * is what demos record so playback doesn't depend on frame timing.
+   */
+  public updateWithDeltaTime(currentTime: number): number {
+    this.frameStats = { ticks: 0, losRays: 0 };
+
     // Don't update game state if paused
     if (this.state.isPaused) {
       this.state.lastUpdateTime = currentTime;
-      return;
+      return 0;
     }
 
     if (this.state.lastUpdateTime === 0) {
       this.state.lastUpdateTime = currentTime;
-      // Initialize enemies on first update
-      if (this.state.enemies.length === 0) {
-        this.initializeEnemiesAfterState();
-      }
-      return;
+      return 0;
     }
 
-    const deltaTime = currentTime - this.state.lastUpdateTime;
+    // After a stall (a hitch, a breakpoint, a throttled tab) drop the time
+    // over the cap rather than running seconds of ticks in one frame
+    const deltaTime = Math.min(
+      currentTime - this.state.lastUpdateTime,
+      this.MAX_FRAME_TIME
+    );
     this.state.lastUpdateTime = currentTime;
-    this.state.accumulator += deltaTime;
+    this.state.accumulator += deltaTime * this.state.timeScale;
 
     // Fixed timestep updates for deterministic physics
+    let ticks = 0;
     while (this.state.accumulator >= this.FIXED_TIMESTEP) {
-      this.fixedUpdate();
+      this.tick(this.takeBufferedInput());
       this.state.accumulator -= this.FIXED_TIMESTEP;
+      ticks++;
+    }
+
+    this.frameStats.ticks = ticks;
+    this.notifyListeners();
+    return ticks;
+  }
+
+  /**
+   * Run an exact number of fixed ticks, ignoring the accumulator.
+   * Used by demo playback to repeat a recorded frame.
+   */
+  public advanceFixedTicks(ticks: number, currentTime: number): void {
+    this.frameStats = { ticks: 0, losRays: 0 };
+    if (this.state.isPaused) return;
+
+    this.state.lastUpdateTime = currentTime;
+    for (let i = 0; i < ticks; i++) {
+      this.tick(this.takeBufferedInput());
     }
+    this.frameStats.ticks = ticks;
 
     this.notifyListeners();
   }
 
+  /**
+   * Buffer input for the coming fixed ticks. Called once per animation frame;
+   * one-shot actions carry over until a tick actually runs.
+   */
+  public queueInput(input: TickInput): void {
+    this.inputBuffer.movement = { ...input.movement };
+    this.inputBuffer.mouseDeltaX += input.mouseDeltaX;
+    this.inputBuffer.fire = this.inputBuffer.fire || input.fire;
+    this.inputBuffer.use = this.inputBuffer.use || input.use;
+    if (input.weaponSwitch) {
+      this.inputBuffer.weaponSwitch = input.weaponSwitch;
+    }
+  }
+
+  private takeBufferedInput(): TickInput {
+    const input: TickInput = {
+      ...this.inputBuffer,
+      movement: { ...this.inputBuffer.movement },
+    };
+    this.inputBuffer.mouseDeltaX = 0;
+    this.inputBuffer.fire = false;
+    this.inputBuffer.use = false;
+    this.inputBuffer.weaponSwitch = null;
+    return input;
+  }
+
+  public getFrameStats(): SimulationFrameStats {
+    return { ...this.frameStats };
+  }
+
+  /**
+   * Fraction of the next fixed tick that has already elapsed (0-1)
+   */
+  public getInterpolationAlpha(): number {
+    return Math.min(1, this.state.accumulator / this.FIXED_TIMESTEP);
+  }
+
+  /**
+   * Player and enemy positions between the previous and latest tick, so
+   * motion renders smoothly at any refresh rate
+   */
+  public getInterpolatedPositions(): InterpolatedPositions {
+    const alpha = this.getInterpolationAlpha();
+    const lerp = (from: number, to: number) => from + (to - from) * alpha;
+    const { player } = this.state;
+
+    const enemies = new Map<number, { x: number; y: number }>();
+    for (const enemy of this.state.enemies) {
+      const previous = this.previousEnemies.get(enemy.id) ?? enemy;
+      enemies.set(enemy.id, {
+        x: lerp(previous.x, enemy.x),
+        y: lerp(previous.y, enemy.y),
+      });
+    }
+
+    return {
+      player: {
+        x: lerp(this.previousPlayer.x, player.x),
+        y: lerp(this.previousPlayer.y, player.y),
+        angle: lerp(this.previousPlayer.angle, player.angle),
+      },
+      enemies,
+    };
+  }
+
+  /**
+   * Forget the previous tick's positions, e.g. after a floor change or load,
+   * so nothing is drawn sliding across the map
+   */
+  private snapInterpolation(): void {
+    const { player } = this.state;
+    this.previousPlayer = { x: player.x, y: player.y, angle: player.angle };
+    this.previousEnemies.clear();
+    for (const enemy of this.state.enemies) {
+      this.previousEnemies.set(enemy.id, { x: enemy.x, y: enemy.y });
+    }
+  }
+
+  /**
+   * Run an action after a number of fixed ticks. Timers only count down while
+   * the simulation steps, so they pause with the game and stay deterministic.
+   * Returns an id that can be passed to cancelTimer.
+   */
+  public scheduleTimer(ticks: number, action: TimerAction): number {
+    const id = this.state.nextTimerId++;
+    this.state.timers.push({
+      id,
+      ticksRemaining: Math.max(1, Math.round(ticks)),
+      action,
+    });
+    return id;
+  }
+
+  public cancelTimer(id: number): boolean {
+    const index = this.state.timers.findIndex((timer) => timer.id === id);
+    if (index === -1) return false;
+
+    this.state.timers.splice(index, 1);
+    return true;
+  }
+
+  private cancelTimers(predicate: (action: TimerAction) => boolean): void {
+    this.state.timers = this.state.timers.filter(
+      (timer) => !predicate(timer.action)
+    );
+  }
+
+  private hasPendingTimer(type: TimerAction["type"]): boolean {
+    return this.state.timers.some((timer) => timer.action.type === type);
+  }
+
+  private updateTimers(): void {
+    for (const timer of this.state.timers) {
+      timer.ticksRemaining--;
+    }
+
+    // Fire due timers one at a time in scheduling order; an action may
+    // cancel others (a floor transition drops the old floor's timers)
+    let index: number;
+    while (
+      (index = this.state.timers.findIndex(
+        (timer) => timer.ticksRemaining <= 0
+      )) !== -1
+    ) {
+      const [timer] = this.state.timers.splice(index, 1);
+      this.runTimerAction(timer.action);
+    }
+  }
+
+  private runTimerAction(action: TimerAction): void {
+    switch (action.type) {
+      case "checkFloorProgression":
+        this.checkFloorProgression();
+        break;
+      case "spawnDrops":
+        this.spawnEnemyDrops(action.x, action.y, action.enemyType);
+        break;
+      case "respawnEnemy":
+        this.respawnEnemy(action.x, action.y, action.enemyType);
+        break;
+      case "startWave":
+        this.startWave();
+        break;
+      case "cue":
+        this.events.emit("CueTriggered", { cue: action.cue });
+        break;
+    }
+  }
+
   private fixedUpdate(): void {
+    // Timers keep running on the victory/defeat screens
+    this.updateTimers();
     if (this.state.gameStatus !== "playing") return;
 
+    this.state.floorStats.ticks++;
+    this.state.runStats.ticks++;
+
     // Update game logic with fixed timestep
+    this.updateDiscovery();
+    this.updateDoors();
+    this.updateCrushers();
+    this.updatePushWalls();
     this.updatePlayerAttackState();
+    this.updatePowerUps();
     this.updatePickupCollection();
+    this.updateHazards();
+    this.updateObjective();
     this.updateGameStatus();
   }
 
+  /**
+   * Hurt the player every few ticks while they stand on a hazard floor,
+   * unless a radiation suit keeps it off
+   */
+  private updateHazards(): void {
+    const { player, hazardMap, floorStats } = this.state;
+    const hazard = getHazardAt(
+      hazardMap[Math.floor(player.y)]?.[Math.floor(player.x)] ?? 0
+    );
+    if (!hazard || hasPowerUpEffect(player.powerUps, "hazardProof")) return;
+
+    const { damage, interval } = getHazard(hazard);
+    if (floorStats.ticks % interval === 0) {
+      this.damagePlayer(damage, hazard);
+    }
+  }
+
+  /**
+   * Take a hit off the player's armor and health, unless god mode or
+   * invulnerability keeps it off
+   */
+  private damagePlayer(
+    damage: number,
+    source: GameEventMap["PlayerDamaged"]["source"]
+  ): void {
+    const player = this.state.player;
+    if (
+      this.state.cheats.god ||
+      hasPowerUpEffect(player.powerUps, "invulnerable")
+    ) {
+      return;
+    }
+
+    const { absorbed, healthDamage } = absorbDamage(
+      player.armor,
+      player.armorClass,
+      damage
+    );
+    player.armor -= absorbed;
+    if (player.armor === 0) {
+      player.armorClass = null;
+    }
+    player.health -= healthDamage;
+    this.events.emit("PlayerDamaged", {
+      source,
+      amount: healthDamage,
+      absorbed,
+      remainingHealth: player.health,
+    });
+  }
+
+  /**
+   * Mark open tiles the player can see nearby as discovered, for the map
+   * percentage in the stats
+   */
+  private updateDiscovery(): void {
+    const { player, worldMap, doors, crushers, worldSize, discovered } =
+      this.state;
+    const tileX = Math.floor(player.x);
+    const tileY = Math.floor(player.y);
+    const tile = tileY * worldSize + tileX;
+    if (tile === this.lastDiscoveryTile) return;
+    this.lastDiscoveryTile = tile;
+
+    const radius = 6;
+    for (let y = tileY - radius; y <= tileY + radius; y++) {
+      for (let x = tileX - radius; x <= tileX + radius; x++) {
+        if (x < 0 || y < 0 || x >= worldSize || y >= worldSize) continue;
+        // Open doorways are passed through, not explored
+        if (worldMap[y][x] !== 0 || getDoorAt(doors, x, y)) continue;
+
+        const index = y * worldSize + x;
+        const bit = 1 << (index & 31);
+        if (discovered[index >> 5] & bit) continue;
+
+        // Visible if the ray towards the tile's centre gets past it
+        const dx = x + 0.5 - player.x;
+        const dy = y + 0.5 - player.y;
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        if (distance > radius) continue;
+        const angle = Math.atan2(dy, dx);
+        if (
+          distance > 0.5 &&
+          castRay(player.x, player.y, angle, worldMap, doors, crushers)
+            .distance < distance
+        ) {
+          continue;
+        }
+
+        discovered[index >> 5] |= bit;
+        this.state.floorStats.tilesDiscovered++;
+        this.state.runStats.tilesDiscovered++;
+      }
+    }
+  }
+
+  /**
+   * Slide doors open when the player or a living enemy walks up to them and
+   * keep them open while anyone is near. Once everyone has left the door
+   * waits a while, then closes, backing off again if someone comes close.
+   * Switch doors ignore anyone walking up and stay open once opened.
+   */
+  private updateDoors(): void {
+    const { player, enemies } = this.state;
+    const actors = [player, ...enemies.filter((enemy) => enemy.health > 0)];
+
+    for (const door of this.state.doors) {
+      const near = actors.some(
+        (actor) =>
+          Math.sqrt(
+            (actor.x - door.x - 0.5) ** 2 + (actor.y - door.y - 0.5) ** 2
+          ) <= DOOR_TRIGGER_RANGE
+      );
+
+      switch (door.state) {
+        case "closed":
+          if (near && door.trigger === "proximity") {
+            this.openDoor(door);
+          }
+          break;
+
+        case "opening":
+          door.slide++;
+          if (door.slide >= DOOR_SLIDE_TICKS) {
+            // Fully open doors stop blocking
+            door.state = "open";
+            door.timer = DOOR_OPEN_TICKS;
+            this.setMapCell(door.x, door.y, 0);
+          }
+          break;
+
+        case "open":
+          // Doors opened from a switch stay open
+          if (near || door.trigger === "switch") {
+            door.timer = DOOR_OPEN_TICKS;
+          } else if (--door.timer <= 0) {
+            door.state = "closing";
+            this.setMapCell(door.x, door.y, DOOR_CELL);
+            this.events.emit("DoorMoved", {
+              x: door.x,
+              y: door.y,
+              opening: false,
+            });
+          }
+          break;
+
+        case "closing":
+          if (near) {
+            this.openDoor(door);
+          } else if (--door.slide <= 0) {
+            door.slide = 0;
+            door.state = "closed";
+          }
+          break;
+      }
+    }
+  }
+
+  /**
+   * Run every crusher through its cycle. While its panel is out the cell
+   * blocks like a wall; while it is shut, the player and any enemy caught
+   * in the cell take a hit every few ticks until it lifts.
+   */
+  private updateCrushers(): void {
+    for (const crusher of this.state.crushers) {
+      const wasOut = isCrusherOut(crusher);
+      crusher.cycle = (crusher.cycle + 1) % CRUSHER_CYCLE_TICKS;
+      if (isCrusherOut(crusher) !== wasOut) {
+        this.setMapCell(crusher.x, crusher.y, wasOut ? 0 : CRUSHER_CELL);
+      }
+      if (hasCrusherSlammed(crusher)) {
+        this.events.emit("CrusherSlammed", { x: crusher.x, y: crusher.y });
+      }
+      if (!isCrusherHitTick(crusher)) continue;
+
+      const inCell = (thing: { x: number; y: number }) =>
+        Math.floor(thing.x) === crusher.x && Math.floor(thing.y) === crusher.y;
+      if (inCell(this.state.player)) {
+        this.damagePlayer(CRUSHER_DAMAGE, "crusher");
+      }
+      this.state.enemies
+        .filter(inCell)
+        .forEach((enemy) => this.damageEnemy(enemy.id, CRUSHER_DAMAGE));
+    }
+  }
+
+  private openDoor(door: Door): void {
+    door.state = "opening";
+    this.events.emit("DoorMoved", { x: door.x, y: door.y, opening: true });
+  }
+
+  /**
+   * Move pushed secret walls back a cell at a time until they've gone
+   * PUSH_WALL_DISTANCE cells or something is in the way
+   */
+  private updatePushWalls(): void {
+    for (const wall of this.state.pushWalls) {
+      if (wall.state !== "sliding" || --wall.timer > 0) continue;
+
+      const nextX = wall.x + wall.dx;
+      const nextY = wall.y + wall.dy;
+      const inNextCell = (thing: { x: number; y: number }) =>
+        Math.floor(thing.x) === nextX && Math.floor(thing.y) === nextY;
+      if (
+        wall.slide <= 0 ||
+        this.state.worldMap[nextY][nextX] !== 0 ||
+        getCrusherAt(this.state.crushers, nextX, nextY) ||
+        inNextCell(this.state.player) ||
+        this.state.enemies.some(inNextCell) ||
+        this.state.pickups.some(inNextCell)
+      ) {
+        wall.state = "found";
+        continue;
+      }
+
+      this.setMapCell(wall.x, wall.y, 0);
+      this.setMapCell(nextX, nextY, wall.wallType);
+      wall.x = nextX;
+      wall.y = nextY;
+      wall.slide--;
+      wall.timer = PUSH_WALL_STEP_TICKS;
+    }
+  }
+
   private updatePlayerAttackState(): void {
     // Update attack timer
     if (this.state.player.attackTimer > 0) {
@@ -1541,18 +3252,59 @@ export class GameStateManager {
     }
   }
 
+  private updatePowerUps(): void {
+    const powerUps = this.state.player.powerUps;
+    for (const id of POWER_UP_IDS) {
+      const ticks = powerUps[id];
+      if (ticks === undefined) continue;
+
+      if (ticks <= 1) {
+        delete powerUps[id];
+        this.events.emit("PowerUpExpired", { powerUp: id });
+      } else {
+        powerUps[id] = ticks - 1;
+      }
+    }
+  }
+
+  private updateObjective(): void {
+    const { objective } = this.state;
+    if (objective?.id === "survive" && objective.ticksLeft > 0) {
+      objective.ticksLeft--;
+    }
+  }
+
   private updateGameStatus(): void {
     if (this.state.player.health <= 0) {
       this.state.gameStatus = "defeat";
       this.state.isPaused = false;
-    } else if (this.state.enemies.length === 0) {
-      this.state.gameStatus = "victory";
-      this.state.isPaused = false;
+      this.events.emit("PlayerDied", { floor: this.state.currentFloor });
+      // Defeat sting, played from CueTriggered by the audio layer
+      this.scheduleTimer(6, { type: "cue", cue: "defeat_hit" });
+      this.scheduleTimer(48, { type: "cue", cue: "defeat_fall" });
+    } else if (this.state.mode === "campaign") {
+      this.checkFloorProgression();
     }
   }
 
+  /**
+   * End the floor on the victory screen once its objective is met
+   */
+  private completeFloor(): void {
+    this.state.gameStatus = "victory";
+    this.state.isPaused = false;
+    this.state.perkChoices = this.rollPerkChoices();
+    this.events.emit("FloorCleared", {
+      floor: this.state.currentFloor,
+      isBossFloor: this.state.isBossFloor,
+    });
+    this.scheduleTimer(12, { type: "cue", cue: "victory_fanfare" });
+    this.scheduleTimer(36, { type: "cue", cue: "victory_chime" });
+  }
+
   private updatePickupCollection(): void {
-    const PICKUP_RANGE = 0.8; // Distance required to collect pickup
+    // Distance required to collect pickup
+    const PICKUP_RANGE = 0.8 + getPickupRangeBonus(this.state.player.perks);
 
     // Check for pickup collection
     for (let i = this.state.pickups.length - 1; i >= 0; i--) {
@@ -1562,7 +3314,7 @@ export class GameStateManager {
           (pickup.y - this.state.player.y) ** 2
       );
 
-      if (distance < PICKUP_RANGE) {
+      if (distance < PICKUP_RANGE && this.canCollectPickup(pickup)) {
         // Collect the pickup
         this.collectPickup(pickup);
         // Remove pickup from array
@@ -1571,6 +3323,17 @@ export class GameStateManager {
     }
   }
 
+  /**
+   * Armor suits stay on the floor unless they'd give the player more armor
+   * than they're already wearing
+   */
+  private canCollectPickup(pickup: Pickup): boolean {
+    if (pickup.type === "green_armor" || pickup.type === "blue_armor") {
+      return this.state.player.armor < pickup.value;
+    }
+    return true;
+  }
+
   private collectPickup(pickup: Pickup): void {
     switch (pickup.type) {
       case "health":
@@ -1579,40 +3342,86 @@ export class GameStateManager {
           this.state.player.maxHealth
         );
         break;
-      case "ammo":
-        // Add ammo to current weapon
-        const currentWeapon = this.state.player.weapon;
-        this.state.player.ammo[currentWeapon] = Math.min(
-          this.state.player.ammo[currentWeapon] + pickup.value,
-          this.state.player.maxAmmo[currentWeapon]
+      case "ammo": {
+        // Add ammo for the current weapon
+        const ammoType = getWeapon(this.state.player.weapon).ammoType;
+        this.state.player.ammo[ammoType] = Math.min(
+          this.state.player.ammo[ammoType] + pickup.value,
+          this.state.player.maxAmmo[ammoType]
         );
         break;
+      }
       case "weapon":
         if (pickup.weaponType) {
           // Add weapon to available weapons
           this.state.player.availableWeapons.add(pickup.weaponType);
           // Switch to new weapon immediately
-          this.state.player.weapon = pickup.weaponType;
+          this.switchWeapon(pickup.weaponType);
           // Give some ammo with weapon
-          this.state.player.ammo[pickup.weaponType] = Math.min(
-            this.state.player.ammo[pickup.weaponType] + pickup.value,
-            this.state.player.maxAmmo[pickup.weaponType]
+          const ammoType = getWeapon(pickup.weaponType).ammoType;
+          this.state.player.ammo[ammoType] = Math.min(
+            this.state.player.ammo[ammoType] + pickup.value,
+            this.state.player.maxAmmo[ammoType]
           );
         }
         break;
+      case "armor_bonus":
+        this.state.player.armor = Math.min(
+          this.state.player.armor + pickup.value,
+          MAX_ARMOR
+        );
+        this.state.player.armorClass ??= "green";
+        break;
+      case "green_armor":
+      case "blue_armor":
+        this.state.player.armor = pickup.value;
+        this.state.player.armorClass = getArmorPickup(pickup.type).armorClass;
+        break;
+      case "keycard":
+        if (
+          pickup.keycard &&
+          !this.state.player.keycards.includes(pickup.keycard)
+        ) {
+          this.state.player.keycards.push(pickup.keycard);
+        }
+        break;
+      default:
+        if (isPowerUpId(pickup.type)) {
+          this.activatePowerUp(pickup.type, pickup.value);
+        }
+        break;
+    }
+
+    this.events.emit("PickupCollected", {
+      type: pickup.type,
+      weaponType: pickup.weaponType,
+      keycard: pickup.keycard,
+      value: pickup.value,
+    });
+  }
+
+  /**
+   * Start (or restart) a power-up's countdown and apply its pickup effects
+   */
+  private activatePowerUp(id: PowerUpId, ticks: number): void {
+    const player = this.state.player;
+    player.powerUps[id] = ticks;
+    if (getPowerUp(id).effect.restoreHealth) {
+      player.health = Math.max(player.health, player.maxHealth);
     }
   }
 
   private spawnPickup(
     x: number,
     y: number,
-    type: "health" | "ammo" | "weapon",
+    type: Pickup["type"],
     value: number,
-    weaponType?: "shotgun" | "chaingun"
+    weaponType?: WeaponId,
+    keycard?: KeycardId
   ): void {
     // Add some randomness to pickup position to avoid exact overlap
-    const offsetX = (Math.random() - 0.5) * 0.4;
-    const offsetY = (Math.random() - 0.5) * 0.4;
+    const offsetX = (this.rng.next() - 0.5) * 0.4;
+    const offsetY = (this.rng.next() - 0.5) * 0.4;
 
     const pickup: Pickup = {
       id: this.state.nextPickupId++,
@@ -1621,23 +3430,15 @@ export class GameStateManager {
       type,
       value,
       spawnTime: this.state.lastUpdateTime,
-      animationOffset: Math.random() * Math.PI * 2,
+      animationOffset: this.rng.next() * Math.PI * 2,
       weaponType,
+      keycard,
     };
 
     this.state.pickups.push(pickup);
   }
 
-  public updatePlayer(input: {
-    forward: boolean;
-    backward: boolean;
-    left: boolean;
-    right: boolean;
-    rotateLeft: boolean;
-    rotateRight: boolean;
-  }): void {
-    if (this.state.gameStatus !== "playing" || this.state.isPaused) return;
-
+  private applyMovement(input: MovementInput): void {
     const moveSpeed = 0.15; // Increased from 0.05 for faster movement
     const rotationSpeed = 0.01; // Increased from 0.03 for faster rotation
 
@@ -1662,68 +3463,292 @@ export class GameStateManager {
       newY -= Math.sin(this.state.player.angle) * moveSpeed;
     }
 
-    // Strafing
-    if (input.left) {
-      newX += Math.cos(this.state.player.angle - Math.PI / 2) * moveSpeed;
-      newY += Math.sin(this.state.player.angle - Math.PI / 2) * moveSpeed;
+    // Strafing
+    if (input.left) {
+      newX += Math.cos(this.state.player.angle - Math.PI / 2) * moveSpeed;
+      newY += Math.sin(this.state.player.angle - Math.PI / 2) * moveSpeed;
+    }
+    if (input.right) {
+      newX -= Math.cos(this.state.player.angle - Math.PI / 2) * moveSpeed;
+      newY -= Math.sin(this.state.player.angle - Math.PI / 2) * moveSpeed;
+    }
+
+    // Collision detection (noclip only keeps the player inside the map)
+    const canEnter = this.state.cheats.noclip
+      ? (x: number, y: number) => this.isInsideWorld(x, y)
+      : (x: number, y: number) => isWalkable(this.state.worldMap, x, y);
+    const { x: oldX, y: oldY } = this.state.player;
+    if (canEnter(newX, newY)) {
+      this.state.player.x = newX;
+    }
+    if (canEnter(this.state.player.x, newY)) {
+      this.state.player.y = newY;
+    }
+
+    // Walking into a locked door tries the player's keycards on it
+    const blocked =
+      this.state.player.x !== newX || this.state.player.y !== newY;
+    this.bumpLockedDoor(
+      blocked && !this.state.cheats.noclip
+        ? [
+            { x: newX, y: oldY },
+            { x: oldX, y: newY },
+          ]
+        : []
+    );
+  }
+
+  /**
+   * Open the first locked door among the cells bumped if the player holds
+   * its keycard; otherwise say which key is missing, once per door bumped
+   */
+  private bumpLockedDoor(bumped: Array<{ x: number; y: number }>): void {
+    const { worldMap, player } = this.state;
+    const door = bumped
+      .map(({ x, y }) => ({ x: Math.floor(x), y: Math.floor(y) }))
+      .find(({ x, y }) => getKeycardForDoor(worldMap[y]?.[x] ?? 0) !== null);
+    if (!door) {
+      this.lockedDoorBumped = -1;
+      return;
+    }
+
+    const keycard = getKeycardForDoor(worldMap[door.y][door.x])!;
+    if (player.keycards.includes(keycard)) {
+      // Unlocked, it slides open like any other door from now on
+      const axis = getDoorwayAxis(worldMap, door.x, door.y);
+      if (axis === null) {
+        this.setMapCell(door.x, door.y, 0);
+      } else {
+        const slidingDoor = createDoor(door.x, door.y, axis);
+        this.state.doors.push(slidingDoor);
+        this.setMapCell(door.x, door.y, DOOR_CELL);
+        this.openDoor(slidingDoor);
+      }
+      this.events.emit("DoorOpened", { keycard, x: door.x, y: door.y });
+      return;
+    }
+
+    const cell = door.y * this.state.worldSize + door.x;
+    if (cell !== this.lockedDoorBumped) {
+      this.events.emit("DoorLocked", { keycard });
+    }
+    this.lockedDoorBumped = cell;
+  }
+
+  /**
+   * Press whatever the player faces within reach: a switch, a secret
+   * push-wall, a sliding door or a locked door
+   */
+  private useAction(): void {
+    const { player, worldMap, doors, crushers } = this.state;
+    const hit = castRay(
+      player.x,
+      player.y,
+      player.angle,
+      worldMap,
+      doors,
+      crushers
+    );
+    if (hit.distance > this.USE_RANGE) return;
+
+    const pushWall = getPushWallAt(this.state.pushWalls, hit.x, hit.y);
+    if (pushWall?.state === "hidden") {
+      pushWall.state = "sliding";
+      pushWall.slide = PUSH_WALL_DISTANCE;
+      pushWall.timer = PUSH_WALL_STEP_TICKS;
+      this.events.emit("SecretFound", { x: hit.x, y: hit.y });
+      return;
+    }
+
+    const found = getSwitchAt(hit.wallType);
+    if (found && !found.pressed) {
+      this.pressSwitch(hit.x, hit.y, found.kind);
+      return;
     }
-    if (input.right) {
-      newX -= Math.cos(this.state.player.angle - Math.PI / 2) * moveSpeed;
-      newY -= Math.sin(this.state.player.angle - Math.PI / 2) * moveSpeed;
+
+    const door = getDoorAt(doors, hit.x, hit.y);
+    if (door) {
+      if (
+        door.trigger === "proximity" &&
+        (door.state === "closed" || door.state === "closing")
+      ) {
+        this.openDoor(door);
+      }
+      return;
     }
 
-    // Collision detection
-    if (this.state.worldMap[Math.floor(newY)][Math.floor(newX)] === 0) {
-      this.state.player.x = newX;
+    this.bumpLockedDoor([{ x: hit.x, y: hit.y }]);
+  }
+
+  private pressSwitch(x: number, y: number, kind: SwitchKind): void {
+    this.setMapCell(x, y, SWITCHES[kind].pressedCell);
+    this.events.emit("SwitchPressed", { kind, x, y });
+
+    if (kind === "exit") {
+      if (this.state.objective?.id === "exit") {
+        this.state.objective.complete = true;
+      }
+      return;
     }
-    if (
-      this.state.worldMap[Math.floor(newY)][Math.floor(this.state.player.x)] ===
-      0
-    ) {
-      this.state.player.y = newY;
+
+    const target = this.state.switches.find(
+      (entry) => entry.x === x && entry.y === y
+    )?.door;
+    const door = target && getDoorAt(this.state.doors, target.x, target.y);
+    if (door && door.state !== "opening" && door.state !== "open") {
+      this.openDoor(door);
     }
+  }
 
-    this.notifyListeners();
+  /**
+   * Change one world map cell. The map is copied rather than edited in
+   * place so the worker host sees a new map and sends it to the main thread.
+   */
+  private setMapCell(x: number, y: number, value: number): void {
+    const worldMap = [...this.state.worldMap];
+    worldMap[y] = [...worldMap[y]];
+    worldMap[y][x] = value;
+    this.state.worldMap = worldMap;
   }
 
-  public updateMouseLook(deltaX: number): void {
-    if (this.state.gameStatus !== "playing" || this.state.isPaused) return;
+  private isInsideWorld(x: number, y: number): boolean {
+    const max = this.state.worldSize - 1;
+    return x >= 1 && x < max && y >= 1 && y < max;
+  }
 
+  private applyMouseLook(deltaX: number): void {
     const rotationSpeed = 0.002; // Increased from 0.002 for better mouse sensitivity
     this.state.player.angle += deltaX * rotationSpeed;
-    this.notifyListeners();
+  }
+
+  /**
+   * Advance the simulation by exactly one fixed tick using the given input.
+   * Does not touch wall-clock time, so it can be stepped headless.
+   */
+  public tick(input: TickInput): void {
+    if (this.state.isPaused) return;
+
+    this.snapInterpolation();
+    if (this.state.gameStatus === "playing") {
+      if (input.weaponSwitch) {
+        this.switchWeapon(input.weaponSwitch);
+      }
+      if (input.mouseDeltaX !== 0) {
+        this.applyMouseLook(input.mouseDeltaX);
+      }
+      this.applyMovement(input.movement);
+      if (input.fire) {
+        this.fireWeapon();
+      }
+      if (input.use) {
+        this.useAction();
+      }
+      this.stepEnemies(this.defaultRaycast);
+    }
+    this.fixedUpdate();
   }
 
   public shoot(): boolean {
+    const stats = getWeapon(this.state.player.weapon);
+    // The attack animation doubles as the refire delay
     if (
       this.state.gameStatus !== "playing" ||
       this.state.isPaused ||
-      this.state.player.ammo[this.state.player.weapon] <= 0
+      this.state.player.attackTimer > 0 ||
+      this.state.player.ammo[stats.ammoType] < stats.ammoUse
     )
       return false;
 
-    const stats = this.WEAPON_STATS[this.state.player.weapon];
-
-    this.state.player.ammo[this.state.player.weapon] -= stats.ammoUse;
+    this.state.player.ammo[stats.ammoType] -= stats.ammoUse;
     this.state.player.isAttacking = true;
-    this.state.player.attackTimer = stats.attackDuration;
+    this.state.player.attackTimer = Math.max(
+      1,
+      Math.round(
+        stats.attackDuration *
+          getFireRateMultiplier(this.state.player.perks, this.state.player.weapon)
+      )
+    );
     this.state.player.muzzleFlash = true;
     this.state.player.muzzleFlashTimer = stats.muzzleDuration;
+    this.events.emit("WeaponFired", { weapon: this.state.player.weapon });
 
     this.notifyListeners();
     return true;
   }
 
+  /**
+   * Fire the current weapon and resolve the hitscan against enemies
+   * @returns whether a shot was fired and the id of the enemy hit, if any
+   */
+  public fireWeapon(): { fired: boolean; hitEnemyId: number | null } {
+    if (!this.shoot()) return { fired: false, hitEnemyId: null };
+
+    const player = this.state.player;
+    const hit = castRay(
+      player.x,
+      player.y,
+      player.angle,
+      this.state.worldMap,
+      this.state.doors,
+      this.state.crushers
+    );
+
+    // Get weapon stats for range and accuracy
+    const weaponRange = this.getWeaponRange();
+    const weaponAccuracy = this.getWeaponAccuracy();
+
+    // Check if ray hit an enemy within range
+    for (const enemy of this.state.enemies) {
+      const enemyDistance = Math.sqrt(
+        (enemy.x - player.x) ** 2 + (enemy.y - player.y) ** 2
+      );
+
+      // First check if enemy is within weapon range
+      if (enemyDistance > weaponRange) {
+        continue; // Enemy is too far away for this weapon
+      }
+
+      // Check if there's a wall between player and enemy
+      if (enemyDistance > hit.distance) {
+        continue; // Wall is blocking the shot
+      }
+
+      // Check if player is aiming at the enemy
+      const enemyAngle = Math.atan2(enemy.y - player.y, enemy.x - player.x);
+      let angleDiff = Math.abs(player.angle - enemyAngle);
+
+      // Normalize angle difference to [0, π]
+      if (angleDiff > Math.PI) {
+        angleDiff = 2 * Math.PI - angleDiff;
+      }
+
+      // Check if within weapon accuracy cone
+      if (angleDiff < weaponAccuracy) {
+        // Apply the weapon's damage falloff for longer range shots
+        const actualDamage = Math.floor(
+          getDamageAtDistance(player.weapon, enemyDistance) *
+            getMeleeDamageMultiplier(player.powerUps, enemyDistance)
+        );
+
+        const enemyId = enemy.id;
+        this.damageEnemy(enemyId, actualDamage, player.weapon);
+        return { fired: true, hitEnemyId: enemyId }; // Only hit the first enemy in line
+      }
+    }
+
+    return { fired: true, hitEnemyId: null };
+  }
+
   public getWeaponDamage(): number {
-    return this.WEAPON_STATS[this.state.player.weapon].damage;
+    return getWeapon(this.state.player.weapon).damage;
   }
 
   public getWeaponRange(): number {
-    return this.WEAPON_STATS[this.state.player.weapon].range;
+    return getWeapon(this.state.player.weapon).range;
   }
 
   public getWeaponAccuracy(): number {
-    return this.WEAPON_STATS[this.state.player.weapon].accuracy;
+    return getWeapon(this.state.player.weapon).accuracy;
   }
 
   // NEW: Check if path is clear for exploration movement
@@ -1748,23 +3773,30 @@ export class GameStateManager {
         return false;
       }
 
-      // Check for walls
-      if (this.state.worldMap[checkY][checkX] !== 0) {
+      // Check for walls (doors open on the way)
+      const cell = this.state.worldMap[checkY][checkX];
+      if (cell !== 0 && cell !== DOOR_CELL) {
         return false;
       }
     }
     return true;
   }
 
-  public updateEnemies(
-    castRayFunction: (
-      startX: number,
-      startY: number,
-      angle: number
-    ) => { distance: number }
-  ): void {
-    if (this.state.gameStatus !== "playing" || this.state.isPaused) return;
+  // Line of sight against the current world map using the shared grid raycaster
+  private defaultRaycast: RaycastFunction = (startX, startY, angle) => {
+    this.frameStats.losRays++;
+    return castRay(
+      startX,
+      startY,
+      angle,
+      this.state.worldMap,
+      this.state.doors,
+      this.state.crushers
+    );
+  };
 
+  private stepEnemies(castRayFunction: RaycastFunction): void {
+    const skill = getSkill(this.state.skill);
     this.state.enemies.forEach((enemy) => {
       const distanceToPlayer = Math.sqrt(
         (enemy.x - this.state.player.x) ** 2 +
@@ -1817,43 +3849,42 @@ export class GameStateManager {
       );
       const hit = castRayFunction(enemy.x, enemy.y, angleToPlayer);
       const canSeePlayer = hit.distance > distanceToPlayer;
+      // Partial invisibility makes a visible player easy to overlook
+      const detectionChance = getDetectionChance(
+        this.state.player.powerUps,
+        this.FIXED_TIMESTEP / 1000
+      );
+      const noticesPlayer =
+        canSeePlayer &&
+        (detectionChance >= 1 || this.rng.next() < detectionChance);
 
       // Different AI behavior based on enemy type
-      const detectionRange = enemy.isBoss
-        ? 25
-        : enemy.enemyType === "captain"
-        ? 12
-        : enemy.enemyType === "soldier"
-        ? 10
-        : 8;
-      const moveSpeed = enemy.isBoss
-        ? 0.045
-        : enemy.enemyType === "captain"
-        ? 0.035
-        : enemy.enemyType === "soldier"
-        ? 0.03
-        : 0.025;
+      const archetype = getEnemyArchetype(enemy.enemyType);
+      const { detectionRange, loseRange } = archetype.perception;
+      const moveSpeed = archetype.speed * skill.enemySpeed;
+      // Survival hordes always know where the player is
+      const hunting = this.state.mode === "survival";
 
       switch (enemy.state) {
         case "idle":
-          if (canSeePlayer && distanceToPlayer < detectionRange) {
+          if (noticesPlayer && distanceToPlayer < detectionRange) {
             enemy.state = "chasing";
             enemy.lastPlayerX = this.state.player.x;
             enemy.lastPlayerY = this.state.player.y;
           } else if (enemy.explorationCooldown <= 0) {
             // NEW: Start exploration movement
             this.startEnemyExploration(enemy);
-          } else if (Math.random() < 0.001) {
+          } else if (this.rng.next() < 0.001) {
             enemy.state = "patrolling";
             enemy.patrolTarget = {
-              x: enemy.x + (Math.random() - 0.5) * 6,
-              y: enemy.y + (Math.random() - 0.5) * 6,
+              x: enemy.x + (this.rng.next() - 0.5) * 6,
+              y: enemy.y + (this.rng.next() - 0.5) * 6,
             };
           }
           break;
 
         case "patrolling":
-          if (canSeePlayer && distanceToPlayer < detectionRange) {
+          if (noticesPlayer && distanceToPlayer < detectionRange) {
             enemy.state = "chasing";
             enemy.lastPlayerX = this.state.player.x;
             enemy.lastPlayerY = this.state.player.y;
@@ -1869,9 +3900,7 @@ export class GameStateManager {
               const newX = enemy.x + (dx / distance) * moveSpeed;
               const newY = enemy.y + (dy / distance) * moveSpeed;
 
-              if (
-                this.state.worldMap[Math.floor(newY)][Math.floor(newX)] === 0
-              ) {
+              if (isWalkable(this.state.worldMap, newX, newY)) {
                 enemy.x = newX;
                 enemy.y = newY;
               }
@@ -1883,12 +3912,12 @@ export class GameStateManager {
           break;
 
         case "chasing":
-          if (canSeePlayer) {
+          if (noticesPlayer || hunting) {
             enemy.lastPlayerX = this.state.player.x;
             enemy.lastPlayerY = this.state.player.y;
           }
 
-          if (distanceToPlayer < 1.5) {
+          if (distanceToPlayer < archetype.attack.range) {
             enemy.state = "attacking";
           } else {
             const dx = enemy.lastPlayerX - enemy.x;
@@ -1896,35 +3925,39 @@ export class GameStateManager {
             const distance = Math.sqrt(dx * dx + dy * dy);
 
             if (distance > 0.1) {
-              const newX = enemy.x + (dx / distance) * moveSpeed * 1.5; // Faster when chasing
-              const newY = enemy.y + (dy / distance) * moveSpeed * 1.5;
+              // Faster when chasing
+              const chaseSpeed = moveSpeed * archetype.chaseSpeedMultiplier;
+              const newX = enemy.x + (dx / distance) * chaseSpeed;
+              const newY = enemy.y + (dy / distance) * chaseSpeed;
 
-              if (
-                this.state.worldMap[Math.floor(newY)][Math.floor(newX)] === 0
-              ) {
+              if (isWalkable(this.state.worldMap, newX, newY)) {
                 enemy.x = newX;
                 enemy.y = newY;
               }
             }
 
-            if (!canSeePlayer && distanceToPlayer > 10) {
+            if (!canSeePlayer && !hunting && distanceToPlayer > loseRange) {
               enemy.state = "idle";
             }
           }
           break;
 
         case "attacking":
-          if (distanceToPlayer > 2.5) {
+          if (distanceToPlayer > archetype.attack.breakRange) {
             enemy.state = "chasing";
           } else if (enemy.attackCooldown === 0) {
-            const damage =
-              enemy.enemyType === "captain"
-                ? 15
-                : enemy.enemyType === "soldier"
-                ? 12
-                : 10;
-            this.state.player.health -= damage;
-            enemy.attackCooldown = enemy.enemyType === "captain" ? 45 : 60; // Captains attack faster
+            const damage = Math.round(
+              archetype.attack.damage *
+                skill.enemyDamage *
+                getDamageTakenMultiplier(this.state.player.perks)
+            );
+            const player = this.state.player;
+            const missChance = getEnemyMissChance(player.powerUps);
+            const missed = missChance > 0 && this.rng.next() < missChance;
+            if (!missed) {
+              this.damagePlayer(damage, enemy.enemyType);
+            }
+            enemy.attackCooldown = archetype.attack.cooldown;
           }
           break;
       }
@@ -1937,8 +3970,6 @@ export class GameStateManager {
         this.continueEnemyExploration(enemy, moveSpeed);
       }
     });
-
-    this.notifyListeners();
   }
 
   // NEW: Start exploration movement for an enemy
@@ -1955,8 +3986,8 @@ export class GameStateManager {
       { dx: -1, dy: -1 }, // Diagonal: Up-Left
     ];
 
-    const direction = directions[Math.floor(Math.random() * directions.length)];
-    const explorationDistance = 3 + Math.floor(Math.random() * 4); // 3-6 spaces
+    const direction = directions[Math.floor(this.rng.next() * directions.length)];
+    const explorationDistance = 3 + Math.floor(this.rng.next() * 4); // 3-6 spaces
 
     // Check if the path is clear
     if (
@@ -1972,7 +4003,7 @@ export class GameStateManager {
       enemy.explorationCooldown = explorationDistance * 30; // Time to complete movement
     } else {
       // Path blocked, wait before trying again
-      enemy.explorationCooldown = 120 + Math.floor(Math.random() * 180); // 2-5 seconds
+      enemy.explorationCooldown = 120 + Math.floor(this.rng.next() * 180); // 2-5 seconds
     }
   }
 
@@ -1985,23 +4016,36 @@ export class GameStateManager {
     const newY = enemy.y + enemy.explorationDirection.dy * explorationSpeed;
 
     // Check if the new position is valid
-    if (this.state.worldMap[Math.floor(newY)][Math.floor(newX)] === 0) {
+    if (isWalkable(this.state.worldMap, newX, newY)) {
       enemy.x = newX;
       enemy.y = newY;
+    } else if (
+      getDoorAt(this.state.doors, Math.floor(newX), Math.floor(newY))
+        ?.trigger === "proximity"
+    ) {
+      // Wait for the door ahead to slide open
     } else {
       // Hit a wall, stop exploration
       enemy.explorationDirection = null;
-      enemy.explorationCooldown = 180 + Math.floor(Math.random() * 240); // 3-7 seconds before next exploration
+      enemy.explorationCooldown = 180 + Math.floor(this.rng.next() * 240); // 3-7 seconds before next exploration
     }
 
     // If exploration time is up, stop and reset
     if (enemy.explorationCooldown <= 0) {
       enemy.explorationDirection = null;
-      enemy.explorationCooldown = 240 + Math.floor(Math.random() * 360); // 4-10 seconds before next exploration
+      enemy.explorationCooldown = 240 + Math.floor(this.rng.next() * 360); // 4-10 seconds before next exploration
     }
   }
 
-  public damageEnemy(enemyId: number, damage: number): boolean {
+  /**
+   * @param weapon Weapon that dealt the damage, counted as a hit in the
+   * stats; null for damage from anything else
+   */
+  public damageEnemy(
+    enemyId: number,
+    damage: number,
+    weapon: WeaponId | null = null
+  ): boolean {
     const enemy = this.state.enemies.find((e) => e.id === enemyId);
     if (!enemy) return false;
 
@@ -2011,17 +4055,61 @@ export class GameStateManager {
     enemy.isHurt = true;
     enemy.hurtTimer = 5;
 
+    this.events.emit("EnemyDamaged", {
+      enemyId,
+      enemyType: enemy.enemyType,
+      isBoss: enemy.isBoss,
+      amount: damage,
+      remainingHealth: Math.max(0, enemy.health),
+      weapon,
+    });
+
     if (enemy.health <= 0) {
-      // Spawn pickups when enemy dies
-      this.spawnEnemyDrops(enemy.x, enemy.y, enemy.enemyType);
+      // Spawn pickups shortly after the enemy dies
+      this.scheduleTimer(6, {
+        type: "spawnDrops",
+        x: enemy.x,
+        y: enemy.y,
+        enemyType: enemy.enemyType,
+      });
+
+      // Nightmare: regular enemies come back where they fell
+      const { respawnTicks } = getSkill(this.state.skill);
+      if (respawnTicks !== null && !enemy.isBoss) {
+        this.scheduleTimer(respawnTicks, {
+          type: "respawnEnemy",
+          x: enemy.x,
+          y: enemy.y,
+          enemyType: enemy.enemyType,
+        });
+      }
 
       const index = this.state.enemies.findIndex((e) => e.id === enemyId);
       if (index > -1) {
         this.state.enemies.splice(index, 1);
       }
 
+      this.events.emit("EnemyKilled", {
+        enemyId,
+        enemyType: enemy.enemyType,
+        isBoss: enemy.isBoss,
+        x: enemy.x,
+        y: enemy.y,
+      });
+
+      if (this.state.survival) {
+        const { kills, score } = this.state.survival;
+        this.state.survival = {
+          ...this.state.survival,
+          kills: kills + 1,
+          score:
+            score +
+            (enemy.isBoss ? SURVIVAL.score.bossKill : SURVIVAL.score.kill),
+        };
+      }
+
       // Check if floor should progress after enemy death
-      setTimeout(() => this.checkFloorProgression(), 100); // Small delay to ensure state is updated
+      this.scheduleTimer(6, { type: "checkFloorProgression" }); // Small delay to ensure state is updated
     }
 
     this.notifyListeners();
@@ -2031,65 +4119,85 @@ export class GameStateManager {
   private spawnEnemyDrops(
     x: number,
     y: number,
-    enemyType:
-      | "grunt"
-      | "soldier"
-      | "captain"
-      | "boss_demon"
-      | "boss_cyberdemon"
-      | "boss_spider_mastermind"
+    enemyType: EnemyTypeId
   ): void {
-    // Different drop rates based on enemy type
-    let healthDropChance, ammoDropChance, weaponDropChance;
-
-    switch (enemyType) {
-      case "grunt":
-        healthDropChance = 0.5;
-        ammoDropChance = 0.7;
-        weaponDropChance = 0.05;
-        break;
-      case "soldier":
-        healthDropChance = 0.7;
-        ammoDropChance = 0.8;
-        weaponDropChance = 0.15;
-        break;
-      case "captain":
-        healthDropChance = 0.8;
-        ammoDropChance = 0.9;
-        weaponDropChance = 0.25;
-        break;
-      case "boss_demon":
-        healthDropChance = 1.0; // Always drop health
-        ammoDropChance = 1.0; // Always drop ammo
-        weaponDropChance = 0.8; // High chance of weapon
-        break;
-      case "boss_cyberdemon":
-        healthDropChance = 1.0;
-        ammoDropChance = 1.0;
-        weaponDropChance = 0.9;
-        break;
-      case "boss_spider_mastermind":
-        healthDropChance = 1.0;
-        ammoDropChance = 1.0;
-        weaponDropChance = 1.0; // Always drop weapon
-        break;
-    }
-
-    if (Math.random() < healthDropChance) {
-      const healthValue = 15 + Math.floor(Math.random() * 26); // 15-40 health
+    // Different drop rates based on enemy type, scaled by skill
+    const drops = getEnemyArchetype(enemyType).drops;
+    const dropChance =
+      getSkill(this.state.skill).dropChance *
+      getDropChanceMultiplier(this.state.player.perks);
+    const chance = (base: number) => Math.min(1, base * dropChance);
+
+    if (this.rng.next() < chance(drops.health)) {
+      const healthValue = 15 + Math.floor(this.rng.next() * 26); // 15-40 health
       this.spawnPickup(x, y, "health", healthValue);
     }
 
-    if (Math.random() < ammoDropChance) {
-      const ammoValue = 8 + Math.floor(Math.random() * 18); // 8-25 ammo
+    if (this.rng.next() < chance(drops.ammo)) {
+      const ammoValue = 8 + Math.floor(this.rng.next() * 18); // 8-25 ammo
       this.spawnPickup(x, y, "ammo", ammoValue);
     }
 
-    if (Math.random() < weaponDropChance) {
-      const weaponType = Math.random() < 0.7 ? "shotgun" : "chaingun";
-      const ammoValue = weaponType === "shotgun" ? 12 : 30;
+    if (this.rng.next() < chance(drops.weapon)) {
+      const weaponType = chooseWeaponDrop(this.rng.next());
+      const ammoValue = getWeapon(weaponType).pickup?.ammo ?? 0;
       this.spawnPickup(x, y, "weapon", ammoValue, weaponType);
     }
+
+    if (this.rng.next() < chance(drops.armor)) {
+      const armorType = chooseArmorPickup(this.rng.next());
+      this.spawnPickup(x, y, armorType, getArmorPickup(armorType).armor);
+    }
+  }
+
+  /**
+   * Bring a killed enemy back where it fell, unless the floor is already
+   * cleared or the player is standing on the spot
+   */
+  private respawnEnemy(x: number, y: number, enemyType: EnemyTypeId): void {
+    if (
+      this.state.gameStatus !== "playing" ||
+      this.hasPendingTimer("startWave")
+    ) {
+      return;
+    }
+
+    const { player } = this.state;
+    if (Math.sqrt((x - player.x) ** 2 + (y - player.y) ** 2) < 1) {
+      this.scheduleTimer(60, { type: "respawnEnemy", x, y, enemyType });
+      return;
+    }
+
+    const { health } = getEnemyArchetype(enemyType);
+    const maxHealth =
+      health.min + Math.floor(this.rng.next() * (health.max - health.min + 1));
+
+    const enemy: Enemy = {
+      id: this.state.nextEnemyId++,
+      x,
+      y,
+      health: maxHealth,
+      maxHealth,
+      state: "idle",
+      lastPlayerX: 0,
+      lastPlayerY: 0,
+      attackCooldown: 0,
+      patrolTarget: null,
+      enemyType,
+      explorationCooldown: Math.floor(this.rng.next() * 300) + 60,
+      explorationDirection: null,
+      isBoss: false,
+      spawnCooldown: 0,
+      spawnsRemaining: 0,
+      phaseTransitions: [],
+      currentPhase: 0,
+      isHurt: false,
+      hurtTimer: 0,
+    };
+
+    this.state.enemies.push(enemy);
+    this.previousEnemies.set(enemy.id, { x, y });
+    this.events.emit("EnemyRespawned", { enemyId: enemy.id, enemyType, x, y });
   }
 
   /**
@@ -2103,22 +4211,25 @@ export class GameStateManager {
 
     if (nextThreshold && boss.health <= nextThreshold) {
       boss.currentPhase++;
+      this.events.emit("BossPhaseChanged", {
+        enemyId: boss.id,
+        enemyType: boss.enemyType,
+        phase: boss.currentPhase,
+      });
 
       // Phase transition effects
-      switch (boss.enemyType) {
-        case "boss_demon":
-          // Become more aggressive, spawn minions
-          boss.spawnCooldown = 60; // Spawn minions soon
-          break;
-        case "boss_cyberdemon":
-          // Increase movement speed, more frequent attacks
-          boss.attackCooldown = Math.max(10, boss.attackCooldown - 20);
-          break;
-        case "boss_spider_mastermind":
-          // Become erratic, multiple spawn waves
-          boss.spawnCooldown = 30;
-          boss.spawnsRemaining += 2; // Extra spawns in later phases
-          break;
+      const effects = getEnemyArchetype(boss.enemyType).boss?.onPhaseChange;
+      if (effects?.spawnCooldown !== undefined) {
+        boss.spawnCooldown = effects.spawnCooldown;
+      }
+      if (effects?.attackCooldownReduction !== undefined) {
+        boss.attackCooldown = Math.max(
+          effects.minAttackCooldown ?? 0,
+          boss.attackCooldown - effects.attackCooldownReduction
+        );
+      }
+      if (effects?.extraSpawns !== undefined) {
+        boss.spawnsRemaining += effects.extraSpawns;
       }
     }
   }
@@ -2127,12 +4238,15 @@ export class GameStateManager {
    * Generate random pickups for the current floor
    */
   private generateRandomPickups(): void {
-    const pickupCount = 5 + Math.floor(Math.random() * 6); // 5-10 pickups
+    const pickupCount = Math.round(
+      (5 + Math.floor(this.rng.next() * 6)) *
+        getSkill(this.state.skill).pickupCount
+    ); // 5-10 pickups on medium
     let attempts = 0;
 
     while (this.state.pickups.length < pickupCount && attempts < 200) {
-      const x = 2 + Math.random() * (this.state.worldSize - 4);
-      const y = 2 + Math.random() * (this.state.worldSize - 4);
+      const x = 2 + this.rng.next() * (this.state.worldSize - 4);
+      const y = 2 + this.rng.next() * (this.state.worldSize - 4);
 
       // Check if position is valid (not in walls, not too close to player spawn)
       if (this.state.worldMap[Math.floor(y)][Math.floor(x)] === 0) {
@@ -2141,36 +4255,248 @@ export class GameStateManager {
             (y - this.state.worldSize / 2) ** 2
         );
         if (distanceFromPlayer > 3) {
-          // Determine pickup type based on floor and randomness
-          const pickupTypes: ("health" | "ammo" | "weapon")[] = [
-            "health",
-            "ammo",
-            "weapon",
-          ];
-          const type =
-            pickupTypes[Math.floor(Math.random() * pickupTypes.length)];
-
-          let value: number;
-          let weaponType: "shotgun" | "chaingun" | undefined;
-
-          switch (type) {
-            case "health":
-              value = 25 + Math.floor(Math.random() * 26); // 25-50 health
-              break;
-            case "ammo":
-              value = 15 + Math.floor(Math.random() * 21); // 15-35 ammo
-              break;
-            case "weapon":
-              weaponType = Math.random() < 0.7 ? "shotgun" : "chaingun";
-              value = weaponType === "shotgun" ? 12 : 30;
-              break;
-          }
-
+          const { type, value, weaponType } = this.rollPickup();
           this.spawnPickup(x, y, type, value, weaponType);
         }
       }
       attempts++;
     }
+
+    this.placePowerUp();
+  }
+
+  /**
+   * Roll a random item for the floor: health, ammo, a weapon or armor
+   */
+  private rollPickup(): {
+    type: Pickup["type"];
+    value: number;
+    weaponType?: WeaponId;
+  } {
+    const pickupTypes = ["health", "ammo", "weapon", "armor"] as const;
+    const kind = pickupTypes[Math.floor(this.rng.next() * pickupTypes.length)];
+
+    switch (kind) {
+      case "health":
+        return {
+          type: "health",
+          value: 25 + Math.floor(this.rng.next() * 26), // 25-50 health
+        };
+      case "ammo":
+        return {
+          type: "ammo",
+          value: 15 + Math.floor(this.rng.next() * 21), // 15-35 ammo
+        };
+      case "weapon": {
+        const weaponType = chooseWeaponDrop(this.rng.next());
+        return {
+          type: "weapon",
+          value: getWeapon(weaponType).pickup?.ammo ?? 0,
+          weaponType,
+        };
+      }
+      case "armor": {
+        const type = chooseArmorPickup(this.rng.next());
+        return { type, value: getArmorPickup(type).armor };
+      }
+    }
+  }
+
+  /**
+   * Stock switch rooms and secrets with an item on each loot spot, and
+   * leave the power-ups placed by the floor itself
+   */
+  private spawnLoot(spots: FloorLayout["lootSpots"]): void {
+    for (const { x, y, powerUp } of spots) {
+      if (powerUp) {
+        const { duration } = getPowerUp(powerUp);
+        this.spawnPickup(x + 0.5, y + 0.5, powerUp, duration);
+        continue;
+      }
+      const { type, value, weaponType } = this.rollPickup();
+      this.spawnPickup(x + 0.5, y + 0.5, type, value, weaponType);
+    }
+  }
+
+  /**
+   * Maybe place one power-up on the floor. Rarer ones only show up deeper
+   * in (later waves in survival).
+   */
+  private placePowerUp(): void {
+    const chance = Math.min(
+      1,
+      POWER_UP_FLOOR_CHANCE * getSkill(this.state.skill).pickupCount
+    );
+    if (this.rng.next() >= chance) return;
+
+    const depth = this.state.survival?.wave ?? this.state.currentFloor;
+    const powerUp = choosePowerUp(this.rng.next(), depth);
+    if (!powerUp) return;
+
+    for (let attempts = 0; attempts < 50; attempts++) {
+      const x = 2 + this.rng.next() * (this.state.worldSize - 4);
+      const y = 2 + this.rng.next() * (this.state.worldSize - 4);
+      const distanceFromPlayer = Math.sqrt(
+        (x - this.state.player.x) ** 2 + (y - this.state.player.y) ** 2
+      );
+
+      if (
+        this.state.worldMap[Math.floor(y)][Math.floor(x)] === 0 &&
+        distanceFromPlayer > 5
+      ) {
+        this.spawnPickup(x, y, powerUp, getPowerUp(powerUp).duration);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Find an open spot in the ring along the arena walls, away from the
+   * player
+   */
+  private findEdgeSpawn(): { x: number; y: number } | null {
+    const size = this.state.worldSize;
+
+    for (let attempts = 0; attempts < 20; attempts++) {
+      const along = 1.5 + this.rng.next() * (size - 3);
+      const inset = 1.5 + this.rng.next() * 2; // 1.5-3.5 units from the wall
+      const side = Math.floor(this.rng.next() * 4);
+      const spawnX = side === 0 ? inset : side === 1 ? size - inset : along;
+      const spawnY = side === 2 ? inset : side === 3 ? size - inset : along;
+
+      // Check if spawn location is valid
+      const mapX = Math.floor(spawnX);
+      const mapY = Math.floor(spawnY);
+
+      if (
+        mapX >= 0 &&
+        mapX < size &&
+        mapY >= 0 &&
+        mapY < size &&
+        this.state.worldMap[mapY][mapX] === 0
+      ) {
+        const distanceToPlayer = Math.sqrt(
+          (spawnX - this.state.player.x) ** 2 +
+            (spawnY - this.state.player.y) ** 2
+        );
+
+        // Don't spawn on top of the player
+        if (distanceToPlayer > 6) {
+          return { x: spawnX, y: spawnY };
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Survival: send the next wave in from the arena edges, with a boss as a
+   * mini-boss on every few waves
+   */
+  private startWave(): void {
+    const survival = this.state.survival;
+    if (!survival) return;
+
+    const wave = survival.wave + 1;
+    const { player } = this.state;
+    const count = Math.max(
+      1,
+      Math.round(getWaveSize(wave) * getSkill(this.state.skill).enemyCount)
+    );
+    const arrivals: Enemy[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const spot = this.findEdgeSpawn();
+      if (!spot) continue;
+
+      const enemyType = chooseWaveEnemy(wave, this.rng.next());
+      const { health } = getEnemyArchetype(enemyType);
+      const maxHealth =
+        health.min +
+        Math.floor(this.rng.next() * (health.max - health.min + 1));
+
+      // Waves know where the player is and come straight for them
+      arrivals.push({
+        id: this.state.nextEnemyId++,
+        x: spot.x,
+        y: spot.y,
+        health: maxHealth,
+        maxHealth,
+        state: "chasing",
+        lastPlayerX: player.x,
+        lastPlayerY: player.y,
+        attackCooldown: 0,
+        patrolTarget: null,
+        enemyType,
+        explorationCooldown: 0,
+        explorationDirection: null,
+        isBoss: false,
+        spawnCooldown: 0,
+        spawnsRemaining: 0,
+        phaseTransitions: [],
+        currentPhase: 0,
+        isHurt: false,
+        hurtTimer: 0,
+      });
+    }
+
+    if (isMiniBossWave(wave)) {
+      const boss = this.generateBossEnemy(
+        this.state.worldMap,
+        this.state.worldSize,
+        wave
+      );
+      if (boss) {
+        arrivals.push({
+          ...boss,
+          id: this.state.nextEnemyId++,
+          state: "chasing",
+          lastPlayerX: player.x,
+          lastPlayerY: player.y,
+        });
+      }
+    }
+
+    arrivals.forEach((enemy) =>
+      this.previousEnemies.set(enemy.id, { x: enemy.x, y: enemy.y })
+    );
+    this.state.enemies.push(...arrivals);
+    this.state.survival = { ...survival, wave, waveActive: true };
+    this.events.emit("WaveStarted", { wave, enemies: arrivals.length });
+
+    // Nowhere to place anyone; count it as survived and move on
+    if (arrivals.length === 0) {
+      this.checkWaveCleared();
+    }
+    this.notifyListeners();
+  }
+
+  /**
+   * Survival: once a wave is wiped out, bank its bonus, resupply the arena
+   * and queue the next wave
+   */
+  private checkWaveCleared(): void {
+    const survival = this.state.survival;
+    if (
+      !survival?.waveActive ||
+      this.state.enemies.some((enemy) => enemy.health > 0)
+    ) {
+      return;
+    }
+
+    const bonus = survival.wave * SURVIVAL.score.wave;
+    this.state.survival = {
+      ...survival,
+      waveActive: false,
+      score: survival.score + bonus,
+    };
+    this.events.emit("WaveCleared", { wave: survival.wave, bonus });
+    this.scheduleTimer(12, { type: "cue", cue: "victory_chime" });
+
+    // Top the arena back up with pickups for the break
+    this.generateRandomPickups();
+    this.scheduleTimer(SURVIVAL.waveBreak, { type: "startWave" });
   }
 
   /**
@@ -2181,8 +4507,8 @@ export class GameStateManager {
 
     // Find spawn location near boss but not too close to player
     for (let attempts = 0; attempts < 20; attempts++) {
-      const spawnRadius = 3 + Math.random() * 4; // 3-7 units from boss
-      const spawnAngle = Math.random() * Math.PI * 2;
+      const spawnRadius = 3 + this.rng.next() * 4; // 3-7 units from boss
+      const spawnAngle = this.rng.next() * Math.PI * 2;
       const spawnX = boss.x + Math.cos(spawnAngle) * spawnRadius;
       const spawnY = boss.y + Math.sin(spawnAngle) * spawnRadius;
 
@@ -2205,36 +4531,14 @@ export class GameStateManager {
         if (distanceToPlayer > 4) {
           // Don't spawn too close to player
           // Determine minion type based on boss type and floor
-          let minionType: "grunt" | "soldier" | "captain";
-          let minionHealth: number;
-
-          switch (boss.enemyType) {
-            case "boss_demon":
-              minionType = Math.random() < 0.7 ? "grunt" : "soldier";
-              minionHealth = minionType === "grunt" ? 25 : 35;
-              break;
-            case "boss_cyberdemon":
-              minionType = Math.random() < 0.5 ? "soldier" : "captain";
-              minionHealth = minionType === "soldier" ? 40 : 55;
-              break;
-            case "boss_spider_mastermind":
-              minionType =
-                Math.random() < 0.3
-                  ? "grunt"
-                  : Math.random() < 0.6
-                  ? "soldier"
-                  : "captain";
-              minionHealth =
-                minionType === "grunt"
-                  ? 30
-                  : minionType === "soldier"
-                  ? 45
-                  : 60;
-              break;
-            default:
-              minionType = "grunt";
-              minionHealth = 25;
-          }
+          const minions = getEnemyArchetype(boss.enemyType).boss?.minions ?? [];
+          const option = minions.find(
+            (minion) =>
+              minion.chance === undefined || this.rng.next() < minion.chance
+          );
+          const minionType: EnemyTypeId =
+            option && isEnemyTypeId(option.type) ? option.type : "grunt";
+          const minionHealth = option?.health ?? 25;
 
           // Create the minion
           const minion: Enemy = {
@@ -2262,7 +4566,7 @@ export class GameStateManager {
 
           this.state.enemies.push(minion);
           boss.spawnsRemaining--;
-          boss.spawnCooldown = 120 + Math.random() * 180; // 2-5 seconds before next spawn
+          boss.spawnCooldown = 120 + this.rng.next() * 180; // 2-5 seconds before next spawn
           break;
         }
       }
@@ -2312,13 +4616,145 @@ export class GameStateManager {
         closestEnemyDistance === Infinity ? 100 : closestEnemyDistance,
       isInCombat,
       isBossLevel: this.state.isBossFloor,
+      activePowerUps: Object.keys(this.state.player.powerUps).length,
       currentFloor: this.state.currentFloor,
       gameStatus: this.state.gameStatus,
     };
   }
 
-  public reset(): void {
-    this.state = this.createInitialState();
+  /**
+   * Restart the run from floor 1. Keeps the current run seed unless a new one is given.
+   */
+  public reset(
+    runSeed: number = this.state.runSeed,
+    skill: SkillId = this.state.skill,
+    mode: GameMode = this.state.mode
+  ): void {
+    this.state = this.createInitialState(runSeed, skill, mode);
+    this.initializeEnemiesAfterState();
+    this.takeBufferedInput(); // Drop one-shot input meant for the old run
+    this.snapInterpolation();
+    this.notifyListeners();
+  }
+
+  // Developer console cheats. Each one flags the run as cheated so it can be
+  // left out of stats.
+
+  private markCheated(): void {
+    this.state.cheated = true;
+  }
+
+  public setCheat(cheat: keyof CheatFlags, enabled: boolean): void {
+    this.state.cheats = { ...this.state.cheats, [cheat]: enabled };
+    if (enabled) {
+      this.markCheated();
+    }
+    this.notifyListeners();
+  }
+
+  /**
+   * Unlock a weapon with a full load of its ammo, without switching to it
+   */
+  public giveWeapon(weapon: WeaponId): void {
+    const { player } = this.state;
+    const ammoType = getWeapon(weapon).ammoType;
+    player.availableWeapons.add(weapon);
+    player.ammo[ammoType] = player.maxAmmo[ammoType];
+    this.markCheated();
+    this.notifyListeners();
+  }
+
+  /**
+   * Set the player's health, clamped to 1..maxHealth. Returns the value applied.
+   */
+  public setPlayerHealth(health: number): number {
+    const { player } = this.state;
+    player.health = Math.max(1, Math.min(player.maxHealth, Math.floor(health)));
+    this.markCheated();
+    this.notifyListeners();
+    return player.health;
+  }
+
+  /**
+   * Jump straight to a floor, generated from the run seed as if reached normally
+   */
+  public warpToFloor(floor: number): void {
+    this.markCheated();
+    this.loadFloor(Math.max(1, Math.floor(floor)));
+  }
+
+  /**
+   * Spawn an enemy at a position, or a few units in front of the player.
+   * Bosses are scaled for the current floor. Returns null if the spot is a wall.
+   */
+  public spawnEnemy(type: EnemyTypeId, x?: number, y?: number): Enemy | null {
+    const { player } = this.state;
+    const spawnX = x ?? player.x + Math.cos(player.angle) * 3;
+    const spawnY = y ?? player.y + Math.sin(player.angle) * 3;
+    if (!isWalkable(this.state.worldMap, spawnX, spawnY)) return null;
+
+    const archetype = getEnemyArchetype(type);
+    const boss = archetype.boss;
+    const floor = this.state.currentFloor;
+    const maxHealth = boss
+      ? archetype.health.min + floor * boss.healthPerFloor
+      : archetype.health.max;
+
+    const enemy: Enemy = {
+      id: this.state.nextEnemyId++,
+      x: spawnX,
+      y: spawnY,
+      health: maxHealth,
+      maxHealth,
+      state: "idle",
+      lastPlayerX: 0,
+      lastPlayerY: 0,
+      attackCooldown: 0,
+      patrolTarget: null,
+      enemyType: type,
+      explorationCooldown: 60,
+      explorationDirection: null,
+      isBoss: boss !== null,
+      spawnCooldown: 0,
+      spawnsRemaining: boss ? boss.baseSpawns + Math.floor(floor / 5) : 0,
+      phaseTransitions: boss
+        ? boss.phaseThresholds.map((fraction) => maxHealth * fraction)
+        : [],
+      currentPhase: 0,
+      isHurt: false,
+      hurtTimer: 0,
+    };
+
+    this.state.enemies.push(enemy);
+    this.previousEnemies.set(enemy.id, { x: enemy.x, y: enemy.y });
+    this.markCheated();
+    this.notifyListeners();
+    return enemy;
+  }
+
+  /**
+   * Kill every enemy on the floor, with the usual drops and floor progression.
+   * Returns how many were killed.
+   */
+  public killAllEnemies(): number {
+    this.markCheated();
+    const targets = this.state.enemies.map((enemy) => ({
+      id: enemy.id,
+      health: enemy.health,
+    }));
+    targets.forEach(({ id, health }) => this.damageEnemy(id, health));
+    return targets.length;
+  }
+
+  /**
+   * Speed the simulation up or down (0.1-4x). Returns the scale applied.
+   */
+  public setTimeScale(scale: number): number {
+    this.state.timeScale = Math.max(0.1, Math.min(4, scale));
+    if (this.state.timeScale !== 1) {
+      this.markCheated();
+    }
     this.notifyListeners();
+    return this.state.timeScale;
   }
 }
@@ -0,0 +1,66 @@
+/**
+ * Damaging floors. Hazards live in their own per-cell layer,
+ * GameState.hazardMap, alongside the world map: a hazard cell is ordinary
+ * open floor that hurts the player every few ticks they stand in it,
+ * unless a radiation suit is running.
+ */
+
+export interface HazardDefinition {
+  name: string; // HUD damage readout
+  cell: number; // Hazard map value, 0 is a safe floor
+  color: string; // Floor tint and automap
+  damage: number; // Health lost per hit, before armor
+  interval: number; // Ticks between hits while standing in it
+}
+
+export const HAZARDS = {
+  nukage: {
+    name: "NUKAGE",
+    cell: 1,
+    color: "#65A30D",
+    damage: 5,
+    interval: 30,
+  },
+  lava: {
+    name: "LAVA",
+    cell: 2,
+    color: "#DC2626",
+    damage: 10,
+    interval: 30,
+  },
+  void_rift: {
+    name: "VOID RIFT",
+    cell: 3,
+    color: "#7C3AED",
+    damage: 15,
+    interval: 30,
+  },
+} satisfies Record<string, HazardDefinition>;
+
+export type HazardId = keyof typeof HAZARDS;
+
+/** First campaign floor that can have hazard floors */
+export const HAZARD_MIN_FLOOR = 2;
+
+/** Chance each room or corridor in a hazard zone gets a hazard floor */
+export const HAZARD_AREA_CHANCE = 0.5;
+
+const HAZARD_IDS = Object.keys(HAZARDS) as HazardId[];
+
+export function getHazard(id: HazardId): HazardDefinition {
+  return HAZARDS[id];
+}
+
+export function isHazardId(value: unknown): value is HazardId {
+  return typeof value === "string" && value in HAZARDS;
+}
+
+/** The hazard a hazard map cell holds, or null if it's a safe floor */
+export function getHazardAt(cell: number): HazardId | null {
+  return HAZARD_IDS.find((id) => HAZARDS[id].cell === cell) ?? null;
+}
+
+/** An empty hazard map for a world of the given size */
+export function createHazardMap(size: number): number[][] {
+  return Array.from({ length: size }, () => new Array(size).fill(0));
+}
@@ -0,0 +1,64 @@
+/**
+ * Keycards and the locked doors they open. A locked door is a world map
+ * cell holding its keycard's doorCell value: it blocks movement and rays
+ * like a wall until the player bumps it while holding the matching card.
+ */
+
+export interface KeycardDefinition {
+  name: string;
+  hudLabel: string;
+  color: string; // Card, HUD and automap tint
+  doorColor: string; // Wall color of its locked doors
+  doorCell: number; // World map value of its locked doors
+  minFloor: number; // First campaign floor with this lock
+}
+
+export const KEYCARDS = {
+  red: {
+    name: "RED KEYCARD",
+    hudLabel: "RED",
+    color: "#EF4444",
+    doorColor: "#B91C1C",
+    doorCell: 30,
+    minFloor: 2,
+  },
+  blue: {
+    name: "BLUE KEYCARD",
+    hudLabel: "BLUE",
+    color: "#3B82F6",
+    doorColor: "#1D4ED8",
+    doorCell: 31,
+    minFloor: 4,
+  },
+  yellow: {
+    name: "YELLOW KEYCARD",
+    hudLabel: "YEL",
+    color: "#FACC15",
+    doorColor: "#CA8A04",
+    doorCell: 32,
+    minFloor: 7,
+  },
+} satisfies Record<string, KeycardDefinition>;
+
+export type KeycardId = keyof typeof KEYCARDS;
+
+/** Keycard ids in the order their locks are placed */
+export const KEYCARD_IDS = Object.keys(KEYCARDS) as KeycardId[];
+
+export function getKeycard(id: KeycardId): KeycardDefinition {
+  return KEYCARDS[id];
+}
+
+export function isKeycardId(value: unknown): value is KeycardId {
+  return typeof value === "string" && value in KEYCARDS;
+}
+
+/** The keycard a world map cell is locked with, or null if it's no locked door */
+export function getKeycardForDoor(cell: number): KeycardId | null {
+  return KEYCARD_IDS.find((id) => KEYCARDS[id].doorCell === cell) ?? null;
+}
+
+/** Keycards whose locks appear on a campaign floor */
+export function getFloorKeycards(floor: number): KeycardId[] {
+  return KEYCARD_IDS.filter((id) => KEYCARDS[id].minFloor <= floor);
+}
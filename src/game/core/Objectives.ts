@@ -0,0 +1,121 @@
+/**
+ * Per-floor win conditions for the campaign. Each floor rolls one objective
+ * when it is generated; the simulation checks it every tick and ends the
+ * floor on the victory screen once it's met.
+ */
+
+import { formatPlayTime } from "./Stats";
+
+export interface ObjectiveDefinition {
+  name: string; // HUD and instructions
+  color: string; // HUD tint
+  weight: number; // Relative chance on a regular floor, 0: never rolled
+  minFloor: number; // First campaign floor it can be rolled on
+}
+
+export const OBJECTIVES = {
+  exit: {
+    name: "REACH THE EXIT",
+    color: "#F97316",
+    weight: 3,
+    minFloor: 1,
+  },
+  kill_all: {
+    name: "KILL ALL ENEMIES",
+    color: "#EF4444",
+    weight: 2,
+    minFloor: 1,
+  },
+  survive: {
+    name: "SURVIVE",
+    color: "#FCD34D",
+    weight: 1,
+    minFloor: 3,
+  },
+  kill_boss: {
+    name: "KILL THE BOSS",
+    color: "#C084FC",
+    weight: 0, // Boss floors always get this one
+    minFloor: 5,
+  },
+} satisfies Record<string, ObjectiveDefinition>;
+
+export type ObjectiveId = keyof typeof OBJECTIVES;
+
+/** The objective of the floor being played and how far along it is */
+export interface FloorObjective {
+  id: ObjectiveId;
+  ticksLeft: number; // Survive: fixed ticks still to hold out, else 0
+  complete: boolean; // Set once met; exit floors when the switch is thrown
+}
+
+/** Ticks to hold out on a survive floor, before the per-floor increase */
+export const SURVIVE_BASE_TICKS = 60 * 60;
+
+/** Extra survive ticks for every campaign floor after the first */
+export const SURVIVE_TICKS_PER_FLOOR = 4 * 60;
+
+export const OBJECTIVE_IDS = Object.keys(OBJECTIVES) as ObjectiveId[];
+
+export function getObjective(id: ObjectiveId): ObjectiveDefinition {
+  return OBJECTIVES[id];
+}
+
+/**
+ * Pick a floor's objective from a single 0-1 roll, weighted. Boss floors
+ * are always about the boss.
+ */
+export function chooseObjective(
+  roll: number,
+  floor: number,
+  isBossFloor: boolean
+): FloorObjective {
+  if (isBossFloor) return createObjective("kill_boss", floor);
+
+  const available = OBJECTIVE_IDS.filter(
+    (id) => getObjective(id).weight > 0 && getObjective(id).minFloor <= floor
+  );
+  const total = available.reduce(
+    (sum, id) => sum + getObjective(id).weight,
+    0
+  );
+
+  let threshold = roll * total;
+  for (const id of available) {
+    threshold -= getObjective(id).weight;
+    if (threshold < 0) return createObjective(id, floor);
+  }
+  return createObjective("kill_all", floor);
+}
+
+export function createObjective(
+  id: ObjectiveId,
+  floor: number
+): FloorObjective {
+  return {
+    id,
+    ticksLeft:
+      id === "survive"
+        ? SURVIVE_BASE_TICKS + (floor - 1) * SURVIVE_TICKS_PER_FLOOR
+        : 0,
+    complete: false,
+  };
+}
+
+/**
+ * One-line HUD readout of an objective and what's left of it
+ */
+export function describeObjective(
+  objective: FloorObjective,
+  enemiesLeft: number
+): string {
+  const { name } = getObjective(objective.id);
+  switch (objective.id) {
+    case "kill_all":
+      return `${name} • ${enemiesLeft} LEFT`;
+    case "survive":
+      return `${name} ${formatPlayTime(objective.ticksLeft)}`;
+    default:
+      return name;
+  }
+}
@@ -0,0 +1,168 @@
+import type { WeaponId } from "./Weapons";
+
+/**
+ * Perks offered between floors. Clearing a floor rolls a few for the player
+ * to choose from; each pick adds a stack to Player.perks and the simulation
+ * reads the stacks wherever the perk's stat is used.
+ */
+
+export interface PerkDefinition {
+  name: string;
+  hudLabel: string;
+  description: string;
+  maxStacks: number;
+  requiresWeapon: WeaponId | null; // Only offered once the player has it
+  effect: {
+    maxHealth?: number; // Added to max health (and health) when picked
+    ammoCapacity?: number; // Fraction of the base max added to every ammo type when picked
+    fireRate?: { weapon: WeaponId; multiplier: number }; // On the refire delay
+    damageTaken?: number; // Multiplier on enemy damage
+    dropChance?: number; // Multiplier on enemy drop chances
+    pickupRange?: number; // Added to the pickup collection distance
+  };
+}
+
+export const PERKS = {
+  vitality: {
+    name: "VITALITY",
+    hudLabel: "VIT",
+    description: "+25 max health",
+    maxStacks: 4,
+    requiresWeapon: null,
+    effect: { maxHealth: 25 },
+  },
+  bandolier: {
+    name: "BANDOLIER",
+    hudLabel: "BAND",
+    description: "+50% ammo capacity",
+    maxStacks: 3,
+    requiresWeapon: null,
+    effect: { ammoCapacity: 0.5 },
+  },
+  pistol_drill: {
+    name: "QUICK DRAW",
+    hudLabel: "PIS+",
+    description: "Pistol fires 25% faster",
+    maxStacks: 2,
+    requiresWeapon: "pistol",
+    effect: { fireRate: { weapon: "pistol", multiplier: 0.75 } },
+  },
+  shotgun_drill: {
+    name: "PUMP ACTION",
+    hudLabel: "SHT+",
+    description: "Shotgun fires 25% faster",
+    maxStacks: 2,
+    requiresWeapon: "shotgun",
+    effect: { fireRate: { weapon: "shotgun", multiplier: 0.75 } },
+  },
+  chaingun_drill: {
+    name: "HOT BARREL",
+    hudLabel: "CHG+",
+    description: "Chaingun fires 25% faster",
+    maxStacks: 2,
+    requiresWeapon: "chaingun",
+    effect: { fireRate: { weapon: "chaingun", multiplier: 0.75 } },
+  },
+  iron_skin: {
+    name: "IRON SKIN",
+    hudLabel: "IRON",
+    description: "Take 15% less damage",
+    maxStacks: 3,
+    requiresWeapon: null,
+    effect: { damageTaken: 0.85 },
+  },
+  scavenger: {
+    name: "SCAVENGER",
+    hudLabel: "SCAV",
+    description: "Enemies drop items 25% more often",
+    maxStacks: 3,
+    requiresWeapon: null,
+    effect: { dropChance: 1.25 },
+  },
+  magnet: {
+    name: "MAGNET",
+    hudLabel: "MAG",
+    description: "Collect pickups from further away",
+    maxStacks: 2,
+    requiresWeapon: null,
+    effect: { pickupRange: 0.6 },
+  },
+} satisfies Record<string, PerkDefinition>;
+
+export type PerkId = keyof typeof PERKS;
+
+/** Stacks picked per perk */
+export type PerkStacks = Partial<Record<PerkId, number>>;
+
+/** Perks offered after each floor */
+export const PERK_CHOICES = 3;
+
+/** Every perk id, in table order */
+export const PERK_IDS = Object.keys(PERKS) as PerkId[];
+
+export function getPerk(id: PerkId): PerkDefinition {
+  return PERKS[id];
+}
+
+export function isPerkId(value: unknown): value is PerkId {
+  return typeof value === "string" && value in PERKS;
+}
+
+/**
+ * Perks that can still be offered: not maxed out and usable with the
+ * player's weapons
+ */
+export function getOfferablePerks(
+  perks: PerkStacks,
+  weapons: ReadonlySet<WeaponId>
+): PerkId[] {
+  return PERK_IDS.filter((id) => {
+    const perk = getPerk(id);
+    return (
+      (perks[id] ?? 0) < perk.maxStacks &&
+      (perk.requiresWeapon === null || weapons.has(perk.requiresWeapon))
+    );
+  });
+}
+
+// Product of a multiplier effect over every stack picked
+function stackedMultiplier(
+  perks: PerkStacks,
+  read: (perk: PerkDefinition) => number | undefined
+): number {
+  let multiplier = 1;
+  for (const id of PERK_IDS) {
+    const value = read(getPerk(id));
+    if (value !== undefined) {
+      multiplier *= value ** (perks[id] ?? 0);
+    }
+  }
+  return multiplier;
+}
+
+export function getFireRateMultiplier(
+  perks: PerkStacks,
+  weapon: WeaponId
+): number {
+  return stackedMultiplier(perks, (perk) =>
+    perk.effect.fireRate?.weapon === weapon
+      ? perk.effect.fireRate.multiplier
+      : undefined
+  );
+}
+
+export function getDamageTakenMultiplier(perks: PerkStacks): number {
+  return stackedMultiplier(perks, (perk) => perk.effect.damageTaken);
+}
+
+export function getDropChanceMultiplier(perks: PerkStacks): number {
+  return stackedMultiplier(perks, (perk) => perk.effect.dropChance);
+}
+
+export function getPickupRangeBonus(perks: PerkStacks): number {
+  return PERK_IDS.reduce(
+    (sum, id) => sum + (getPerk(id).effect.pickupRange ?? 0) * (perks[id] ?? 0),
+    0
+  );
+}
+
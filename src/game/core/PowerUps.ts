@@ -0,0 +1,178 @@
+/**
+ * Timed power-ups. Picking one up starts (or restarts) its countdown in
+ * Player.powerUps; the simulation, renderer, HUD and audio check the
+ * remaining ticks to apply the effect while it lasts.
+ */
+
+export interface PowerUpDefinition {
+  name: string;
+  hudLabel: string;
+  duration: number; // Ticks the effect lasts
+  color: string; // HUD timer, pickup glow and sprite tint
+  rarity: {
+    weight: number; // Relative chance when a floor places a power-up, 0: never
+    minFloor: number; // First campaign floor it can appear on
+  };
+  effect: {
+    invulnerable?: boolean; // Enemy attacks deal no damage
+    restoreHealth?: boolean; // Heals to max health on pickup
+    meleeDamage?: { range: number; multiplier: number }; // Point-blank hits count as melee
+    detectionChance?: number; // Chance per second an enemy that sees the player notices them
+    missChance?: number; // Chance an enemy attack misses outright
+    fullBright?: boolean; // Renderer drops its shading
+    hazardProof?: boolean; // Hazard floors deal no damage
+  };
+}
+
+export const POWER_UPS = {
+  invulnerability: {
+    name: "INVULNERABILITY",
+    hudLabel: "INVULN",
+    duration: 30 * 60,
+    color: "#E5E7EB",
+    rarity: { weight: 1, minFloor: 5 },
+    effect: { invulnerable: true },
+  },
+  berserk: {
+    name: "BERSERK",
+    hudLabel: "BERSERK",
+    duration: 30 * 60,
+    color: "#DC2626",
+    rarity: { weight: 3, minFloor: 1 },
+    effect: {
+      restoreHealth: true,
+      meleeDamage: { range: 2, multiplier: 4 },
+    },
+  },
+  invisibility: {
+    name: "PARTIAL INVISIBILITY",
+    hudLabel: "INVIS",
+    duration: 60 * 60,
+    color: "#A78BFA",
+    rarity: { weight: 2, minFloor: 3 },
+    effect: { detectionChance: 0.25, missChance: 0.6 },
+  },
+  light_amp: {
+    name: "LIGHT AMPLIFICATION",
+    hudLabel: "LITE",
+    duration: 120 * 60,
+    color: "#4ADE80",
+    rarity: { weight: 3, minFloor: 1 },
+    effect: { fullBright: true },
+  },
+  radiation_suit: {
+    name: "RADIATION SUIT",
+    hudLabel: "SUIT",
+    duration: 60 * 60,
+    color: "#84CC16",
+    rarity: { weight: 0, minFloor: 1 }, // Only left next to hazard floors
+    effect: { hazardProof: true },
+  },
+} satisfies Record<string, PowerUpDefinition>;
+
+export type PowerUpId = keyof typeof POWER_UPS;
+
+/** Ticks left on each active power-up */
+export type PowerUpTimers = Partial<Record<PowerUpId, number>>;
+
+/** Chance a floor places a power-up, before skill scaling */
+export const POWER_UP_FLOOR_CHANCE = 0.4;
+
+/** Ticks before running out at which the screen effects start to blink */
+export const POWER_UP_WARNING_TICKS = 2 * 60;
+
+/** Every power-up id, in table order */
+export const POWER_UP_IDS = Object.keys(POWER_UPS) as PowerUpId[];
+
+export function getPowerUp(id: PowerUpId): PowerUpDefinition {
+  return POWER_UPS[id];
+}
+
+export function isPowerUpId(value: unknown): value is PowerUpId {
+  return typeof value === "string" && value in POWER_UPS;
+}
+
+export function isPowerUpActive(timers: PowerUpTimers, id: PowerUpId): boolean {
+  return (timers[id] ?? 0) > 0;
+}
+
+/**
+ * Pick a power-up for a floor from a single 0-1 roll, weighted by rarity.
+ * Returns null when nothing can appear on the floor yet.
+ */
+export function choosePowerUp(roll: number, floor: number): PowerUpId | null {
+  const available = POWER_UP_IDS.filter(
+    (id) =>
+      getPowerUp(id).rarity.weight > 0 &&
+      getPowerUp(id).rarity.minFloor <= floor
+  );
+  const total = available.reduce(
+    (sum, id) => sum + getPowerUp(id).rarity.weight,
+    0
+  );
+
+  let threshold = roll * total;
+  for (const id of available) {
+    threshold -= getPowerUp(id).rarity.weight;
+    if (threshold < 0) return id;
+  }
+  return available[available.length - 1] ?? null;
+}
+
+/**
+ * Multiplier on a hit's damage from active power-ups (berserk on
+ * point-blank hits)
+ */
+export function getMeleeDamageMultiplier(
+  timers: PowerUpTimers,
+  distance: number
+): number {
+  return POWER_UP_IDS.reduce((multiplier, id) => {
+    const melee = getPowerUp(id).effect.meleeDamage;
+    return melee && isPowerUpActive(timers, id) && distance <= melee.range
+      ? multiplier * melee.multiplier
+      : multiplier;
+  }, 1);
+}
+
+/**
+ * Chance that an enemy seeing the player for `seconds` notices them
+ * (1: always). The per-second chances are scaled to the span, so rolling
+ * every tick adds up to the same rate at any tick length.
+ */
+export function getDetectionChance(
+  timers: PowerUpTimers,
+  seconds: number
+): number {
+  const perSecond = POWER_UP_IDS.reduce(
+    (chance, id) =>
+      isPowerUpActive(timers, id)
+        ? chance * (getPowerUp(id).effect.detectionChance ?? 1)
+        : chance,
+    1
+  );
+  return perSecond >= 1 ? 1 : 1 - (1 - perSecond) ** seconds;
+}
+
+/** Chance an enemy attack misses the player outright */
+export function getEnemyMissChance(timers: PowerUpTimers): number {
+  return POWER_UP_IDS.reduce(
+    (chance, id) =>
+      isPowerUpActive(timers, id)
+        ? Math.max(chance, getPowerUp(id).effect.missChance ?? 0)
+        : chance,
+    0
+  );
+}
+
+/**
+ * Whether any active power-up has the effect flag set
+ */
+export function hasPowerUpEffect(
+  timers: PowerUpTimers,
+  effect: "invulnerable" | "fullBright" | "hazardProof"
+): boolean {
+  return POWER_UP_IDS.some(
+    (id) => isPowerUpActive(timers, id) && getPowerUp(id).effect[effect]
+  );
+}
@@ -0,0 +1,180 @@
+import {
+  CRUSHER_CELL,
+  getCrusherAt,
+  getCrusherOpenFraction,
+  type Crusher,
+} from "./Crushers";
+import {
+  DOOR_CELL,
+  getDoorAt,
+  getDoorOpenFraction,
+  type Door,
+} from "./Doors";
+
+/**
+ * Grid raycasting and collision shared by the simulation and the renderer.
+ * Pure functions over the world map - no canvas, DOM or audio dependencies,
+ * so the simulation can run headless.
+ */
+
+export interface RayHit {
+  distance: number;
+  side: number;
+  wallType: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * DDA raycast from a point until it hits a non-empty cell. With the floor's
+ * doors and crushers given, their sliding panels are hit on the plane
+ * through the middle of the cell and only where the panel hasn't slid away;
+ * without them those cells are solid like walls.
+ */
+export function castRay(
+  startX: number,
+  startY: number,
+  angle: number,
+  worldMap: number[][],
+  doors?: readonly Door[],
+  crushers?: readonly Crusher[]
+): RayHit {
+  const rayDirX = Math.cos(angle);
+  const rayDirY = Math.sin(angle);
+
+  let mapX = Math.floor(startX);
+  let mapY = Math.floor(startY);
+
+  const deltaDistX = Math.abs(1 / rayDirX);
+  const deltaDistY = Math.abs(1 / rayDirY);
+
+  let stepX: number;
+  let stepY: number;
+  let sideDistX: number;
+  let sideDistY: number;
+
+  if (rayDirX < 0) {
+    stepX = -1;
+    sideDistX = (startX - mapX) * deltaDistX;
+  } else {
+    stepX = 1;
+    sideDistX = (mapX + 1.0 - startX) * deltaDistX;
+  }
+
+  if (rayDirY < 0) {
+    stepY = -1;
+    sideDistY = (startY - mapY) * deltaDistY;
+  } else {
+    stepY = 1;
+    sideDistY = (mapY + 1.0 - startY) * deltaDistY;
+  }
+
+  let hit = 0;
+  let side = 0;
+
+  while (hit === 0) {
+    if (sideDistX < sideDistY) {
+      sideDistX += deltaDistX;
+      mapX += stepX;
+      side = 0;
+    } else {
+      sideDistY += deltaDistY;
+      mapY += stepY;
+      side = 1;
+    }
+
+    if (worldMap[mapY] && worldMap[mapY][mapX] > 0) {
+      const cell = worldMap[mapY][mapX];
+      const found = getPanelAt(cell, mapX, mapY, doors, crushers);
+      if (!found) {
+        hit = 1;
+        continue;
+      }
+
+      const panelHit = hitPanel(
+        found.panel,
+        found.openFraction,
+        startX,
+        startY,
+        rayDirX,
+        rayDirY,
+        side === 0 ? sideDistX - deltaDistX : sideDistY - deltaDistY,
+        Math.min(sideDistX, sideDistY)
+      );
+      if (panelHit) {
+        return { ...panelHit, wallType: cell, x: mapX, y: mapY };
+      }
+    }
+  }
+
+  let perpWallDist: number;
+  if (side === 0) {
+    perpWallDist = (mapX - startX + (1 - stepX) / 2) / rayDirX;
+  } else {
+    perpWallDist = (mapY - startY + (1 - stepY) / 2) / rayDirY;
+  }
+
+  return {
+    distance: perpWallDist,
+    side,
+    wallType: worldMap[mapY][mapX],
+    x: mapX,
+    y: mapY,
+  };
+}
+
+// The sliding panel of the door or crusher in a cell and how far it has
+// slid away, or null if the cell is drawn solid
+function getPanelAt(
+  cell: number,
+  x: number,
+  y: number,
+  doors?: readonly Door[],
+  crushers?: readonly Crusher[]
+): { panel: Door | Crusher; openFraction: number } | null {
+  const door = doors && cell === DOOR_CELL ? getDoorAt(doors, x, y) : null;
+  if (door) return { panel: door, openFraction: getDoorOpenFraction(door) };
+
+  const crusher =
+    crushers && cell === CRUSHER_CELL ? getCrusherAt(crushers, x, y) : null;
+  if (crusher) {
+    return { panel: crusher, openFraction: getCrusherOpenFraction(crusher) };
+  }
+  return null;
+}
+
+// Where a ray crossing a door or crusher cell between the entry and exit
+// distances meets its panel, or null if it slips through the open part
+function hitPanel(
+  panel: Door | Crusher,
+  openFraction: number,
+  startX: number,
+  startY: number,
+  rayDirX: number,
+  rayDirY: number,
+  entry: number,
+  exit: number
+): { distance: number; side: number } | null {
+  const alongX = panel.axis === "x";
+  const distance = alongX
+    ? (panel.x + 0.5 - startX) / rayDirX
+    : (panel.y + 0.5 - startY) / rayDirY;
+  if (!(distance >= entry && distance < exit)) return null;
+
+  // The panel slides into the wall past the cell's high edge, so the gap
+  // opens up from the low edge
+  const offset = alongX
+    ? startY + distance * rayDirY - panel.y
+    : startX + distance * rayDirX - panel.x;
+  if (offset < openFraction) return null;
+
+  return { distance, side: alongX ? 0 : 1 };
+}
+
+/**
+ * Check whether a world position is inside the map and on an empty cell
+ */
+export function isWalkable(worldMap: number[][], x: number, y: number): boolean {
+  const row = worldMap[Math.floor(y)];
+  return row !== undefined && row[Math.floor(x)] === 0;
+}
@@ -0,0 +1,45 @@
+/**
+ * Secret push-walls. A push-wall holds the same world map value as the
+ * walls around it, so it looks and blocks like them until the player uses
+ * it; then it slides back a cell at a time, opening up the hidden room
+ * behind it, and counts as a secret found.
+ */
+
+export interface PushWall {
+  x: number; // Cell it fills now
+  y: number;
+  dx: number; // Direction it slides when pushed
+  dy: number;
+  wallType: number; // World map value it carries along
+  state: "hidden" | "sliding" | "found";
+  slide: number; // Cells left to slide
+  timer: number; // Ticks until it moves another cell
+}
+
+/** Chance a campaign floor hides a secret */
+export const SECRET_CHANCE = 0.75;
+
+/** Cells a push-wall slides back, unless something stops it sooner */
+export const PUSH_WALL_DISTANCE = 2;
+
+/** Ticks a push-wall takes to move one cell */
+export const PUSH_WALL_STEP_TICKS = 30;
+
+export function createPushWall(
+  x: number,
+  y: number,
+  dx: number,
+  dy: number,
+  wallType: number
+): PushWall {
+  return { x, y, dx, dy, wallType, state: "hidden", slide: 0, timer: 0 };
+}
+
+/** The push-wall filling a world map cell, if any */
+export function getPushWallAt(
+  pushWalls: readonly PushWall[],
+  x: number,
+  y: number
+): PushWall | undefined {
+  return pushWalls.find((wall) => wall.x === x && wall.y === y);
+}
@@ -0,0 +1,80 @@
+/**
+ * Seeded random number generator for deterministic procedural generation
+ * @author @darianrosebrook
+ */
+export class SeededRandom {
+  private seed: number;
+
+  constructor(seed: number) {
+    this.seed = seed;
+  }
+
+  /**
+   * Generate a pseudo-random number between 0 and 1
+   */
+  next(): number {
+    this.seed = (this.seed * 9301 + 49297) % 233280;
+    return this.seed / 233280;
+  }
+
+  /**
+   * Generate a random integer between min and max (inclusive)
+   */
+  nextInt(min: number, max: number): number {
+    return Math.floor(this.next() * (max - min + 1)) + min;
+  }
+
+  /**
+   * Choose a random element from an array
+   */
+  choose<T>(array: T[]): T {
+    return array[this.nextInt(0, array.length - 1)];
+  }
+
+  /**
+   * Current internal state, so a generator can be saved and resumed mid-stream
+   */
+  getState(): number {
+    return this.seed;
+  }
+}
+
+/**
+ * Hash an arbitrary string into an unsigned 32-bit seed (FNV-1a)
+ */
+export function hashSeed(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Derive the seed for a single floor from the run seed, so any floor can be
+ * regenerated on its own without replaying the floors before it
+ */
+export function deriveFloorSeed(runSeed: number, floor: number): number {
+  return hashSeed(`${runSeed >>> 0}:${floor}`);
+}
+
+/**
+ * Pick a fresh run seed when the player didn't supply one
+ */
+export function createRunSeed(): number {
+  return Math.floor(Math.random() * 0xffffffff) >>> 0;
+}
+
+/**
+ * Parse a user-entered seed. Plain integers are used as-is, anything else is
+ * hashed so players can share memorable word seeds. Returns null for blank input.
+ */
+export function parseSeed(input: string): number | null {
+  const trimmed = input.trim();
+  if (trimmed.length === 0) return null;
+  if (/^\d+$/.test(trimmed)) {
+    return Number(BigInt(trimmed) % 0x100000000n);
+  }
+  return hashSeed(trimmed);
+}
@@ -0,0 +1,112 @@
+import {
+  GameStateManager,
+  type GameMode,
+  type GameState,
+  type MovementInput,
+  type TickInput,
+} from "./GameStateManager";
+import type { SkillId } from "./Skills";
+
+/**
+ * Scripted input for a headless run: either a fixed list of per-tick inputs
+ * (ticks past the end get empty input) or a function that decides each tick,
+ * which is how bots react to the current state.
+ */
+export type InputScript =
+  | TickInput[]
+  | ((tick: number, state: Readonly<GameState>) => TickInput);
+
+export interface SimulationOptions {
+  seed?: number;
+  skill?: SkillId;
+  mode?: GameMode;
+}
+
+const IDLE_MOVEMENT: MovementInput = {
+  forward: false,
+  backward: false,
+  left: false,
+  right: false,
+  rotateLeft: false,
+  rotateRight: false,
+};
+
+/**
+ * Build a tick input, defaulting everything that isn't specified to "do nothing"
+ */
+export function createTickInput(
+  input: Partial<Omit<TickInput, "movement">> & {
+    movement?: Partial<MovementInput>;
+  } = {}
+): TickInput {
+  return {
+    movement: { ...IDLE_MOVEMENT, ...input.movement },
+    mouseDeltaX: input.mouseDeltaX ?? 0,
+    fire: input.fire ?? false,
+    use: input.use ?? false,
+    weaponSwitch: input.weaponSwitch ?? null,
+  };
+}
+
+/**
+ * Headless simulation core
+ *
+ * Steps the game in fixed ticks from scripted input with no dependency on
+ * canvas, audio or the DOM, so bots, balance sweeps and regression tests can
+ * run in Node on CI machines.
+ * @author @darianrosebrook
+ */
+export class Simulation {
+  private manager: GameStateManager;
+  private tickCount = 0;
+
+  constructor(options: SimulationOptions = {}) {
+    this.manager = new GameStateManager(
+      options.seed,
+      options.skill,
+      options.mode
+    );
+  }
+
+  /**
+   * Advance one fixed tick
+   */
+  public step(input: TickInput = createTickInput()): Readonly<GameState> {
+    this.manager.tick(input);
+    this.tickCount++;
+    return this.manager.getState();
+  }
+
+  /**
+   * Advance N fixed ticks, pulling each tick's input from the script.
+   * Stops early once the floor is won or lost.
+   */
+  public run(ticks: number, script: InputScript = []): Readonly<GameState> {
+    for (let i = 0; i < ticks; i++) {
+      const state = this.manager.getState();
+      if (state.gameStatus !== "playing") break;
+
+      const input =
+        typeof script === "function"
+          ? script(this.tickCount, state)
+          : script[i] ?? createTickInput();
+      this.step(input);
+    }
+    return this.manager.getState();
+  }
+
+  public getState(): Readonly<GameState> {
+    return this.manager.getState();
+  }
+
+  public getTick(): number {
+    return this.tickCount;
+  }
+
+  /**
+   * Direct access for scenarios that need to set up state (e.g. skip a floor)
+   */
+  public getManager(): GameStateManager {
+    return this.manager;
+  }
+}
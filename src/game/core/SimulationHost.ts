@@ -0,0 +1,426 @@
+import type { GameStateForMusic } from "../systems/AudioSystem";
+import { runConsoleCommand, type ConsoleResult } from "./DevConsole";
+import { GameEventBus } from "./GameEvents";
+import {
+  GameStateManager,
+  type GameState,
+  type InterpolatedPositions,
+  type SimulationFrameStats,
+  type TickInput,
+} from "./GameStateManager";
+import type { PerkId } from "./Perks";
+import {
+  SIMULATION_PROTOCOL_VERSION,
+  applyCollectionDiff,
+  type SimulationRequest,
+  type SimulationResponse,
+} from "./SimulationProtocol";
+
+/**
+ * What the engine needs from the simulation, wherever it runs. Reads return
+ * the latest state known on the main thread; commands are applied in the
+ * order they are issued.
+ */
+export interface SimulationHost {
+  getState(): Readonly<GameState>;
+  getRngState(): number;
+  getInterpolatedPositions(): InterpolatedPositions;
+  getGameStateForMusic(): GameStateForMusic;
+  /** Ticks run and rays cast by the latest frame */
+  getFrameStats(): SimulationFrameStats;
+  getEvents(): GameEventBus;
+  subscribe(listener: (state: GameState) => void): () => void;
+  /**
+   * Queue a frame's input and run its fixed ticks - exactly `ticks` for demo
+   * playback, otherwise as many as wall-clock time allows. Resolves with the
+   * number of ticks run once getState() reflects the frame, or rejects if
+   * the frame was lost along with the simulation running it.
+   */
+  runFrame(
+    input: TickInput,
+    currentTime: number,
+    ticks?: number | null
+  ): Promise<number>;
+  idle(currentTime: number): void;
+  togglePause(): void;
+  pause(): void;
+  resume(): void;
+  progressToNextFloor(perk: PerkId | null): void;
+  reset(): void;
+  loadState(state: GameState, rngState: number): void;
+  /** Run a developer console line; resolves once getState() reflects it */
+  runCommand(line: string): Promise<ConsoleResult>;
+  dispose(): void;
+}
+
+/**
+ * Runs the simulation on the main thread, for environments without workers
+ * @author @darianrosebrook
+ */
+export class LocalSimulationHost implements SimulationHost {
+  private manager: GameStateManager;
+
+  constructor(manager: GameStateManager) {
+    this.manager = manager;
+  }
+
+  public getState(): Readonly<GameState> {
+    return this.manager.getState();
+  }
+
+  public getRngState(): number {
+    return this.manager.getRngState();
+  }
+
+  public getInterpolatedPositions(): InterpolatedPositions {
+    return this.manager.getInterpolatedPositions();
+  }
+
+  public getGameStateForMusic(): GameStateForMusic {
+    return this.manager.getGameStateForMusic();
+  }
+
+  public getFrameStats(): SimulationFrameStats {
+    return this.manager.getFrameStats();
+  }
+
+  public getEvents(): GameEventBus {
+    return this.manager.getEvents();
+  }
+
+  public subscribe(listener: (state: GameState) => void): () => void {
+    return this.manager.subscribe(listener);
+  }
+
+  public runFrame(
+    input: TickInput,
+    currentTime: number,
+    ticks: number | null = null
+  ): Promise<number> {
+    this.manager.queueInput(input);
+    if (ticks === null) {
+      return Promise.resolve(this.manager.updateWithDeltaTime(currentTime));
+    }
+
+    this.manager.advanceFixedTicks(ticks, currentTime);
+    return Promise.resolve(ticks);
+  }
+
+  public idle(currentTime: number): void {
+    this.manager.updateWithDeltaTime(currentTime);
+  }
+
+  public togglePause(): void {
+    this.manager.togglePause();
+  }
+
+  public pause(): void {
+    this.manager.pause();
+  }
+
+  public resume(): void {
+    this.manager.resume();
+  }
+
+  public progressToNextFloor(perk: PerkId | null): void {
+    this.manager.progressToNextFloor(perk);
+  }
+
+  public reset(): void {
+    this.manager.reset();
+  }
+
+  public loadState(state: GameState, rngState: number): void {
+    this.manager.loadState(state, rngState);
+  }
+
+  public runCommand(line: string): Promise<ConsoleResult> {
+    return Promise.resolve(runConsoleCommand(this.manager, line));
+  }
+
+  public dispose(): void {}
+}
+
+/**
+ * Runs the simulation in a dedicated worker and mirrors the state it sends
+ * back, so raycasting and React work on the main thread don't compete with it.
+ * If the worker fails it is torn down and the simulation carries on from the
+ * last state it sent, on the main thread.
+ * @author @darianrosebrook
+ */
+export class WorkerSimulationHost implements SimulationHost {
+  private worker: Worker;
+  private fallback: LocalSimulationHost | null = null;
+  private state: GameState;
+  private rngState: number;
+  private positions: InterpolatedPositions;
+  private music: GameStateForMusic;
+  private frameStats: SimulationFrameStats;
+  private events = new GameEventBus();
+  private listeners: Array<(state: GameState) => void> = [];
+  private pendingFrames = new Map<
+    number,
+    { resolve: (ticks: number) => void; reject: (error: Error) => void }
+  >();
+  private nextFrameId = 1;
+  private pendingCommands = new Map<number, (result: ConsoleResult) => void>();
+  private nextCommandId = 1;
+
+  /**
+   * @param worker Worker running simulation.worker.ts
+   * @param initial Manager holding the starting state; it is handed to the
+   * worker and not stepped on this thread
+   */
+  constructor(worker: Worker, initial: GameStateManager) {
+    this.worker = worker;
+    this.state = { ...initial.getState() };
+    this.rngState = initial.getRngState();
+    this.positions = initial.getInterpolatedPositions();
+    this.music = initial.getGameStateForMusic();
+    this.frameStats = initial.getFrameStats();
+
+    this.worker.onmessage = (event: MessageEvent<SimulationResponse>) =>
+      this.handleResponse(event.data);
+    this.worker.onerror = (event) => {
+      this.fail(event.message);
+    };
+
+    this.post({
+      type: "init",
+      version: SIMULATION_PROTOCOL_VERSION,
+      state: this.state,
+      rngState: this.rngState,
+    });
+  }
+
+  private post(request: SimulationRequest): void {
+    this.worker.postMessage(request);
+  }
+
+  private handleResponse(response: SimulationResponse): void {
+    switch (response.type) {
+      case "ready":
+        break;
+      case "error":
+        this.fail(response.message);
+        break;
+      case "update": {
+        const { update } = response;
+        // Updates only carry what changed; keep the rest of the mirror
+        this.state = {
+          ...this.state,
+          ...update.state,
+          enemies: applyCollectionDiff(this.state.enemies, update.enemies),
+          pickups: applyCollectionDiff(this.state.pickups, update.pickups),
+          worldMap: update.worldMap ?? this.state.worldMap,
+          hazardMap: update.hazardMap ?? this.state.hazardMap,
+        };
+        this.rngState = update.rngState;
+        this.positions = update.positions;
+        this.music = update.music;
+        this.frameStats = update.frameStats;
+
+        response.events.forEach((event) =>
+          this.events.emit(event.type, event.payload)
+        );
+
+        if (response.frameId !== null) {
+          const pending = this.pendingFrames.get(response.frameId);
+          this.pendingFrames.delete(response.frameId);
+          pending?.resolve(response.ticks);
+        }
+        this.listeners.forEach((listener) => listener({ ...this.state }));
+        break;
+      }
+      case "commandResult": {
+        const resolve = this.pendingCommands.get(response.commandId);
+        this.pendingCommands.delete(response.commandId);
+        resolve?.(response.result);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Drop the worker and keep the game going on the main thread from the
+   * last state it sent. Frames and commands still waiting on the worker are
+   * lost with it, so they are settled here rather than left hanging.
+   */
+  private fail(message: string): void {
+    if (this.fallback) return;
+    console.warn(
+      "Simulation worker failed, continuing on the main thread:",
+      message
+    );
+    this.worker.onmessage = null;
+    this.worker.onerror = null;
+    this.worker.terminate();
+
+    const manager = GameStateManager.fromState(this.state, this.rngState);
+    this.fallback = new LocalSimulationHost(manager);
+    manager
+      .getEvents()
+      .onAny((event) => this.events.emit(event.type, event.payload));
+    manager.subscribe((state) =>
+      this.listeners.forEach((listener) => listener(state))
+    );
+
+    const lost = new Error(`Simulation worker failed: ${message}`);
+    this.pendingFrames.forEach(({ reject }) => reject(lost));
+    this.pendingFrames.clear();
+    this.pendingCommands.forEach((resolve) =>
+      resolve({ ok: false, message: lost.message })
+    );
+    this.pendingCommands.clear();
+  }
+
+  public getState(): Readonly<GameState> {
+    return this.fallback?.getState() ?? { ...this.state };
+  }
+
+  public getRngState(): number {
+    return this.fallback?.getRngState() ?? this.rngState;
+  }
+
+  public getInterpolatedPositions(): InterpolatedPositions {
+    return this.fallback?.getInterpolatedPositions() ?? this.positions;
+  }
+
+  public getGameStateForMusic(): GameStateForMusic {
+    return this.fallback?.getGameStateForMusic() ?? this.music;
+  }
+
+  public getFrameStats(): SimulationFrameStats {
+    return this.fallback?.getFrameStats() ?? this.frameStats;
+  }
+
+  public getEvents(): GameEventBus {
+    return this.events;
+  }
+
+  public subscribe(listener: (state: GameState) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  public runFrame(
+    input: TickInput,
+    currentTime: number,
+    ticks: number | null = null
+  ): Promise<number> {
+    if (this.fallback) {
+      return this.fallback.runFrame(input, currentTime, ticks);
+    }
+
+    const frameId = this.nextFrameId++;
+    return new Promise((resolve, reject) => {
+      this.pendingFrames.set(frameId, { resolve, reject });
+      this.post({ type: "frame", frameId, input, currentTime, ticks });
+    });
+  }
+
+  public idle(currentTime: number): void {
+    if (this.fallback) {
+      this.fallback.idle(currentTime);
+      return;
+    }
+    this.post({ type: "idle", currentTime });
+  }
+
+  public togglePause(): void {
+    if (this.fallback) {
+      this.fallback.togglePause();
+      return;
+    }
+    this.post({ type: "togglePause" });
+  }
+
+  public pause(): void {
+    if (this.fallback) {
+      this.fallback.pause();
+      return;
+    }
+    this.post({ type: "pause" });
+  }
+
+  public resume(): void {
+    if (this.fallback) {
+      this.fallback.resume();
+      return;
+    }
+    this.post({ type: "resume" });
+  }
+
+  public progressToNextFloor(perk: PerkId | null): void {
+    if (this.fallback) {
+      this.fallback.progressToNextFloor(perk);
+      return;
+    }
+    this.post({ type: "progressFloor", perk });
+  }
+
+  public reset(): void {
+    if (this.fallback) {
+      this.fallback.reset();
+      return;
+    }
+    this.post({ type: "reset" });
+  }
+
+  public loadState(state: GameState, rngState: number): void {
+    if (this.fallback) {
+      this.fallback.loadState(state, rngState);
+      return;
+    }
+    // Show the loaded game right away rather than after the round trip
+    this.state = { ...state };
+    this.rngState = rngState;
+    this.post({ type: "load", state, rngState });
+  }
+
+  public runCommand(line: string): Promise<ConsoleResult> {
+    if (this.fallback) {
+      return this.fallback.runCommand(line);
+    }
+
+    const commandId = this.nextCommandId++;
+    return new Promise((resolve) => {
+      this.pendingCommands.set(commandId, resolve);
+      this.post({ type: "command", commandId, line });
+    });
+  }
+
+  public dispose(): void {
+    this.worker.terminate();
+    this.fallback?.dispose();
+    this.pendingFrames.clear();
+    this.pendingCommands.clear();
+    this.listeners = [];
+  }
+}
+
+/**
+ * Host the simulation in a worker when the environment supports it,
+ * otherwise fall back to running it on the main thread
+ */
+export function createSimulationHost(manager: GameStateManager): SimulationHost {
+  if (typeof Worker === "undefined") {
+    return new LocalSimulationHost(manager);
+  }
+
+  try {
+    const worker = new Worker(
+      new URL("./simulation.worker.ts", import.meta.url),
+      { type: "module" }
+    );
+    return new WorkerSimulationHost(worker, manager);
+  } catch (error) {
+    console.warn("Simulation worker unavailable, using main thread:", error);
+    return new LocalSimulationHost(manager);
+  }
+}
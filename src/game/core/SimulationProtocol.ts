@@ -0,0 +1,156 @@
+import type { GameStateForMusic } from "../systems/AudioSystem";
+import type { ConsoleResult } from "./DevConsole";
+import type { GameEvent } from "./GameEvents";
+import type {
+  Enemy,
+  GameState,
+  InterpolatedPositions,
+  Pickup,
+  SimulationFrameStats,
+  TickInput,
+} from "./GameStateManager";
+import type { PerkId } from "./Perks";
+
+/**
+ * Message protocol between the main thread and the simulation worker.
+ * Bump this whenever a message changes shape; the worker refuses to start
+ * for a host speaking a different version.
+ */
+export const SIMULATION_PROTOCOL_VERSION = 7;
+
+/** Messages sent to the worker */
+export type SimulationRequest =
+  | {
+      type: "init";
+      version: number;
+      state: GameState; // Starting state, built on the main thread
+      rngState: number;
+    }
+  | {
+      type: "frame";
+      frameId: number;
+      input: TickInput;
+      currentTime: number;
+      ticks: number | null; // Exact tick count for demo playback, else wall-clock
+    }
+  | { type: "idle"; currentTime: number } // Paused frame, keeps the clock fresh
+  | { type: "togglePause" }
+  | { type: "pause" }
+  | { type: "resume" }
+  | { type: "progressFloor"; perk: PerkId | null } // Perk picked on the victory screen
+  | { type: "reset" }
+  | { type: "load"; state: GameState; rngState: number }
+  | { type: "command"; commandId: number; line: string }; // Developer console
+
+/**
+ * Changes to a collection of entities since the last update. Entities are
+ * matched by id; the host keeps its copy of any entity left out.
+ */
+export interface CollectionDiff<T> {
+  ids: number[]; // Every entity now in the collection, in order
+  changed: T[]; // Entities that are new or changed since the last update
+}
+
+/**
+ * Everything the main thread needs to render and save after a frame, as
+ * changes since the last update. Fields in `state` are only sent when they
+ * changed, enemies and pickups only as the entities that changed, and the
+ * world and hazard maps, which only change with the floor, only when they
+ * were replaced; null means unchanged.
+ */
+export interface StateUpdate {
+  state: Partial<
+    Omit<GameState, "worldMap" | "hazardMap" | "enemies" | "pickups">
+  >;
+  enemies: CollectionDiff<Enemy> | null;
+  pickups: CollectionDiff<Pickup> | null;
+  worldMap: number[][] | null;
+  hazardMap: number[][] | null;
+  rngState: number;
+  positions: InterpolatedPositions;
+  music: GameStateForMusic;
+  frameStats: SimulationFrameStats;
+}
+
+/** Messages sent back from the worker */
+export type SimulationResponse =
+  | { type: "ready"; version: number }
+  | {
+      type: "update";
+      frameId: number | null; // Set when answering a frame request
+      ticks: number;
+      update: StateUpdate;
+      events: GameEvent[]; // Emitted since the previous update, in order
+    }
+  | { type: "commandResult"; commandId: number; result: ConsoleResult }
+  | { type: "error"; message: string };
+
+/**
+ * Comparable snapshot of a state value, for telling whether it changed
+ * since it was last sent. Sets are written out as their entries.
+ */
+export function serializeForDiff(value: unknown): string {
+  return JSON.stringify(value, (_key, entry) =>
+    entry instanceof Set ? Array.from(entry) : entry
+  );
+}
+
+/**
+ * What the host last received of a collection: the id order and each
+ * entity serialized
+ */
+export interface SentCollection {
+  ids: number[];
+  entities: Map<number, string>;
+}
+
+export function createSentCollection(): SentCollection {
+  return { ids: [], entities: new Map() };
+}
+
+/**
+ * Work out which entities changed since they were last sent, updating
+ * `sent` to match. Returns null when nothing changed.
+ */
+export function diffCollection<T extends { id: number }>(
+  items: readonly T[],
+  sent: SentCollection
+): CollectionDiff<T> | null {
+  const ids = items.map((item) => item.id);
+  const changed: T[] = [];
+  for (const item of items) {
+    const serialized = serializeForDiff(item);
+    if (sent.entities.get(item.id) !== serialized) {
+      sent.entities.set(item.id, serialized);
+      changed.push(item);
+    }
+  }
+
+  const sameIds =
+    ids.length === sent.ids.length &&
+    ids.every((id, index) => id === sent.ids[index]);
+  if (changed.length === 0 && sameIds) return null;
+
+  if (sent.entities.size > ids.length) {
+    const present = new Set(ids);
+    sent.entities.forEach((_, id) => {
+      if (!present.has(id)) sent.entities.delete(id);
+    });
+  }
+  sent.ids = ids;
+  return { ids, changed };
+}
+
+/**
+ * Rebuild a collection from the host's previous copy and a diff
+ */
+export function applyCollectionDiff<T extends { id: number }>(
+  previous: readonly T[],
+  diff: CollectionDiff<T> | null
+): T[] {
+  if (!diff) return previous as T[];
+
+  const byId = new Map(previous.map((item) => [item.id, item]));
+  diff.changed.forEach((item) => byId.set(item.id, item));
+  return diff.ids.map((id) => byId.get(id)!);
+}
@@ -0,0 +1,96 @@
+/**
+ * Skill levels, chosen on the start screen and kept for the whole run. The
+ * simulation scales its tuning by the run's entry here; "medium" leaves
+ * every value as it was before skill levels existed.
+ */
+
+export interface SkillLevel {
+  name: string;
+  hudLabel: string;
+  enemyDamage: number; // Multiplier on enemy attack damage
+  enemyCount: number; // Multiplier on regular enemies per floor
+  enemySpeed: number; // Multiplier on enemy movement
+  dropChance: number; // Multiplier on enemy drop chances, capped at 1
+  pickupCount: number; // Multiplier on pickups placed per floor
+  floorHeal: number; // Health restored when advancing to the next floor
+  floorAmmo: number; // Multiplier on each ammo type's floor bonus
+  respawnTicks: number | null; // Killed enemies return after this many ticks
+}
+
+export const SKILL_LEVELS = {
+  baby: {
+    name: "I'M TOO YOUNG TO DIE",
+    hudLabel: "ITYTD",
+    enemyDamage: 0.5,
+    enemyCount: 0.75,
+    enemySpeed: 1,
+    dropChance: 1.5,
+    pickupCount: 1.5,
+    floorHeal: 50,
+    floorAmmo: 2,
+    respawnTicks: null,
+  },
+  easy: {
+    name: "HEY, NOT TOO ROUGH",
+    hudLabel: "HNTR",
+    enemyDamage: 0.75,
+    enemyCount: 0.85,
+    enemySpeed: 1,
+    dropChance: 1.25,
+    pickupCount: 1.25,
+    floorHeal: 35,
+    floorAmmo: 1.5,
+    respawnTicks: null,
+  },
+  medium: {
+    name: "HURT ME PLENTY",
+    hudLabel: "HMP",
+    enemyDamage: 1,
+    enemyCount: 1,
+    enemySpeed: 1,
+    dropChance: 1,
+    pickupCount: 1,
+    floorHeal: 25,
+    floorAmmo: 1,
+    respawnTicks: null,
+  },
+  hard: {
+    name: "ULTRA-VIOLENCE",
+    hudLabel: "UV",
+    enemyDamage: 1.25,
+    enemyCount: 1.25,
+    enemySpeed: 1,
+    dropChance: 0.85,
+    pickupCount: 0.85,
+    floorHeal: 15,
+    floorAmmo: 1,
+    respawnTicks: null,
+  },
+  nightmare: {
+    name: "NIGHTMARE!",
+    hudLabel: "NIGHTMARE",
+    enemyDamage: 1.5,
+    enemyCount: 1.25,
+    enemySpeed: 1.5,
+    dropChance: 0.85,
+    pickupCount: 0.85,
+    floorHeal: 15,
+    floorAmmo: 1,
+    respawnTicks: 720, // 12 seconds
+  },
+} satisfies Record<string, SkillLevel>;
+
+export type SkillId = keyof typeof SKILL_LEVELS;
+
+export const DEFAULT_SKILL: SkillId = "medium";
+
+/** Skill ids from easiest to hardest */
+export const SKILL_IDS = Object.keys(SKILL_LEVELS) as SkillId[];
+
+export function getSkill(id: SkillId): SkillLevel {
+  return SKILL_LEVELS[id];
+}
+
+export function isSkillId(value: unknown): value is SkillId {
+  return typeof value === "string" && value in SKILL_LEVELS;
+}
@@ -0,0 +1,131 @@
+import type { EnemyTypeId } from "./Enemies";
+import type { GameEvent } from "./GameEvents";
+import type { Pickup } from "./GameStateManager";
+import type { WeaponId } from "./Weapons";
+
+/**
+ * Play statistics for the intermission tally and run summary. The
+ * simulation keeps one set for the current floor and one for the whole run
+ * and feeds both from its own gameplay events.
+ */
+
+export interface WeaponStats {
+  shots: number;
+  hits: number;
+}
+
+export interface PlayStats {
+  kills: Partial<Record<EnemyTypeId, number>>;
+  weapons: Partial<Record<WeaponId, WeaponStats>>;
+  damageDealt: number;
+  damageTaken: number;
+  pickups: Record<Pickup["type"], number>;
+  ticks: number; // Fixed ticks spent playing
+  tilesDiscovered: number;
+  openTiles: number; // Walkable tiles on the floors played
+  secretsFound: number;
+  secrets: number; // Secrets on the floors played
+}
+
+export function createPlayStats(openTiles = 0, secrets = 0): PlayStats {
+  return {
+    kills: {},
+    weapons: {},
+    damageDealt: 0,
+    damageTaken: 0,
+    pickups: {
+      health: 0,
+      ammo: 0,
+      weapon: 0,
+      keycard: 0,
+      armor_bonus: 0,
+      green_armor: 0,
+      blue_armor: 0,
+      invulnerability: 0,
+      berserk: 0,
+      invisibility: 0,
+      light_amp: 0,
+      radiation_suit: 0,
+    },
+    ticks: 0,
+    tilesDiscovered: 0,
+    openTiles,
+    secretsFound: 0,
+    secrets,
+  };
+}
+
+function weaponStats(stats: PlayStats, weapon: WeaponId): WeaponStats {
+  return (stats.weapons[weapon] ??= { shots: 0, hits: 0 });
+}
+
+/**
+ * Count a gameplay event towards a set of stats
+ */
+export function recordStatsEvent(stats: PlayStats, event: GameEvent): void {
+  switch (event.type) {
+    case "WeaponFired":
+      weaponStats(stats, event.payload.weapon).shots++;
+      break;
+    case "EnemyDamaged":
+      stats.damageDealt += event.payload.amount;
+      if (event.payload.weapon) {
+        weaponStats(stats, event.payload.weapon).hits++;
+      }
+      break;
+    case "EnemyKilled": {
+      const { enemyType } = event.payload;
+      stats.kills[enemyType] = (stats.kills[enemyType] ?? 0) + 1;
+      break;
+    }
+    case "PlayerDamaged":
+      stats.damageTaken += event.payload.amount;
+      break;
+    case "PickupCollected":
+      stats.pickups[event.payload.type]++;
+      break;
+    case "SecretFound":
+      stats.secretsFound++;
+      break;
+  }
+}
+
+export function getTotalKills(stats: PlayStats): number {
+  return Object.values(stats.kills).reduce((sum, count) => sum + count, 0);
+}
+
+export function getTotalPickups(stats: PlayStats): number {
+  return Object.values(stats.pickups).reduce((sum, count) => sum + count, 0);
+}
+
+/**
+ * Hits per shot as a 0-100 percentage, across every weapon or for one
+ */
+export function getAccuracy(stats: PlayStats, weapon?: WeaponId): number {
+  const entries = weapon
+    ? [stats.weapons[weapon] ?? { shots: 0, hits: 0 }]
+    : Object.values(stats.weapons);
+  const shots = entries.reduce((sum, entry) => sum + entry.shots, 0);
+  const hits = entries.reduce((sum, entry) => sum + entry.hits, 0);
+  return shots > 0 ? Math.round((hits / shots) * 100) : 0;
+}
+
+export function getDiscoveredPercent(stats: PlayStats): number {
+  return stats.openTiles > 0
+    ? Math.round((stats.tilesDiscovered / stats.openTiles) * 100)
+    : 0;
+}
+
+export function getSecretsPercent(stats: PlayStats): number {
+  return stats.secrets > 0
+    ? Math.round((stats.secretsFound / stats.secrets) * 100)
+    : 0;
+}
+
+/**
+ * Fixed ticks as m:ss
+ */
+export function formatPlayTime(ticks: number): string {
+  const seconds = Math.floor(ticks / 60);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
@@ -0,0 +1,68 @@
+import type { EnemyTypeId } from "./Enemies";
+
+/**
+ * Survival mode tuning. Waves arrive from the arena edges on a timer and
+ * escalate through the regular archetypes, with a boss as a mini-boss every
+ * few waves. Score comes from kills and waves survived.
+ */
+
+export interface WaveTier {
+  fromWave: number; // First wave using this mix
+  weights: Partial<Record<EnemyTypeId, number>>; // Relative chance per enemy
+}
+
+/** Enemy mixes in wave order; the last tier reached applies */
+export const WAVE_TIERS: WaveTier[] = [
+  { fromWave: 1, weights: { grunt: 1 } },
+  { fromWave: 3, weights: { grunt: 2, soldier: 1 } },
+  { fromWave: 5, weights: { grunt: 2, soldier: 2, captain: 1 } },
+  { fromWave: 8, weights: { grunt: 1, soldier: 2, captain: 2 } },
+  { fromWave: 12, weights: { soldier: 1, captain: 2 } },
+];
+
+export const SURVIVAL = {
+  arenaSize: 48,
+  firstWaveDelay: 180, // Ticks before the first wave, 3 seconds
+  waveBreak: 300, // Ticks of resupply between waves, 5 seconds
+  miniBossEvery: 5, // Every Nth wave brings a boss
+  baseWaveSize: 4,
+  waveSizeGrowth: 2, // Extra enemies per wave
+  maxWaveSize: 30,
+  score: {
+    kill: 10,
+    bossKill: 250,
+    wave: 100, // Times the wave number, for each wave cleared
+  },
+};
+
+/**
+ * Regular enemies in a wave, before the skill level's count multiplier
+ */
+export function getWaveSize(wave: number): number {
+  return Math.min(
+    SURVIVAL.maxWaveSize,
+    SURVIVAL.baseWaveSize + (wave - 1) * SURVIVAL.waveSizeGrowth
+  );
+}
+
+export function isMiniBossWave(wave: number): boolean {
+  return wave % SURVIVAL.miniBossEvery === 0;
+}
+
+/**
+ * Pick one enemy for a wave from a single 0-1 roll, weighted by its tier
+ */
+export function chooseWaveEnemy(wave: number, roll: number): EnemyTypeId {
+  const tier =
+    [...WAVE_TIERS].reverse().find((entry) => wave >= entry.fromWave) ??
+    WAVE_TIERS[0];
+  const entries = Object.entries(tier.weights) as Array<[EnemyTypeId, number]>;
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+
+  let threshold = roll * total;
+  for (const [type, weight] of entries) {
+    threshold -= weight;
+    if (threshold < 0) return type;
+  }
+  return entries[entries.length - 1][0];
+}
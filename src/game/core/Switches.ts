@@ -0,0 +1,71 @@
+/**
+ * Wall switches the player presses with the use action. A switch is a world
+ * map cell that blocks like a wall and flips to its pressed cell once used:
+ * door switches open the remote door named in their Switch record, the exit
+ * switch ends the floor.
+ */
+
+export interface SwitchDefinition {
+  name: string;
+  cell: number; // World map value before it is pressed
+  pressedCell: number; // World map value once pressed
+  color: string; // Wall and automap color, unpressed
+  pressedColor: string;
+}
+
+export const SWITCHES = {
+  door: {
+    name: "DOOR SWITCH",
+    cell: 27,
+    pressedCell: 28,
+    color: "#22D3EE",
+    pressedColor: "#0E7490",
+  },
+  exit: {
+    name: "EXIT SWITCH",
+    cell: 29,
+    pressedCell: 33,
+    color: "#F97316",
+    pressedColor: "#9A3412",
+  },
+} satisfies Record<string, SwitchDefinition>;
+
+export type SwitchKind = keyof typeof SWITCHES;
+
+/** A door switch placed on the floor and the door it opens */
+export interface Switch {
+  x: number;
+  y: number;
+  door: { x: number; y: number };
+}
+
+/** Chance a campaign floor gets a room behind a switch-operated door */
+export const SWITCH_ROOM_CHANCE = 0.5;
+
+const SWITCH_KINDS = Object.keys(SWITCHES) as SwitchKind[];
+
+export function getSwitch(kind: SwitchKind): SwitchDefinition {
+  return SWITCHES[kind];
+}
+
+/**
+ * The kind of switch a world map cell holds and whether it has been
+ * pressed, or null if it's no switch
+ */
+export function getSwitchAt(
+  cell: number
+): { kind: SwitchKind; pressed: boolean } | null {
+  for (const kind of SWITCH_KINDS) {
+    if (SWITCHES[kind].cell === cell) return { kind, pressed: false };
+    if (SWITCHES[kind].pressedCell === cell) return { kind, pressed: true };
+  }
+  return null;
+}
+
+/** Color to draw a switch cell with, or null if it's no switch */
+export function getSwitchColor(cell: number): string | null {
+  const found = getSwitchAt(cell);
+  if (!found) return null;
+  const definition = getSwitch(found.kind);
+  return found.pressed ? definition.pressedColor : definition.color;
+}
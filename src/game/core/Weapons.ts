@@ -0,0 +1,190 @@
+import type { SoundType } from "../systems/AudioSystem";
+
+/**
+ * Weapon and ammo definitions. Everything that needs to know about a weapon
+ * (simulation, input, HUD, renderer, audio) reads it from here, so adding a
+ * weapon means adding an entry to WEAPONS.
+ */
+
+export interface AmmoDefinition {
+  name: string;
+  max: number;
+  starting: number;
+  floorBonus: number; // Topped up when advancing to the next floor
+}
+
+export const AMMO_TYPES = {
+  bullets: { name: "BULLETS", max: 200, starting: 50, floorBonus: 20 },
+  shells: { name: "SHELLS", max: 50, starting: 0, floorBonus: 10 },
+  belts: { name: "BELTS", max: 200, starting: 0, floorBonus: 30 },
+} satisfies Record<string, AmmoDefinition>;
+
+export type AmmoType = keyof typeof AMMO_TYPES;
+
+/** View-model styles the renderer knows how to draw in first person */
+export type ViewModelStyle = "pistol" | "shotgun" | "chaingun";
+
+/** Icons the renderer can paint on a weapon pickup case */
+export type PickupIcon = "pistol" | "shotgun" | "chaingun";
+
+export interface WeaponDefinition {
+  name: string;
+  slot: number; // Number key that selects the weapon
+  damage: number;
+  range: number; // World units
+  accuracy: number; // Hit tolerance in radians
+  fireRate: "slow" | "medium" | "fast";
+  ammoType: AmmoType;
+  ammoUse: number;
+  attackDuration: number; // Ticks the attack animation lasts
+  muzzleDuration: number; // Ticks the muzzle flash lasts
+  // Damage multiplier is max(min, 1 - distance / range * slope)
+  falloff: { slope: number; min: number };
+  fireSound: SoundType;
+  viewModel: ViewModelStyle;
+  pickup: {
+    icon: PickupIcon;
+    ammo: number; // Ammo granted when picked up
+    dropWeight: number; // Relative chance when an enemy drops a weapon; 0 never drops
+  } | null;
+  hud: {
+    color: string;
+    rangeLabel: string;
+    description: string;
+  };
+}
+
+// Damage values were halved from the original tuning
+export const WEAPONS = {
+  pistol: {
+    name: "PISTOL",
+    slot: 1,
+    damage: 12,
+    range: 15,
+    accuracy: 0.2,
+    fireRate: "medium",
+    ammoType: "bullets",
+    ammoUse: 1,
+    attackDuration: 15,
+    muzzleDuration: 8,
+    falloff: { slope: 0.2, min: 0.8 },
+    fireSound: "pistol_fire",
+    viewModel: "pistol",
+    pickup: null,
+    hud: {
+      color: "#FCD34D",
+      rangeLabel: "Medium (15m)",
+      description: "Balanced all-around weapon • Reliable at medium range",
+    },
+  },
+  shotgun: {
+    name: "SHOTGUN",
+    slot: 2,
+    damage: 22,
+    range: 8,
+    accuracy: 0.3, // More generous hit area
+    fireRate: "slow",
+    ammoType: "shells",
+    ammoUse: 1,
+    attackDuration: 25,
+    muzzleDuration: 12,
+    falloff: { slope: 0.7, min: 0.3 }, // Significant falloff with distance
+    fireSound: "shotgun_fire",
+    viewModel: "shotgun",
+    pickup: { icon: "shotgun", ammo: 12, dropWeight: 0.7 },
+    hud: {
+      color: "#FB923C",
+      rangeLabel: "Close (8m)",
+      description: "High damage at close range • Damage drops with distance",
+    },
+  },
+  chaingun: {
+    name: "CHAINGUN",
+    slot: 3,
+    damage: 7,
+    range: 12,
+    accuracy: 0.2,
+    fireRate: "fast",
+    ammoType: "belts",
+    ammoUse: 1,
+    attackDuration: 8,
+    muzzleDuration: 5,
+    falloff: { slope: 0.2, min: 0.8 },
+    fireSound: "chaingun_fire",
+    viewModel: "chaingun",
+    pickup: { icon: "chaingun", ammo: 30, dropWeight: 0.3 },
+    hud: {
+      color: "#EF4444",
+      rangeLabel: "Medium (12m)",
+      description: "Rapid fire • Lower damage per shot • Medium range",
+    },
+  },
+} satisfies Record<string, WeaponDefinition>;
+
+export type WeaponId = keyof typeof WEAPONS;
+
+export const STARTING_WEAPON: WeaponId = "pistol";
+
+/** Weapon ids in slot order */
+export const WEAPON_IDS = (Object.keys(WEAPONS) as WeaponId[]).sort(
+  (a, b) => WEAPONS[a].slot - WEAPONS[b].slot
+);
+
+export function getWeapon(id: WeaponId): WeaponDefinition {
+  return WEAPONS[id];
+}
+
+export function isWeaponId(value: unknown): value is WeaponId {
+  return typeof value === "string" && value in WEAPONS;
+}
+
+export function getWeaponForSlot(slot: number): WeaponId | null {
+  return WEAPON_IDS.find((id) => WEAPONS[id].slot === slot) ?? null;
+}
+
+/**
+ * Damage dealt at a distance after the weapon's falloff curve
+ */
+export function getDamageAtDistance(id: WeaponId, distance: number): number {
+  const weapon: WeaponDefinition = WEAPONS[id];
+  const rangeFactor = Math.max(
+    weapon.falloff.min,
+    1 - (distance / weapon.range) * weapon.falloff.slope
+  );
+  return Math.floor(weapon.damage * rangeFactor);
+}
+
+/** Weapons that can appear as pickups / enemy drops */
+export const DROPPABLE_WEAPONS = WEAPON_IDS.filter((id) => {
+  const pickup: WeaponDefinition["pickup"] = WEAPONS[id].pickup;
+  return pickup !== null && pickup.dropWeight > 0;
+});
+
+/**
+ * Pick a weapon drop from a single 0-1 roll, weighted by dropWeight
+ */
+export function chooseWeaponDrop(roll: number): WeaponId {
+  const weightOf = (id: WeaponId) =>
+    (WEAPONS[id] as WeaponDefinition).pickup?.dropWeight ?? 0;
+  const total = DROPPABLE_WEAPONS.reduce((sum, id) => sum + weightOf(id), 0);
+
+  let threshold = roll * total;
+  for (const id of DROPPABLE_WEAPONS) {
+    threshold -= weightOf(id);
+    if (threshold < 0) return id;
+  }
+  return DROPPABLE_WEAPONS[DROPPABLE_WEAPONS.length - 1];
+}
+
+/**
+ * Full ammo pool record with every type at the given amount
+ */
+export function createAmmoPools(
+  amount: (type: AmmoType) => number
+): Record<AmmoType, number> {
+  const pools = {} as Record<AmmoType, number>;
+  for (const type of Object.keys(AMMO_TYPES) as AmmoType[]) {
+    pools[type] = amount(type);
+  }
+  return pools;
+}
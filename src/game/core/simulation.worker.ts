@@ -0,0 +1,167 @@
+import { runConsoleCommand } from "./DevConsole";
+import { GameStateManager } from "./GameStateManager";
+import type { GameEvent } from "./GameEvents";
+import {
+  SIMULATION_PROTOCOL_VERSION,
+  createSentCollection,
+  diffCollection,
+  serializeForDiff,
+  type SimulationRequest,
+  type SimulationResponse,
+  type StateUpdate,
+} from "./SimulationProtocol";
+
+/**
+ * Dedicated worker hosting the GameStateManager. Input arrives as
+ * SimulationRequest messages; state updates and gameplay events go back as
+ * SimulationResponse messages.
+ */
+
+// The project is typed against the DOM lib, so describe the worker scope
+// by the parts of it we use
+const scope = self as unknown as {
+  postMessage(message: SimulationResponse): void;
+  onmessage: ((event: MessageEvent<SimulationRequest>) => void) | null;
+};
+
+let manager: GameStateManager | null = null;
+let pendingEvents: GameEvent[] = [];
+// What the host has last been sent, so updates only carry what changed
+let sentWorldMap: number[][] | null = null;
+let sentHazardMap: number[][] | null = null;
+let sentFields = new Map<string, unknown>();
+let sentEnemies = createSentCollection();
+let sentPickups = createSentCollection();
+
+/** Make the next update carry the whole state */
+function resetSent(): void {
+  sentWorldMap = null;
+  sentHazardMap = null;
+  sentFields = new Map();
+  sentEnemies = createSentCollection();
+  sentPickups = createSentCollection();
+}
+
+function post(message: SimulationResponse): void {
+  scope.postMessage(message);
+}
+
+function buildUpdate(sim: GameStateManager): StateUpdate {
+  const { worldMap, hazardMap, enemies, pickups, ...fields } = sim.getState();
+  const mapChanged = worldMap !== sentWorldMap;
+  const hazardsChanged = hazardMap !== sentHazardMap;
+  sentWorldMap = worldMap;
+  sentHazardMap = hazardMap;
+
+  // Plain values compare as they are, objects and arrays by their contents
+  const state: StateUpdate["state"] = {};
+  for (const [key, value] of Object.entries(fields)) {
+    const compared =
+      typeof value === "object" && value !== null
+        ? serializeForDiff(value)
+        : value;
+    if (sentFields.has(key) && sentFields.get(key) === compared) continue;
+    sentFields.set(key, compared);
+    Object.assign(state, { [key]: value });
+  }
+
+  return {
+    state,
+    enemies: diffCollection(enemies, sentEnemies),
+    pickups: diffCollection(pickups, sentPickups),
+    worldMap: mapChanged ? worldMap : null,
+    hazardMap: hazardsChanged ? hazardMap : null,
+    rngState: sim.getRngState(),
+    positions: sim.getInterpolatedPositions(),
+    music: sim.getGameStateForMusic(),
+    frameStats: sim.getFrameStats(),
+  };
+}
+
+function sendUpdate(
+  sim: GameStateManager,
+  frameId: number | null = null,
+  ticks = 0
+): void {
+  const events = pendingEvents;
+  pendingEvents = [];
+  post({ type: "update", frameId, ticks, update: buildUpdate(sim), events });
+}
+
+function handleRequest(request: SimulationRequest): void {
+  if (request.type === "init") {
+    if (request.version !== SIMULATION_PROTOCOL_VERSION) {
+      post({
+        type: "error",
+        message: `Protocol version ${request.version} doesn't match worker ${SIMULATION_PROTOCOL_VERSION}`,
+      });
+      return;
+    }
+
+    manager = GameStateManager.fromState(request.state, request.rngState);
+    manager.getEvents().onAny((event) => pendingEvents.push(event));
+    resetSent();
+    post({ type: "ready", version: SIMULATION_PROTOCOL_VERSION });
+    sendUpdate(manager);
+    return;
+  }
+
+  if (!manager) {
+    post({ type: "error", message: `"${request.type}" before init` });
+    return;
+  }
+
+  switch (request.type) {
+    case "frame": {
+      manager.queueInput(request.input);
+      let ticks: number;
+      if (request.ticks === null) {
+        ticks = manager.updateWithDeltaTime(request.currentTime);
+      } else {
+        manager.advanceFixedTicks(request.ticks, request.currentTime);
+        ticks = request.ticks;
+      }
+      sendUpdate(manager, request.frameId, ticks);
+      return;
+    }
+    case "idle":
+      manager.updateWithDeltaTime(request.currentTime);
+      return;
+    case "togglePause":
+      manager.togglePause();
+      break;
+    case "pause":
+      manager.pause();
+      break;
+    case "resume":
+      manager.resume();
+      break;
+    case "progressFloor":
+      manager.progressToNextFloor(request.perk);
+      break;
+    case "reset":
+      manager.reset();
+      break;
+    case "load":
+      manager.loadState(request.state, request.rngState);
+      resetSent();
+      break;
+    case "command": {
+      const result = runConsoleCommand(manager, request.line);
+      // State first, so the result arrives once the host reflects it
+      sendUpdate(manager);
+      post({ type: "commandResult", commandId: request.commandId, result });
+      return;
+    }
+  }
+
+  sendUpdate(manager);
+}
+
+scope.onmessage = (event) => {
+  try {
+    handleRequest(event.data);
+  } catch (error) {
+    post({ type: "error", message: String(error) });
+  }
+};
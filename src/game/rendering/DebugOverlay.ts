@@ -0,0 +1,323 @@
+import { castRay } from "../core/Raycaster";
+import { getEnemyArchetype } from "../core/Enemies";
+import type {
+  Enemy,
+  GameState,
+  InterpolatedPositions,
+} from "../core/GameStateManager";
+import {
+  PERF_HISTORY_LENGTH,
+  type PerfSnapshot,
+} from "../systems/PerfMonitor";
+
+/** Overlay modes, in the order the toggle key cycles through them */
+export const DEBUG_OVERLAY_MODES = ["off", "stats", "map"] as const;
+export type DebugOverlayMode = (typeof DEBUG_OVERLAY_MODES)[number];
+
+const STATE_COLORS: Record<Enemy["state"], string> = {
+  idle: "#9CA3AF",
+  patrolling: "#3B82F6",
+  chasing: "#F97316",
+  attacking: "#EF4444",
+  spawning: "#A855F7",
+};
+
+const FRAME_BUDGET_MS = 1000 / 60;
+const PANEL_BG = "rgba(0, 0, 0, 0.8)";
+const FONT = "12px 'Courier New', monospace";
+const LINE_HEIGHT = 14;
+
+// Panels sit in the bottom-left corner, clear of the controls and automap
+const MARGIN = 10;
+const STATS_WIDTH = 280;
+const GRAPH_HEIGHT = 40;
+const MAP_SIZE = 320;
+
+/**
+ * Draws the perf stats panel and the top-down AI debug map over the
+ * rendered frame. Reads state only; never touches the simulation.
+ * @author @darianrosebrook
+ */
+export class DebugOverlay {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  // Walls only change with the floor, so they are drawn once per map
+  private wallLayer: HTMLCanvasElement | null = null;
+  private wallLayerMap: number[][] | null = null;
+
+  constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) {
+      throw new Error("Could not get 2D context from canvas");
+    }
+    this.ctx = ctx;
+  }
+
+  public draw(
+    mode: DebugOverlayMode,
+    perf: PerfSnapshot,
+    state: Readonly<GameState>,
+    positions: InterpolatedPositions
+  ): void {
+    if (mode === "off") return;
+
+    this.ctx.save();
+    this.ctx.font = FONT;
+    this.ctx.textBaseline = "top";
+    this.drawStats(perf);
+    if (mode === "map") {
+      this.drawMap(state, positions, MARGIN * 2 + STATS_WIDTH);
+    }
+    this.ctx.restore();
+  }
+
+  private drawStats(perf: PerfSnapshot): void {
+    const ctx = this.ctx;
+    const last = (values: number[]) => values[values.length - 1] ?? 0;
+    const max = (values: number[]) => Math.max(0, ...values);
+    const { render, simulation } = perf;
+    const totalRays =
+      render.wallRays + render.occlusionRays + simulation.losRays;
+
+    const lines = [
+      `FPS ${perf.fps.toFixed(1)}`,
+      `frame ${last(perf.frameTimes).toFixed(1)}ms  max ${max(perf.frameTimes).toFixed(1)}ms`,
+      `work  ${last(perf.workTimes).toFixed(1)}ms  max ${max(perf.workTimes).toFixed(1)}ms`,
+      `ticks/frame ${last(perf.ticksPerFrame)}  max ${max(perf.ticksPerFrame)}`,
+      `numRays ${render.numRays}`,
+      `castRay/frame ${totalRays}`,
+      `  walls ${render.wallRays}  sprites ${render.occlusionRays}  LOS ${simulation.losRays}`,
+      `sprites drawn ${render.spritesDrawn}`,
+      "React renders (total, last s)",
+      ...perf.reactRenders.map(
+        ({ component, total, lastSecond }) =>
+          `  ${component} ${total}  ${lastSecond}/s`
+      ),
+    ];
+
+    const textHeight = 12 + lines.length * LINE_HEIGHT;
+    const height = textHeight + 2 * (GRAPH_HEIGHT + LINE_HEIGHT + 6);
+    const top = this.canvas.height - height - MARGIN;
+    const graphsTop = top + textHeight;
+    ctx.fillStyle = PANEL_BG;
+    ctx.fillRect(MARGIN, top, STATS_WIDTH, height);
+
+    ctx.fillStyle = "#4ADE80";
+    lines.forEach((line, index) =>
+      ctx.fillText(line, MARGIN + 8, top + 6 + index * LINE_HEIGHT)
+    );
+
+    // Frame time graph, scaled to three frame budgets with budget guides
+    const frameScale = FRAME_BUDGET_MS * 3;
+    this.drawGraph(
+      "frame ms",
+      graphsTop,
+      perf.frameTimes,
+      frameScale,
+      (value) =>
+        value <= FRAME_BUDGET_MS + 1
+          ? "#4ADE80"
+          : value <= FRAME_BUDGET_MS * 2 + 1
+            ? "#FACC15"
+            : "#EF4444",
+      [FRAME_BUDGET_MS, FRAME_BUDGET_MS * 2]
+    );
+
+    // Ticks per frame: more than one means the sim is catching up
+    this.drawGraph(
+      "ticks/frame",
+      graphsTop + GRAPH_HEIGHT + LINE_HEIGHT + 6,
+      perf.ticksPerFrame,
+      Math.max(4, max(perf.ticksPerFrame)),
+      (value) => (value <= 1 ? "#60A5FA" : value <= 2 ? "#FACC15" : "#EF4444"),
+      [1]
+    );
+  }
+
+  private drawGraph(
+    label: string,
+    top: number,
+    values: number[],
+    scale: number,
+    colorFor: (value: number) => string,
+    guides: number[]
+  ): void {
+    const ctx = this.ctx;
+    const left = MARGIN + 8;
+    const width = STATS_WIDTH - 16;
+    const graphTop = top + LINE_HEIGHT;
+    const barWidth = width / PERF_HISTORY_LENGTH;
+
+    ctx.fillStyle = "#D1D5DB";
+    ctx.fillText(label, left, top);
+    ctx.fillStyle = "rgba(255, 255, 255, 0.08)";
+    ctx.fillRect(left, graphTop, width, GRAPH_HEIGHT);
+
+    // Newest value on the right
+    const offset = PERF_HISTORY_LENGTH - values.length;
+    values.forEach((value, index) => {
+      const barHeight = Math.min(1, value / scale) * GRAPH_HEIGHT;
+      ctx.fillStyle = colorFor(value);
+      ctx.fillRect(
+        left + (offset + index) * barWidth,
+        graphTop + GRAPH_HEIGHT - barHeight,
+        Math.max(1, barWidth - 0.5),
+        barHeight
+      );
+    });
+
+    ctx.strokeStyle = "rgba(255, 255, 255, 0.35)";
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    guides.forEach((guide) => {
+      const y = graphTop + GRAPH_HEIGHT - (guide / scale) * GRAPH_HEIGHT;
+      ctx.moveTo(left, y);
+      ctx.lineTo(left + width, y);
+    });
+    ctx.stroke();
+  }
+
+  private getWallLayer(worldMap: number[][]): HTMLCanvasElement {
+    if (this.wallLayer && this.wallLayerMap === worldMap) {
+      return this.wallLayer;
+    }
+
+    const layer = document.createElement("canvas");
+    layer.width = MAP_SIZE;
+    layer.height = MAP_SIZE;
+    const ctx = layer.getContext("2d");
+    if (ctx) {
+      const scale = MAP_SIZE / worldMap.length;
+      ctx.fillStyle = "#6B7280";
+      worldMap.forEach((row, y) =>
+        row.forEach((cell, x) => {
+          if (cell > 0) {
+            ctx.fillRect(x * scale, y * scale, scale, scale);
+          }
+        })
+      );
+    }
+
+    this.wallLayer = layer;
+    this.wallLayerMap = worldMap;
+    return layer;
+  }
+
+  private drawMap(
+    state: Readonly<GameState>,
+    positions: InterpolatedPositions,
+    left: number
+  ): void {
+    const ctx = this.ctx;
+    const { worldMap } = state;
+    const panelHeight = MAP_SIZE + LINE_HEIGHT + 6;
+    const top = this.canvas.height - panelHeight - MARGIN;
+    const scale = MAP_SIZE / worldMap.length;
+    const toScreen = (x: number, y: number) => ({
+      x: left + x * scale,
+      y: top + y * scale,
+    });
+
+    ctx.fillStyle = PANEL_BG;
+    ctx.fillRect(left, top, MAP_SIZE, panelHeight);
+    ctx.drawImage(this.getWallLayer(worldMap), left, top);
+
+    const player = toScreen(positions.player.x, positions.player.y);
+
+    for (const enemy of state.enemies) {
+      const interpolated = positions.enemies.get(enemy.id) ?? enemy;
+      const at = toScreen(interpolated.x, interpolated.y);
+      const archetype = getEnemyArchetype(enemy.enemyType);
+      const color = STATE_COLORS[enemy.state];
+
+      // Detection range
+      ctx.strokeStyle = "rgba(255, 255, 255, 0.12)";
+      ctx.beginPath();
+      ctx.arc(
+        at.x,
+        at.y,
+        archetype.perception.detectionRange * scale,
+        0,
+        Math.PI * 2
+      );
+      ctx.stroke();
+
+      // Line of sight to the player, cut off where a wall blocks it
+      const dx = positions.player.x - interpolated.x;
+      const dy = positions.player.y - interpolated.y;
+      const distance = Math.sqrt(dx * dx + dy * dy);
+      if (distance < archetype.perception.loseRange) {
+        const hit = castRay(
+          interpolated.x,
+          interpolated.y,
+          Math.atan2(dy, dx),
+          worldMap
+        );
+        const visible = hit.distance > distance;
+        const reach = Math.min(distance, hit.distance) / distance;
+        ctx.strokeStyle = visible
+          ? "rgba(74, 222, 128, 0.8)"
+          : "rgba(239, 68, 68, 0.6)";
+        ctx.beginPath();
+        ctx.moveTo(at.x, at.y);
+        ctx.lineTo(at.x + dx * reach * scale, at.y + dy * reach * scale);
+        ctx.stroke();
+      }
+
+      // Where it is heading
+      if (enemy.state === "patrolling" && enemy.patrolTarget) {
+        const target = toScreen(enemy.patrolTarget.x, enemy.patrolTarget.y);
+        ctx.strokeStyle = STATE_COLORS.patrolling;
+        ctx.setLineDash([3, 3]);
+        ctx.beginPath();
+        ctx.moveTo(at.x, at.y);
+        ctx.lineTo(target.x, target.y);
+        ctx.stroke();
+        ctx.setLineDash([]);
+        ctx.strokeRect(target.x - 2, target.y - 2, 4, 4);
+      }
+      if (enemy.state === "chasing") {
+        const target = toScreen(enemy.lastPlayerX, enemy.lastPlayerY);
+        ctx.strokeStyle = STATE_COLORS.chasing;
+        ctx.strokeRect(target.x - 2, target.y - 2, 4, 4);
+      }
+      if (enemy.explorationDirection) {
+        const { dx: ex, dy: ey } = enemy.explorationDirection;
+        const length = 10 / Math.sqrt(ex * ex + ey * ey);
+        ctx.strokeStyle = "#FDE047";
+        ctx.beginPath();
+        ctx.moveTo(at.x, at.y);
+        ctx.lineTo(at.x + ex * length, at.y + ey * length);
+        ctx.stroke();
+      }
+
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.arc(at.x, at.y, enemy.isBoss ? 5 : 3, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    // Player and facing
+    ctx.fillStyle = "#22C55E";
+    ctx.beginPath();
+    ctx.arc(player.x, player.y, 4, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.strokeStyle = "#22C55E";
+    ctx.beginPath();
+    ctx.moveTo(player.x, player.y);
+    ctx.lineTo(
+      player.x + Math.cos(positions.player.angle) * 12,
+      player.y + Math.sin(positions.player.angle) * 12
+    );
+    ctx.stroke();
+
+    // State legend
+    let legendX = left + 6;
+    (Object.keys(STATE_COLORS) as Array<Enemy["state"]>).forEach((name) => {
+      ctx.fillStyle = STATE_COLORS[name];
+      ctx.fillText(name, legendX, top + MAP_SIZE + 3);
+      legendX += ctx.measureText(name).width + 8;
+    });
+  }
+}
@@ -1,9 +1,40 @@
-export interface RayHit {
-  distance: number;
-  side: number;
-  wallType: number;
-  x: number;
-  y: number;
+import { castRay, type RayHit } from "../core/Raycaster";
+import {
+  getWeapon,
+  type PickupIcon,
+  type ViewModelStyle,
+  type WeaponId,
+} from "../core/Weapons";
+import { getEnemyArchetype, type EnemyTypeId } from "../core/Enemies";
+import { getArmorClass, getArmorPickup, isArmorPickup } from "../core/Armor";
+import {
+  POWER_UP_WARNING_TICKS,
+  getPowerUp,
+  hasPowerUpEffect,
+  isPowerUpId,
+  type PowerUpId,
+  type PowerUpTimers,
+} from "../core/PowerUps";
+import {
+  getKeycard,
+  getKeycardForDoor,
+  isKeycardId,
+} from "../core/Keycards";
+import { DOOR_CELL, DOOR_COLOR, type Door } from "../core/Doors";
+import { getSwitchColor } from "../core/Switches";
+import { getHazard, getHazardAt } from "../core/Hazards";
+import { CRUSHER_CELL, CRUSHER_COLOR, type Crusher } from "../core/Crushers";
+
+export type { RayHit };
+
+/**
+ * Work done drawing the latest frame, shown by the perf overlay
+ */
+export interface RenderStats {
+  numRays: number;
+  wallRays: number; // castRay calls for wall columns
+  occlusionRays: number; // castRay calls checking sprites against walls
+  spritesDrawn: number;
 }
 
 export class RenderingSystem {
@@ -13,6 +44,12 @@ export class RenderingSystem {
   private canvasHeight = 600;
   private readonly FOV = Math.PI / 3;
   private numRays = 400; // Make this dynamic instead of readonly
+  private stats: RenderStats = {
+    numRays: 0,
+    wallRays: 0,
+    occlusionRays: 0,
+    spritesDrawn: 0,
+  };
 
   // Offscreen canvas for optimization
   private offscreenCanvas: HTMLCanvasElement;
@@ -1818,71 +1855,11 @@ export class RenderingSystem {
     startX: number,
     startY: number,
     angle: number,
-    worldMap: number[][]
+    worldMap: number[][],
+    doors: readonly Door[] = [],
+    crushers: readonly Crusher[] = []
   ): RayHit {
-    const rayDirX = Math.cos(angle);
-    const rayDirY = Math.sin(angle);
-
-    let mapX = Math.floor(startX);
-    let mapY = Math.floor(startY);
-
-    const deltaDistX = Math.abs(1 / rayDirX);
-    const deltaDistY = Math.abs(1 / rayDirY);
-
-    let stepX: number;
-    let stepY: number;
-    let sideDistX: number;
-    let sideDistY: number;
-
-    if (rayDirX < 0) {
-      stepX = -1;
-      sideDistX = (startX - mapX) * deltaDistX;
-    } else {
-      stepX = 1;
-      sideDistX = (mapX + 1.0 - startX) * deltaDistX;
-    }
-
-    if (rayDirY < 0) {
-      stepY = -1;
-      sideDistY = (startY - mapY) * deltaDistY;
-    } else {
-      stepY = 1;
-      sideDistY = (mapY + 1.0 - startY) * deltaDistY;
-    }
-
-    let hit = 0;
-    let side = 0;
-
-    while (hit === 0) {
-      if (sideDistX < sideDistY) {
-        sideDistX += deltaDistX;
-        mapX += stepX;
-        side = 0;
-      } else {
-        sideDistY += deltaDistY;
-        mapY += stepY;
-        side = 1;
-      }
-
-      if (worldMap[mapY] && worldMap[mapY][mapX] > 0) {
-        hit = 1;
-      }
-    }
-
-    let perpWallDist: number;
-    if (side === 0) {
-      perpWallDist = (mapX - startX + (1 - stepX) / 2) / rayDirX;
-    } else {
-      perpWallDist = (mapY - startY + (1 - stepY) / 2) / rayDirY;
-    }
-
-    return {
-      distance: perpWallDist,
-      side,
-      wallType: worldMap[mapY][mapX],
-      x: mapX,
-      y: mapY,
-    };
+    return castRay(startX, startY, angle, worldMap, doors, crushers);
   }
 
   private getWallColor(wallType: number, side: number): string {
@@ -1929,7 +1906,18 @@ export class RenderingSystem {
       25: "#F4D03F", // Bright yellow
     };
 
-    let color = colorThemes[wallType] || "#34495E"; // Default dark blue-gray
+    // Locked doors take their keycard's color, sliding doors are steel,
+    // crushers red and switches light up until pressed
+    const keycard = getKeycardForDoor(wallType);
+    let color = keycard
+      ? getKeycard(keycard).doorColor
+      : wallType === DOOR_CELL
+        ? DOOR_COLOR
+        : wallType === CRUSHER_CELL
+          ? CRUSHER_COLOR
+          : getSwitchColor(wallType) ??
+            colorThemes[wallType] ??
+            "#34495E"; // Default dark blue-gray
 
     // Apply depth shading to one side
     if (side === 1) {
@@ -2212,7 +2200,7 @@ export class RenderingSystem {
 
   private drawFirstPersonWeapon(
     ctx: CanvasRenderingContext2D,
-    weapon: string,
+    weapon: WeaponId,
     isAttacking: boolean,
     muzzleFlash: boolean,
     currentTime: number
@@ -2234,8 +2222,8 @@ export class RenderingSystem {
     const finalX = weaponBaseX + swayX + recoilX;
     const finalY = weaponBaseY + swayY + recoilY;
 
-    // Draw weapon and hands based on type
-    switch (weapon) {
+    // Draw weapon and hands based on the weapon's view model
+    switch (getWeapon(weapon).viewModel) {
       case "pistol":
         this.drawFirstPersonPistol(
           ctx,
@@ -2459,7 +2447,7 @@ export class RenderingSystem {
     x: number,
     y: number,
     hand: "left" | "right",
-    weapon: string
+    weapon: ViewModelStyle
   ): void {
     // Hand color
     ctx.fillStyle = "#D4A574"; // Skin tone
@@ -2663,7 +2651,8 @@ export class RenderingSystem {
       value: number;
       spawnTime: number;
       animationOffset: number;
-      weaponType?: string;
+      weaponType?: WeaponId;
+      keycard?: string;
     },
     currentTime: number
   ): void {
@@ -2679,6 +2668,15 @@ export class RenderingSystem {
     const animatedWidth = width * pulseScale;
     const animatedHeight = height * pulseScale;
 
+    // Armor bonuses are worn as green armor when nothing better is on
+    const armorColor = isArmorPickup(pickup.type)
+      ? getArmorClass(getArmorPickup(pickup.type).armorClass ?? "green").color
+      : null;
+    const powerUp = isPowerUpId(pickup.type) ? getPowerUp(pickup.type) : null;
+    const keycard = isKeycardId(pickup.keycard)
+      ? getKeycard(pickup.keycard)
+      : null;
+
     // Draw glow effect
     let glowColor;
     switch (pickup.type) {
@@ -2688,8 +2686,20 @@ export class RenderingSystem {
       case "weapon":
         glowColor = "rgba(255, 255, 0, 0.3)";
         break;
+      case "green_armor":
+      case "armor_bonus":
+        glowColor = "rgba(34, 197, 94, 0.3)";
+        break;
+      case "blue_armor":
+        glowColor = "rgba(59, 130, 246, 0.4)";
+        break;
+      case "keycard":
+        glowColor = `${keycard?.color ?? "#FFFFFF"}66`;
+        break;
       default:
-        glowColor = "rgba(0, 100, 255, 0.3)";
+        glowColor = powerUp
+          ? `${powerUp.color}66` // Brighter glow so power-ups stand out
+          : "rgba(0, 100, 255, 0.3)";
     }
 
     ctx.fillStyle = glowColor;
@@ -2723,7 +2733,37 @@ export class RenderingSystem {
         animatedWidth,
         animatedHeight,
         rotationOffset,
-        pickup.weaponType || "shotgun"
+        getWeapon(pickup.weaponType ?? "shotgun").pickup?.icon ?? "pistol"
+      );
+    } else if (armorColor) {
+      this.drawArmorPickup(
+        ctx,
+        centerX,
+        animatedCenterY,
+        animatedWidth,
+        animatedHeight,
+        rotationOffset,
+        armorColor,
+        pickup.type === "armor_bonus"
+      );
+    } else if (keycard) {
+      this.drawKeycardPickup(
+        ctx,
+        centerX,
+        animatedCenterY,
+        animatedWidth,
+        animatedHeight,
+        rotationOffset,
+        keycard.color
+      );
+    } else if (powerUp) {
+      this.drawPowerUpPickup(
+        ctx,
+        centerX,
+        animatedCenterY,
+        animatedWidth,
+        powerUp.color,
+        powerUp.hudLabel[0]
       );
     } else {
       this.drawAmmoPickup(
@@ -2747,7 +2787,11 @@ export class RenderingSystem {
       const text =
         pickup.type === "weapon"
           ? pickup.weaponType?.toUpperCase() || "WEAPON"
-          : `+${pickup.value}`;
+          : powerUp
+            ? powerUp.hudLabel
+            : keycard
+              ? keycard.hudLabel
+              : `+${pickup.value}`;
 
       // Draw text with stroke for visibility
       ctx.strokeText(text, centerX, animatedCenterY - animatedHeight / 2 - 10);
@@ -2821,7 +2865,7 @@ export class RenderingSystem {
     width: number,
     height: number,
     rotation: number,
-    weaponType: string
+    icon: PickupIcon
   ): void {
     ctx.save();
     ctx.translate(centerX, centerY);
@@ -2838,12 +2882,12 @@ export class RenderingSystem {
     ctx.fillStyle = "#FFD700";
     const iconSize = Math.min(width, height) * 0.6;
 
-    if (weaponType === "shotgun") {
+    if (icon === "shotgun") {
       // Shotgun barrel
       ctx.fillRect(-iconSize / 2, -iconSize / 6, iconSize * 0.8, iconSize / 3);
       // Stock
       ctx.fillRect(-iconSize / 2, 0, iconSize / 3, iconSize / 4);
-    } else if (weaponType === "chaingun") {
+    } else if (icon === "chaingun") {
       // Multiple barrels
       for (let i = 0; i < 3; i++) {
         ctx.fillRect(
@@ -2930,6 +2974,156 @@ export class RenderingSystem {
     ctx.restore();
   }
 
+  private drawKeycardPickup(
+    ctx: CanvasRenderingContext2D,
+    centerX: number,
+    centerY: number,
+    width: number,
+    height: number,
+    rotation: number,
+    color: string
+  ): void {
+    ctx.save();
+    ctx.translate(centerX, centerY);
+    // Spin about the vertical axis by squashing the card
+    ctx.scale(Math.max(0.15, Math.abs(Math.cos(rotation))), 1);
+
+    const cardWidth = width * 0.7;
+    const cardHeight = height * 0.45;
+
+    // Card body
+    ctx.fillStyle = color;
+    ctx.strokeStyle = "#000000";
+    ctx.lineWidth = Math.max(1, width / 20);
+    ctx.fillRect(-cardWidth / 2, -cardHeight / 2, cardWidth, cardHeight);
+    ctx.strokeRect(-cardWidth / 2, -cardHeight / 2, cardWidth, cardHeight);
+
+    // Magnetic stripe and chip
+    ctx.fillStyle = "#111827";
+    ctx.fillRect(
+      -cardWidth / 2,
+      -cardHeight / 4,
+      cardWidth,
+      cardHeight / 5
+    );
+    ctx.fillStyle = "#FDE68A";
+    ctx.fillRect(
+      -cardWidth / 3,
+      cardHeight / 12,
+      cardWidth / 5,
+      cardHeight / 4
+    );
+
+    ctx.restore();
+  }
+
+  private drawPowerUpPickup(
+    ctx: CanvasRenderingContext2D,
+    centerX: number,
+    centerY: number,
+    width: number,
+    color: string,
+    letter: string
+  ): void {
+    const radius = width * 0.4;
+
+    // Glowing sphere, brightest at the top left
+    const gradient = ctx.createRadialGradient(
+      centerX - radius * 0.3,
+      centerY - radius * 0.3,
+      radius * 0.1,
+      centerX,
+      centerY,
+      radius
+    );
+    gradient.addColorStop(0, "#FFFFFF");
+    gradient.addColorStop(0.4, color);
+    gradient.addColorStop(1, "rgba(0, 0, 0, 0.8)");
+
+    ctx.fillStyle = gradient;
+    ctx.strokeStyle = "#000000";
+    ctx.lineWidth = Math.max(1, width / 20);
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, radius, 0, 2 * Math.PI);
+    ctx.fill();
+    ctx.stroke();
+
+    // Initial of the power-up in the middle
+    ctx.fillStyle = "#000000";
+    ctx.font = `bold ${Math.max(8, radius)}px monospace`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(letter, centerX, centerY);
+    ctx.textBaseline = "alphabetic";
+  }
+
+  private drawArmorPickup(
+    ctx: CanvasRenderingContext2D,
+    centerX: number,
+    centerY: number,
+    width: number,
+    height: number,
+    rotation: number,
+    color: string,
+    isBonus: boolean
+  ): void {
+    ctx.save();
+    ctx.translate(centerX, centerY);
+    // Armor only sways a little so the vest stays readable
+    ctx.rotate(Math.sin(rotation) * 0.3);
+    ctx.strokeStyle = "#000000";
+    ctx.lineWidth = Math.max(1, width / 20);
+
+    if (isBonus) {
+      // Armor bonus: a small helmet
+      const radius = width * 0.3;
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.arc(0, 0, radius, Math.PI, 0);
+      ctx.lineTo(radius * 1.2, radius * 0.3);
+      ctx.lineTo(-radius * 1.2, radius * 0.3);
+      ctx.closePath();
+      ctx.fill();
+      ctx.stroke();
+
+      // Visor slit
+      ctx.fillStyle = "#000000";
+      ctx.fillRect(-radius * 0.6, -radius * 0.35, radius * 1.2, radius * 0.2);
+
+      ctx.restore();
+      return;
+    }
+
+    // Vest body with shoulder straps and a neck cut-out
+    const w = width / 2;
+    const h = height / 2;
+    ctx.fillStyle = color;
+    ctx.beginPath();
+    ctx.moveTo(-w * 0.8, -h);
+    ctx.lineTo(-w * 0.3, -h);
+    ctx.lineTo(0, -h * 0.6);
+    ctx.lineTo(w * 0.3, -h);
+    ctx.lineTo(w * 0.8, -h);
+    ctx.lineTo(w, -h * 0.4);
+    ctx.lineTo(w * 0.8, h);
+    ctx.lineTo(-w * 0.8, h);
+    ctx.lineTo(-w, -h * 0.4);
+    ctx.closePath();
+    ctx.fill();
+    ctx.stroke();
+
+    // Chest plates
+    ctx.fillStyle = "rgba(255, 255, 255, 0.3)";
+    ctx.fillRect(-w * 0.6, -h * 0.3, w * 0.5, h * 0.6);
+    ctx.fillRect(w * 0.1, -h * 0.3, w * 0.5, h * 0.6);
+
+    // Belt
+    ctx.fillStyle = "rgba(0, 0, 0, 0.4)";
+    ctx.fillRect(-w * 0.8, h * 0.6, w * 1.6, h * 0.2);
+
+    ctx.restore();
+  }
+
   private drawEnemySprite(
     ctx: CanvasRenderingContext2D,
     centerX: number,
@@ -2942,19 +3136,15 @@ export class RenderingSystem {
       state: string;
       health: number;
       maxHealth: number;
-      enemyType: string;
+      enemyType: EnemyTypeId;
     },
     // playerX: number,
     // playerY: number,
     isHurt: boolean = false
   ): void {
     // Size variation based on enemy type
-    const sizeMultiplier =
-      enemy.enemyType === "captain"
-        ? 1.2
-        : enemy.enemyType === "soldier"
-        ? 1.1
-        : 1.0;
+    const sprite = getEnemyArchetype(enemy.enemyType).sprite;
+    const sizeMultiplier = sprite.scale;
     const adjustedWidth = width * sizeMultiplier;
     const adjustedHeight = height * sizeMultiplier;
 
@@ -2969,18 +3159,12 @@ export class RenderingSystem {
 
     // Determine which texture to use based on enemy type and state
     let baseTexture: string[][];
-    const textures =
-      this.ENEMY_TEXTURES[enemy.enemyType as keyof typeof this.ENEMY_TEXTURES];
+    const textures = this.ENEMY_TEXTURES[sprite.set];
 
-    if (textures) {
-      if (enemy.state === "attacking" && textures.attacking) {
-        baseTexture = textures.attacking;
-      } else {
-        baseTexture = textures.idle;
-      }
+    if (enemy.state === "attacking" && textures.attacking) {
+      baseTexture = textures.attacking;
     } else {
-      // Fallback to grunt texture
-      baseTexture = this.ENEMY_TEXTURES.grunt.idle;
+      baseTexture = textures.idle;
     }
 
     // Apply state and health modifications to texture
@@ -3032,23 +3216,8 @@ export class RenderingSystem {
     // Draw enemy type indicator (only for larger sprites)
     if (adjustedWidth > 20) {
       const indicatorY = centerY - adjustedHeight / 2 - 20;
-      let indicatorText = "";
-      let indicatorColor = "#FFFFFF";
-
-      switch (enemy.enemyType) {
-        case "grunt":
-          indicatorText = "G";
-          indicatorColor = "#FFFF00";
-          break;
-        case "soldier":
-          indicatorText = "S";
-          indicatorColor = "#00FF00";
-          break;
-        case "captain":
-          indicatorText = "C";
-          indicatorColor = "#FF00FF";
-          break;
-      }
+      const indicatorText = sprite.indicator?.text ?? "";
+      const indicatorColor = sprite.indicator?.color ?? "#FFFFFF";
 
       ctx.fillStyle = indicatorColor;
       ctx.font = `${Math.max(8, adjustedWidth / 5)}px monospace`;
@@ -3094,7 +3263,7 @@ export class RenderingSystem {
       state: string;
       health: number;
       maxHealth: number;
-      enemyType: string;
+      enemyType: EnemyTypeId;
       isHurt: boolean;
     }>,
     pickups: Array<{
@@ -3104,28 +3273,42 @@ export class RenderingSystem {
       value: number;
       spawnTime: number;
       animationOffset: number;
-      weaponType?: string;
+      weaponType?: WeaponId;
+      keycard?: string;
     }>,
     worldMap: number[][],
+    doors: readonly Door[],
     currentTime: number,
-    playerWeapon?: string,
+    playerWeapon?: WeaponId,
     isAttacking?: boolean,
     muzzleFlash?: boolean,
     // attackTimer?: number,
-    weaponRange?: number
+    weaponRange?: number,
+    powerUps: PowerUpTimers = {},
+    hazardMap: number[][] = [],
+    crushers: readonly Crusher[] = []
   ): void {
     // Use offscreen canvas for double buffering
     const ctx = this.offscreenCtx;
+    this.stats = {
+      numRays: this.numRays,
+      wallRays: 0,
+      occlusionRays: 0,
+      spritesDrawn: 0,
+    };
 
     // Clear screen with background gradient for performance
     ctx.fillStyle = "#2F2F2F";
     ctx.fillRect(0, 0, this.canvasWidth, this.canvasHeight);
 
+    // Light amplification lifts the ceiling/floor and drops wall shading
+    const fullBright = hasPowerUpEffect(powerUps, "fullBright");
+
     // Pre-render ceiling and floor
-    ctx.fillStyle = "#1F1F1F";
+    ctx.fillStyle = fullBright ? "#4A4A4A" : "#1F1F1F";
     ctx.fillRect(0, 0, this.canvasWidth, this.canvasHeight / 2);
 
-    ctx.fillStyle = "#3F3F3F";
+    ctx.fillStyle = fullBright ? "#6A6A6A" : "#3F3F3F";
     ctx.fillRect(
       0,
       this.canvasHeight / 2,
@@ -3133,8 +3316,27 @@ export class RenderingSystem {
       this.canvasHeight / 2
     );
 
+    // Hazard floors are tinted over the flat floor; walls cover the far rows
+    this.renderHazardFloor(
+      ctx,
+      playerX,
+      playerY,
+      playerAngle,
+      hazardMap,
+      fullBright
+    );
+
     // Batch raycasting for walls
-    this.renderWalls(ctx, playerX, playerY, playerAngle, worldMap);
+    this.renderWalls(
+      ctx,
+      playerX,
+      playerY,
+      playerAngle,
+      worldMap,
+      doors,
+      crushers,
+      fullBright
+    );
 
     // Render all sprites (enemies and pickups) with z-buffer consideration
     this.renderSprites(
@@ -3145,11 +3347,17 @@ export class RenderingSystem {
       enemies,
       pickups,
       worldMap,
+      doors,
+      crushers,
       currentTime
     );
 
-    // Render first-person weapon and hands
+    // Render first-person weapon and hands (see-through while invisible)
     if (playerWeapon) {
+      ctx.save();
+      if ((powerUps.invisibility ?? 0) > 0) {
+        ctx.globalAlpha = 0.3;
+      }
       this.drawFirstPersonWeapon(
         ctx,
         playerWeapon,
@@ -3157,8 +3365,11 @@ export class RenderingSystem {
         muzzleFlash || false,
         currentTime
       );
+      ctx.restore();
     }
 
+    this.renderPowerUpTint(ctx, powerUps);
+
     // Render crosshair with range feedback
     this.renderCrosshair(
       ctx,
@@ -3178,7 +3389,10 @@ export class RenderingSystem {
     playerX: number,
     playerY: number,
     playerAngle: number,
-    worldMap: number[][]
+    worldMap: number[][],
+    doors: readonly Door[],
+    crushers: readonly Crusher[],
+    fullBright: boolean
   ): void {
     const stripWidth = this.canvasWidth / this.numRays;
 
@@ -3187,7 +3401,17 @@ export class RenderingSystem {
       const rayAngle =
         playerAngle + Math.atan(cameraX * Math.tan(this.FOV / 2));
 
-      const hit = this.castRay(playerX, playerY, rayAngle, worldMap);
+      // Doors and crushers are drawn partly slid open, showing what's
+      // behind the gap
+      const hit = this.castRay(
+        playerX,
+        playerY,
+        rayAngle,
+        worldMap,
+        doors,
+        crushers
+      );
+      this.stats.wallRays++;
 
       const lineHeight = this.canvasHeight / hit.distance;
       const drawStart = Math.max(0, -lineHeight / 2 + this.canvasHeight / 2);
@@ -3196,7 +3420,10 @@ export class RenderingSystem {
         lineHeight / 2 + this.canvasHeight / 2
       );
 
-      ctx.fillStyle = this.getWallColor(hit.wallType, hit.side);
+      ctx.fillStyle = this.getWallColor(
+        hit.wallType,
+        fullBright ? 0 : hit.side
+      );
       ctx.fillRect(
         x * stripWidth,
         drawStart,
@@ -3206,6 +3433,92 @@ export class RenderingSystem {
     }
   }
 
+  /**
+   * Tint the floor where it lies on hazard cells. Each column samples a
+   * band of rows below the horizon; a row p pixels down shows the floor at
+   * distance h / 2p along the ray, matching the wall heights.
+   */
+  private renderHazardFloor(
+    ctx: CanvasRenderingContext2D,
+    playerX: number,
+    playerY: number,
+    playerAngle: number,
+    hazardMap: number[][],
+    fullBright: boolean
+  ): void {
+    if (!hazardMap.some((row) => row.some((cell) => cell !== 0))) return;
+
+    const stripWidth = this.canvasWidth / this.numRays;
+    const horizon = this.canvasHeight / 2;
+    const rowStep = 4;
+    const maxDistance = 16;
+    const firstRow = Math.ceil(horizon / (2 * maxDistance));
+
+    ctx.save();
+    for (let x = 0; x < this.numRays; x++) {
+      const cameraX = (2 * x) / this.numRays - 1;
+      const rayAngle =
+        playerAngle + Math.atan(cameraX * Math.tan(this.FOV / 2));
+      const cos = Math.cos(rayAngle);
+      const sin = Math.sin(rayAngle);
+
+      for (let p = firstRow; p < horizon; p += rowStep) {
+        const distance = this.canvasHeight / (2 * (p + rowStep / 2));
+        const cellX = Math.floor(playerX + cos * distance);
+        const cellY = Math.floor(playerY + sin * distance);
+        const hazard = getHazardAt(hazardMap[cellY]?.[cellX] ?? 0);
+        if (!hazard) continue;
+
+        // Fade into the dark with distance unless the light is amplified
+        ctx.globalAlpha = fullBright
+          ? 0.7
+          : 0.7 * Math.max(0.2, 1 - distance / maxDistance);
+        ctx.fillStyle = getHazard(hazard).color;
+        ctx.fillRect(x * stripWidth, horizon + p, stripWidth + 1, rowStep);
+      }
+    }
+    ctx.restore();
+  }
+
+  /**
+   * Whole-screen palette effects for active power-ups. They blink while
+   * the power-up is about to run out.
+   */
+  private renderPowerUpTint(
+    ctx: CanvasRenderingContext2D,
+    powerUps: PowerUpTimers
+  ): void {
+    const showing = (id: PowerUpId) => {
+      const ticks = powerUps[id] ?? 0;
+      return (
+        ticks > POWER_UP_WARNING_TICKS ||
+        (ticks > 0 && Math.floor(ticks / 8) % 2 === 0)
+      );
+    };
+
+    if (showing("berserk")) {
+      // Red haze that fades as berserk wears off
+      const fade = (powerUps.berserk ?? 0) / getPowerUp("berserk").duration;
+      ctx.fillStyle = `rgba(220, 38, 38, ${0.1 + fade * 0.2})`;
+      ctx.fillRect(0, 0, this.canvasWidth, this.canvasHeight);
+    }
+
+    if (showing("radiation_suit")) {
+      // Green haze while the suit keeps hazard floors off
+      ctx.fillStyle = "rgba(132, 204, 22, 0.12)";
+      ctx.fillRect(0, 0, this.canvasWidth, this.canvasHeight);
+    }
+
+    if (showing("invulnerability")) {
+      // Inverted palette, like the original
+      ctx.save();
+      ctx.globalCompositeOperation = "difference";
+      ctx.fillStyle = "#FFFFFF";
+      ctx.fillRect(0, 0, this.canvasWidth, this.canvasHeight);
+      ctx.restore();
+    }
+  }
+
   private renderSprites(
     ctx: CanvasRenderingContext2D,
     playerX: number,
@@ -3217,7 +3530,7 @@ export class RenderingSystem {
       state: string;
       health: number;
       maxHealth: number;
-      enemyType: string;
+      enemyType: EnemyTypeId;
       isHurt: boolean;
     }>,
     pickups: Array<{
@@ -3227,9 +3540,12 @@ export class RenderingSystem {
       value: number;
       spawnTime: number;
       animationOffset: number;
-      weaponType?: string;
+      weaponType?: WeaponId;
+      keycard?: string;
     }>,
     worldMap: number[][],
+    doors: readonly Door[],
+    crushers: readonly Crusher[],
     currentTime: number
   ): void {
     // Combine all sprites and sort by distance for proper z-ordering
@@ -3296,8 +3612,17 @@ export class RenderingSystem {
         }
 
         // Check if sprite is visible (not behind wall)
-        const hit = this.castRay(playerX, playerY, spriteAngle, worldMap);
+        const hit = this.castRay(
+          playerX,
+          playerY,
+          spriteAngle,
+          worldMap,
+          doors,
+          crushers
+        );
+        this.stats.occlusionRays++;
         if (hit.distance > sprite.distance) {
+          this.stats.spritesDrawn++;
           if (sprite.type === "enemy") {
             this.drawEnemySprite(
               ctx,
@@ -3332,7 +3657,7 @@ export class RenderingSystem {
       state: string;
       health: number;
       maxHealth: number;
-      enemyType: string;
+      enemyType: EnemyTypeId;
     }>,
     playerX?: number,
     playerY?: number,
@@ -3383,6 +3708,10 @@ export class RenderingSystem {
     ctx.stroke();
   }
 
+  public getRenderStats(): RenderStats {
+    return { ...this.stats };
+  }
+
   public resize(width: number, height: number): void {
     this.canvas.width = width;
     this.canvas.height = height;
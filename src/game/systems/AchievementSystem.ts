@@ -0,0 +1,128 @@
+import {
+  ACHIEVEMENT_IDS,
+  getAchievement,
+  isAchievementId,
+  type AchievementId,
+} from "../core/Achievements";
+import type { GameEvent } from "../core/GameEvents";
+import type { GameState } from "../core/GameStateManager";
+import type { WeaponId } from "../core/Weapons";
+
+const STORAGE_KEY = "doom-achievements";
+
+/** Unlock time in epoch milliseconds per achievement */
+export type UnlockedAchievements = Partial<Record<AchievementId, number>>;
+
+/**
+ * Evaluates achievement rules against the running game and persists unlocks
+ * to localStorage. Feed it every gameplay event and state update; runs with
+ * cheats never unlock anything.
+ * @author @darianrosebrook
+ */
+export class AchievementSystem {
+  private storage: Storage | null;
+  private unlocked: UnlockedAchievements;
+  private pendingEvents: GameEvent[] = [];
+  private weaponsOnEnemy = new Map<number, Set<WeaponId | null>>();
+  private floorSeed: number | null = null;
+  private lastRunTicks = 0;
+
+  constructor(
+    storage: Storage | null = typeof localStorage !== "undefined"
+      ? localStorage
+      : null
+  ) {
+    this.storage = storage;
+    this.unlocked = this.load();
+  }
+
+  public getUnlocked(): UnlockedAchievements {
+    return { ...this.unlocked };
+  }
+
+  public handleEvent(event: GameEvent): void {
+    this.pendingEvents.push(event);
+  }
+
+  /**
+   * Test every locked achievement against the new state and the events
+   * since the last update. Returns the ones that just unlocked.
+   */
+  public handleState(state: Readonly<GameState>): AchievementId[] {
+    const events = this.pendingEvents;
+    this.pendingEvents = [];
+
+    // Enemy ids are only unique within a floor and a run
+    if (
+      state.floorSeed !== this.floorSeed ||
+      state.runStats.ticks < this.lastRunTicks
+    ) {
+      this.weaponsOnEnemy.clear();
+      this.floorSeed = state.floorSeed;
+    }
+    this.lastRunTicks = state.runStats.ticks;
+
+    for (const event of events) {
+      if (event.type === "EnemyDamaged") {
+        const { enemyId, weapon } = event.payload;
+        if (!this.weaponsOnEnemy.has(enemyId)) {
+          this.weaponsOnEnemy.set(enemyId, new Set());
+        }
+        this.weaponsOnEnemy.get(enemyId)!.add(weapon);
+      }
+    }
+
+    const unlocked = state.cheated
+      ? []
+      : ACHIEVEMENT_IDS.filter(
+          (id) =>
+            this.unlocked[id] === undefined &&
+            getAchievement(id).test({
+              state,
+              events,
+              weaponsOnEnemy: this.weaponsOnEnemy,
+            })
+        );
+
+    for (const event of events) {
+      if (event.type === "EnemyKilled") {
+        this.weaponsOnEnemy.delete(event.payload.enemyId);
+      }
+    }
+
+    if (unlocked.length > 0) {
+      const now = Date.now();
+      unlocked.forEach((id) => (this.unlocked[id] = now));
+      this.save();
+    }
+    return unlocked;
+  }
+
+  private load(): UnlockedAchievements {
+    if (!this.storage) return {};
+
+    try {
+      const raw = this.storage.getItem(STORAGE_KEY);
+      if (!raw) return {};
+
+      const unlocked: UnlockedAchievements = {};
+      for (const [id, time] of Object.entries(JSON.parse(raw))) {
+        if (isAchievementId(id) && typeof time === "number") {
+          unlocked[id] = time;
+        }
+      }
+      return unlocked;
+    } catch (error) {
+      console.warn("Failed to load achievements:", error);
+      return {};
+    }
+  }
+
+  private save(): void {
+    try {
+      this.storage?.setItem(STORAGE_KEY, JSON.stringify(this.unlocked));
+    } catch (error) {
+      console.warn("Failed to save achievements:", error);
+    }
+  }
+}
@@ -1,3 +1,5 @@
+import { SeededRandom } from "../core/SeededRandom";
+
 export interface AudioSettings {
   masterVolume: number;
   sfxVolume: number;
@@ -13,6 +15,7 @@ export interface GameStateForMusic {
   closestEnemyDistance: number;
   isInCombat: boolean;
   isBossLevel: boolean;
+  activePowerUps: number; // Timed power-ups currently running
   currentFloor: number;
   gameStatus: "playing" | "paused" | "victory" | "defeat";
 }
@@ -40,46 +43,19 @@ export type SoundType =
   | "pickup_health"
   | "pickup_ammo"
   | "pickup_weapon"
+  | "pickup_armor"
+  | "pickup_powerup"
+  | "powerup_expire"
+  | "door_open"
+  | "door_close"
+  | "switch_press"
+  | "secret_found"
   | "player_hurt"
   | "footstep"
   | "menu_click"
   | "weapon_switch"
   | "ambient_doom";
 
-/**
- * Seeded random number generator for deterministic procedural generation
- * @author @darianrosebrook
- */
-class SeededRandom {
-  private seed: number;
-
-  constructor(seed: number) {
-    this.seed = seed;
-  }
-
-  /**
-   * Generate a pseudo-random number between 0 and 1
-   */
-  next(): number {
-    this.seed = (this.seed * 9301 + 49297) % 233280;
-    return this.seed / 233280;
-  }
-
-  /**
-   * Generate a random integer between min and max (inclusive)
-   */
-  nextInt(min: number, max: number): number {
-    return Math.floor(this.next() * (max - min + 1)) + min;
-  }
-
-  /**
-   * Choose a random element from an array
-   */
-  choose<T>(array: T[]): T {
-    return array[this.nextInt(0, array.length - 1)];
-  }
-}
-
 /**
  * Perlin noise implementation for smooth musical transitions
  * Based on PROCJAM principles: "walk, don't jump"
@@ -1997,6 +1973,177 @@ export class AudioSystem {
           },
         ]);
 
+      case "pickup_armor":
+        // Low metallic clank rising into a fifth
+        return this.createComplexSound([
+          {
+            frequency: E_MINOR_SCALE.E2,
+            duration: 0.25,
+            type: "square",
+            volume: 0.6,
+            envelope: { attack: 0.01, decay: 0.1, sustain: 0.4, release: 0.1 },
+          },
+          {
+            frequency: E_MINOR_SCALE.B3,
+            duration: 0.3,
+            type: "triangle",
+            volume: 0.5,
+            delay: 0.08,
+            envelope: { attack: 0.05, decay: 0.1, sustain: 0.5, release: 0.15 },
+          },
+        ]);
+
+      case "pickup_powerup":
+        // Rising arpeggio for the rare pickups
+        return this.createComplexSound([
+          {
+            frequency: E_MINOR_SCALE.E3,
+            duration: 0.25,
+            type: "triangle",
+            volume: 0.6,
+            envelope: { attack: 0.02, decay: 0.05, sustain: 0.6, release: 0.1 },
+          },
+          {
+            frequency: E_MINOR_SCALE.G3,
+            duration: 0.25,
+            type: "triangle",
+            volume: 0.6,
+            delay: 0.08,
+            envelope: { attack: 0.02, decay: 0.05, sustain: 0.6, release: 0.1 },
+          },
+          {
+            frequency: E_MINOR_SCALE.B3,
+            duration: 0.25,
+            type: "triangle",
+            volume: 0.6,
+            delay: 0.16,
+            envelope: { attack: 0.02, decay: 0.05, sustain: 0.6, release: 0.1 },
+          },
+          {
+            frequency: E_MINOR_SCALE.E4,
+            duration: 0.25,
+            type: "triangle",
+            volume: 0.6,
+            delay: 0.24,
+            envelope: { attack: 0.02, decay: 0.05, sustain: 0.6, release: 0.1 },
+          },
+        ]);
+
+      case "powerup_expire":
+        // The same idea falling, as the effect wears off
+        return this.createComplexSound([
+          {
+            frequency: E_MINOR_SCALE.B3,
+            duration: 0.3,
+            type: "triangle",
+            volume: 0.6,
+            envelope: { attack: 0.02, decay: 0.1, sustain: 0.5, release: 0.15 },
+          },
+          {
+            frequency: E_MINOR_SCALE.E3,
+            duration: 0.4,
+            type: "triangle",
+            volume: 0.5,
+            delay: 0.15,
+            envelope: { attack: 0.02, decay: 0.1, sustain: 0.5, release: 0.2 },
+          },
+        ]);
+
+      case "door_open":
+        // Low mechanical grind as the panel slides into the wall
+        return this.createComplexSound([
+          {
+            frequency: 55,
+            duration: 0.45,
+            type: "sawtooth",
+            volume: 0.5,
+            envelope: { attack: 0.05, decay: 0.1, sustain: 0.6, release: 0.15 },
+          },
+          {
+            frequency: 110,
+            duration: 0.1,
+            type: "square",
+            volume: 0.3,
+            delay: 0.4,
+            envelope: { attack: 0.005, decay: 0.05, sustain: 0.2, release: 0.04 },
+          },
+        ]);
+
+      case "door_close":
+        // The same grind, ending in a heavier thud as it shuts
+        return this.createComplexSound([
+          {
+            frequency: 55,
+            duration: 0.45,
+            type: "sawtooth",
+            volume: 0.5,
+            envelope: { attack: 0.05, decay: 0.1, sustain: 0.6, release: 0.15 },
+          },
+          {
+            frequency: 65,
+            duration: 0.15,
+            type: "square",
+            volume: 0.6,
+            delay: 0.45,
+            envelope: { attack: 0.005, decay: 0.08, sustain: 0.2, release: 0.06 },
+          },
+        ]);
+
+      case "switch_press":
+        // Sharp metallic clack of the lever
+        return this.createComplexSound([
+          {
+            frequency: 220,
+            duration: 0.06,
+            type: "square",
+            volume: 0.5,
+            envelope: { attack: 0.002, decay: 0.03, sustain: 0.2, release: 0.03 },
+          },
+          {
+            frequency: 330,
+            duration: 0.08,
+            type: "square",
+            volume: 0.4,
+            delay: 0.07,
+            envelope: { attack: 0.002, decay: 0.04, sustain: 0.2, release: 0.04 },
+          },
+        ]);
+
+      case "secret_found":
+        // Rising arpeggio over the grind of the wall sliding back
+        return this.createComplexSound([
+          {
+            frequency: 49,
+            duration: 0.8,
+            type: "sawtooth",
+            volume: 0.4,
+            envelope: { attack: 0.05, decay: 0.1, sustain: 0.6, release: 0.2 },
+          },
+          {
+            frequency: E_MINOR_SCALE.E4,
+            duration: 0.15,
+            type: "triangle",
+            volume: 0.5,
+            envelope: { attack: 0.01, decay: 0.05, sustain: 0.5, release: 0.08 },
+          },
+          {
+            frequency: E_MINOR_SCALE.G4,
+            duration: 0.15,
+            type: "triangle",
+            volume: 0.5,
+            delay: 0.12,
+            envelope: { attack: 0.01, decay: 0.05, sustain: 0.5, release: 0.08 },
+          },
+          {
+            frequency: E_MINOR_SCALE.B4,
+            duration: 0.3,
+            type: "triangle",
+            volume: 0.6,
+            delay: 0.24,
+            envelope: { attack: 0.01, decay: 0.05, sustain: 0.6, release: 0.15 },
+          },
+        ]);
+
       case "player_hurt":
         return this.createComplexSound([
           {
@@ -2849,6 +2996,11 @@ export class AudioSystem {
       intensity += 0.2;
     }
 
+    // Power-ups push the music harder while they last
+    if (gameState.activePowerUps > 0) {
+      intensity += 0.15;
+    }
+
     return Math.min(1.0, intensity);
   }
 
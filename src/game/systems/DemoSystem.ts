@@ -0,0 +1,324 @@
+import {
+  GAME_MODES,
+  type GameMode,
+  type MovementInput,
+  type TickInput,
+} from "../core/GameStateManager";
+import { WEAPON_IDS } from "../core/Weapons";
+import { isSkillId, type SkillId } from "../core/Skills";
+import { PERK_IDS, type PerkId } from "../core/Perks";
+
+/**
+ * Current demo file version. Bump this whenever the frame encoding changes;
+ * older demos are rejected rather than replayed out of sync.
+ */
+export const DEMO_VERSION = 7;
+
+const DEMO_FORMAT = "doom-demo";
+
+/**
+ * One animation frame of recorded input. The input was queued for the
+ * `ticks` fixed updates that ran during the frame, so playback repeats the
+ * frame exactly no matter how fast the replaying machine renders.
+ */
+export interface DemoFrame extends TickInput {
+  ticks: number;
+  floorsAdvanced: number; // Floors skipped from the victory screen before this frame
+  perk: PerkId | null; // Perk picked on the victory screen when advancing
+}
+
+export interface Demo {
+  version: number;
+  seed: number;
+  skill: SkillId;
+  mode: GameMode;
+  recordedAt: number; // Epoch milliseconds
+  frames: DemoFrame[];
+}
+
+// Movement keys, fire and use packed into one bitmask per frame
+const BUTTON_BITS: Array<keyof MovementInput> = [
+  "forward",
+  "backward",
+  "left",
+  "right",
+  "rotateLeft",
+  "rotateRight",
+];
+const FIRE_BIT = 1 << BUTTON_BITS.length;
+const USE_BIT = FIRE_BIT << 1;
+
+// Weapon switches are stored as 1-based slot order, 0 means no switch
+const WEAPON_CODES: Array<TickInput["weaponSwitch"]> = [null, ...WEAPON_IDS];
+
+// Perks the same way, in table order
+const PERK_CODES: Array<PerkId | null> = [null, ...PERK_IDS];
+
+type EncodedFrame = number[];
+
+/** Longest demo that will load, in frames: two hours at 60 fps */
+const MAX_DEMO_FRAMES = 60 * 60 * 60 * 2;
+
+/** Most ticks one frame can run; the game loop stops at 15 */
+const MAX_FRAME_TICKS = 60;
+
+/** Furthest one frame's mouse movement can turn, in pixels */
+const MAX_MOUSE_DELTA = 10000;
+
+/** Most floors one frame can skip from the victory screen */
+const MAX_FLOORS_ADVANCED = 10;
+
+function isIntegerUpTo(value: unknown, max: number): value is number {
+  return (
+    typeof value === "number" &&
+    Number.isInteger(value) &&
+    value >= 0 &&
+    value <= max
+  );
+}
+
+/**
+ * Whether a stored run is a repeat count followed by a frame this build
+ * could have encoded, so a damaged file can't replay nonsense or expand
+ * into more frames than fit in memory
+ */
+function isEncodedRun(value: unknown): value is EncodedFrame {
+  if (!Array.isArray(value) || value.length < 2 || value.length > 7) {
+    return false;
+  }
+  const [
+    count,
+    ticks,
+    buttons = 0,
+    mouseDeltaX = 0,
+    weapon = 0,
+    floorsAdvanced = 0,
+    perk = 0,
+  ] = value;
+  return (
+    isIntegerUpTo(count, MAX_DEMO_FRAMES) &&
+    count > 0 &&
+    isIntegerUpTo(ticks, MAX_FRAME_TICKS) &&
+    isIntegerUpTo(buttons, (USE_BIT << 1) - 1) &&
+    typeof mouseDeltaX === "number" &&
+    Math.abs(mouseDeltaX) <= MAX_MOUSE_DELTA && // Also false for NaN
+    isIntegerUpTo(weapon, WEAPON_CODES.length - 1) &&
+    isIntegerUpTo(floorsAdvanced, MAX_FLOORS_ADVANCED) &&
+    isIntegerUpTo(perk, PERK_CODES.length - 1)
+  );
+}
+
+function encodeFrame(frame: DemoFrame): EncodedFrame {
+  let buttons = (frame.fire ? FIRE_BIT : 0) | (frame.use ? USE_BIT : 0);
+  BUTTON_BITS.forEach((key, bit) => {
+    if (frame.movement[key]) buttons |= 1 << bit;
+  });
+
+  const encoded = [
+    frame.ticks,
+    buttons,
+    frame.mouseDeltaX,
+    WEAPON_CODES.indexOf(frame.weaponSwitch),
+    frame.floorsAdvanced,
+    PERK_CODES.indexOf(frame.perk),
+  ];
+
+  // Trailing zeros are implied
+  while (encoded.length > 1 && encoded[encoded.length - 1] === 0) {
+    encoded.pop();
+  }
+  return encoded;
+}
+
+function decodeFrame(encoded: EncodedFrame): DemoFrame {
+  const [
+    ticks,
+    buttons = 0,
+    mouseDeltaX = 0,
+    weapon = 0,
+    floorsAdvanced = 0,
+    perk = 0,
+  ] = encoded;
+
+  const movement = {} as MovementInput;
+  BUTTON_BITS.forEach((key, bit) => {
+    movement[key] = (buttons & (1 << bit)) !== 0;
+  });
+
+  return {
+    ticks,
+    movement,
+    mouseDeltaX,
+    fire: (buttons & FIRE_BIT) !== 0,
+    use: (buttons & USE_BIT) !== 0,
+    weaponSwitch: WEAPON_CODES[weapon] ?? null,
+    floorsAdvanced,
+    perk: PERK_CODES[perk] ?? null,
+  };
+}
+
+/**
+ * Serialize a demo to compact JSON. Frames are bit-packed and runs of
+ * identical frames are stored once with a repeat count.
+ */
+export function encodeDemo(demo: Demo): string {
+  const runs: EncodedFrame[] = [];
+  let previous = "";
+
+  for (const frame of demo.frames) {
+    const encoded = encodeFrame(frame);
+    const key = encoded.join(",");
+    if (key === previous) {
+      runs[runs.length - 1][0]++;
+    } else {
+      runs.push([1, ...encoded]);
+      previous = key;
+    }
+  }
+
+  return JSON.stringify({
+    format: DEMO_FORMAT,
+    version: demo.version,
+    seed: demo.seed,
+    skill: demo.skill,
+    mode: demo.mode,
+    recordedAt: demo.recordedAt,
+    frames: runs,
+  });
+}
+
+/**
+ * Parse a demo file, or return null if it isn't a demo this build can replay
+ */
+export function decodeDemo(text: string): Demo | null {
+  try {
+    const raw = JSON.parse(text);
+    if (
+      !raw ||
+      raw.format !== DEMO_FORMAT ||
+      typeof raw.seed !== "number" ||
+      !isSkillId(raw.skill) ||
+      !GAME_MODES.includes(raw.mode) ||
+      !Array.isArray(raw.frames)
+    ) {
+      console.warn("Not a demo file");
+      return null;
+    }
+
+    if (raw.version !== DEMO_VERSION) {
+      console.warn(
+        `Demo version ${raw.version} doesn't match supported ${DEMO_VERSION}`
+      );
+      return null;
+    }
+
+    const frames: DemoFrame[] = [];
+    for (const run of raw.frames as unknown[]) {
+      if (!isEncodedRun(run)) {
+        console.warn("Demo has a malformed frame run:", run);
+        return null;
+      }
+      const [count, ...encoded] = run;
+      if (frames.length + count > MAX_DEMO_FRAMES) {
+        console.warn(`Demo is longer than ${MAX_DEMO_FRAMES} frames`);
+        return null;
+      }
+
+      const frame = decodeFrame(encoded);
+      for (let i = 0; i < count; i++) {
+        frames.push({ ...frame, movement: { ...frame.movement } });
+      }
+    }
+
+    return {
+      version: raw.version,
+      seed: raw.seed >>> 0,
+      skill: raw.skill,
+      mode: raw.mode,
+      recordedAt: raw.recordedAt ?? 0,
+      frames,
+    };
+  } catch (error) {
+    console.warn("Failed to read demo:", error);
+    return null;
+  }
+}
+
+/**
+ * Collects frames for a run started from a seed, skill level and mode
+ * @author @darianrosebrook
+ */
+export class DemoRecorder {
+  private seed: number;
+  private skill: SkillId;
+  private mode: GameMode;
+  private recordedAt: number;
+  private frames: DemoFrame[] = [];
+
+  constructor(seed: number, skill: SkillId, mode: GameMode) {
+    this.seed = seed;
+    this.skill = skill;
+    this.mode = mode;
+    this.recordedAt = Date.now();
+  }
+
+  public record(frame: DemoFrame): void {
+    this.frames.push({ ...frame, movement: { ...frame.movement } });
+  }
+
+  public getFrameCount(): number {
+    return this.frames.length;
+  }
+
+  public toDemo(): Demo {
+    return {
+      version: DEMO_VERSION,
+      seed: this.seed,
+      skill: this.skill,
+      mode: this.mode,
+      recordedAt: this.recordedAt,
+      frames: this.frames.map((frame) => ({
+        ...frame,
+        movement: { ...frame.movement },
+      })),
+    };
+  }
+}
+
+/**
+ * Feeds recorded frames back to the game loop one at a time
+ * @author @darianrosebrook
+ */
+export class DemoPlayer {
+  private demo: Demo;
+  private position = 0;
+
+  constructor(demo: Demo) {
+    this.demo = demo;
+  }
+
+  public next(): DemoFrame | null {
+    if (this.position >= this.demo.frames.length) return null;
+    return this.demo.frames[this.position++];
+  }
+
+  public isFinished(): boolean {
+    return this.position >= this.demo.frames.length;
+  }
+
+  /**
+   * Playback progress from 0 to 1
+   */
+  public getProgress(): number {
+    if (this.demo.frames.length === 0) return 1;
+    return this.position / this.demo.frames.length;
+  }
+
+  public getSeed(): number {
+    return this.demo.seed;
+  }
+
+  public rewind(): void {
+    this.position = 0;
+  }
+}
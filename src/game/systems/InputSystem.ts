@@ -1,17 +1,19 @@
+import type { MovementInput } from "../core/GameStateManager";
+import { getWeaponForSlot, type WeaponId } from "../core/Weapons";
+
+export type { MovementInput };
+
 export interface InputState {
   mouseLocked: boolean;
   pausePressed: boolean;
-  weaponSwitchPressed: { weapon: "pistol" | "shotgun" | "chaingun" } | null;
+  weaponSwitchPressed: { weapon: WeaponId } | null;
+  usePressed: boolean;
+  quickSavePressed: boolean;
+  quickLoadPressed: boolean;
+  consoleTogglePressed: boolean;
+  debugOverlayPressed: boolean;
 }
 
-export interface MovementInput {
-  forward: boolean;
-  backward: boolean;
-  left: boolean;
-  right: boolean;
-  rotateLeft: boolean;
-  rotateRight: boolean;
-}
 
 export class InputSystem {
   private keys: Set<string> = new Set();
@@ -22,6 +24,11 @@ export class InputSystem {
     mouseLocked: false,
     pausePressed: false,
     weaponSwitchPressed: null,
+    usePressed: false,
+    quickSavePressed: false,
+    quickLoadPressed: false,
+    consoleTogglePressed: false,
+    debugOverlayPressed: false,
   };
 
   constructor() {
@@ -42,6 +49,14 @@ export class InputSystem {
   }
 
   private handleKeyDown(event: KeyboardEvent): void {
+    // Typing into a text field (the console, seed entry) isn't game input
+    if (
+      event.target instanceof HTMLInputElement ||
+      event.target instanceof HTMLTextAreaElement
+    ) {
+      return;
+    }
+
     const key = event.code.toLowerCase();
 
     // Prevent browser shortcuts during gameplay
@@ -68,21 +83,58 @@ export class InputSystem {
       }, 50);
     }
 
-    // Handle weapon switching
-    if (event.code === "Digit1" || event.code === "Numpad1") {
-      this.inputState.weaponSwitchPressed = { weapon: "pistol" };
+    // Space or F presses whatever is in front of the player (once per press,
+    // not on key repeat)
+    if ((event.code === "Space" || event.code === "KeyF") && !event.repeat) {
+      this.inputState.usePressed = true;
       this.notifyListeners();
       setTimeout(() => {
-        this.inputState.weaponSwitchPressed = null;
+        this.inputState.usePressed = false;
       }, 50);
-    } else if (event.code === "Digit2" || event.code === "Numpad2") {
-      this.inputState.weaponSwitchPressed = { weapon: "shotgun" };
+    }
+
+    // Quicksave / quickload (block the browser's F5 refresh)
+    if (event.code === "F5") {
+      event.preventDefault();
+      this.inputState.quickSavePressed = true;
       this.notifyListeners();
       setTimeout(() => {
-        this.inputState.weaponSwitchPressed = null;
+        this.inputState.quickSavePressed = false;
+      }, 50);
+    } else if (event.code === "F9") {
+      event.preventDefault();
+      this.inputState.quickLoadPressed = true;
+      this.notifyListeners();
+      setTimeout(() => {
+        this.inputState.quickLoadPressed = false;
+      }, 50);
+    }
+
+    // F3 cycles the perf / debug overlay (block the browser's find)
+    if (event.code === "F3") {
+      event.preventDefault();
+      this.inputState.debugOverlayPressed = true;
+      this.notifyListeners();
+      setTimeout(() => {
+        this.inputState.debugOverlayPressed = false;
       }, 50);
-    } else if (event.code === "Digit3" || event.code === "Numpad3") {
-      this.inputState.weaponSwitchPressed = { weapon: "chaingun" };
+    }
+
+    // Backtick opens the developer console
+    if (event.code === "Backquote") {
+      event.preventDefault();
+      this.inputState.consoleTogglePressed = true;
+      this.notifyListeners();
+      setTimeout(() => {
+        this.inputState.consoleTogglePressed = false;
+      }, 50);
+    }
+
+    // Handle weapon switching (number keys select weapon slots)
+    const slotMatch = /^(?:Digit|Numpad)(\d)$/.exec(event.code);
+    const weapon = slotMatch ? getWeaponForSlot(Number(slotMatch[1])) : null;
+    if (weapon) {
+      this.inputState.weaponSwitchPressed = { weapon };
       this.notifyListeners();
       setTimeout(() => {
         this.inputState.weaponSwitchPressed = null;
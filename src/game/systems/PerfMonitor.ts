@@ -0,0 +1,135 @@
+import type { SimulationFrameStats } from "../core/GameStateManager";
+import type { RenderStats } from "../rendering/RenderingSystem";
+
+/** Frames kept for the frame time and tick graphs */
+export const PERF_HISTORY_LENGTH = 120;
+
+export interface ReactRenderCount {
+  component: string;
+  total: number;
+  lastSecond: number; // Renders during the last full second
+}
+
+export interface PerfSnapshot {
+  fps: number;
+  frameTimes: number[]; // Milliseconds between frames, oldest first
+  workTimes: number[]; // Milliseconds spent in the game loop, oldest first
+  ticksPerFrame: number[]; // Fixed ticks run per frame, oldest first
+  render: RenderStats;
+  simulation: SimulationFrameStats;
+  reactRenders: ReactRenderCount[];
+}
+
+/**
+ * Collects per-frame timings and work counters for the perf overlay.
+ * Recording is cheap enough to leave on; the overlay only reads it when shown.
+ * @author @darianrosebrook
+ */
+export class PerfMonitor {
+  private frameTimes: number[] = [];
+  private workTimes: number[] = [];
+  private ticksPerFrame: number[] = [];
+  private lastFrameTime: number | null = null;
+  private render: RenderStats = {
+    numRays: 0,
+    wallRays: 0,
+    occlusionRays: 0,
+    spritesDrawn: 0,
+  };
+  private simulation: SimulationFrameStats = { ticks: 0, losRays: 0 };
+  private renderCounts = new Map<string, { total: number; atSecond: number }>();
+  private renderRates = new Map<string, number>();
+  private lastRollup = 0;
+
+  private static push(history: number[], value: number): void {
+    history.push(value);
+    if (history.length > PERF_HISTORY_LENGTH) {
+      history.shift();
+    }
+  }
+
+  /**
+   * Record a finished frame
+   * @param now requestAnimationFrame timestamp of the frame
+   * @param workMs time spent stepping and drawing it
+   */
+  public recordFrame(
+    now: number,
+    workMs: number,
+    render: RenderStats,
+    simulation: SimulationFrameStats
+  ): void {
+    if (this.lastFrameTime !== null) {
+      PerfMonitor.push(this.frameTimes, now - this.lastFrameTime);
+    }
+    this.lastFrameTime = now;
+    PerfMonitor.push(this.workTimes, workMs);
+    this.render = render;
+    this.simulation = simulation;
+
+    // Roll React render counts into per-second rates
+    if (now - this.lastRollup >= 1000) {
+      this.renderCounts.forEach((count, component) => {
+        this.renderRates.set(component, count.total - count.atSecond);
+        count.atSecond = count.total;
+      });
+      this.lastRollup = now;
+    }
+  }
+
+  /**
+   * Record how many fixed ticks a frame ran. Arrives once the simulation
+   * answers, which may be after the frame was drawn.
+   */
+  public recordTicks(ticks: number): void {
+    PerfMonitor.push(this.ticksPerFrame, ticks);
+  }
+
+  /**
+   * Count a React render; call from the component body
+   */
+  public countRender(component: string): void {
+    const count = this.renderCounts.get(component);
+    if (count) {
+      count.total++;
+    } else {
+      this.renderCounts.set(component, { total: 1, atSecond: 0 });
+    }
+  }
+
+  /**
+   * Forget frame history, e.g. after the loop was stopped
+   */
+  public resetFrames(): void {
+    this.frameTimes = [];
+    this.workTimes = [];
+    this.ticksPerFrame = [];
+    this.lastFrameTime = null;
+  }
+
+  public getSnapshot(): PerfSnapshot {
+    const recent = this.frameTimes.slice(-30);
+    const averageFrame =
+      recent.reduce((sum, time) => sum + time, 0) / (recent.length || 1);
+
+    return {
+      fps: averageFrame > 0 ? 1000 / averageFrame : 0,
+      frameTimes: [...this.frameTimes],
+      workTimes: [...this.workTimes],
+      ticksPerFrame: [...this.ticksPerFrame],
+      render: { ...this.render },
+      simulation: { ...this.simulation },
+      reactRenders: Array.from(this.renderCounts, ([component, count]) => ({
+        component,
+        total: count.total,
+        lastSecond: this.renderRates.get(component) ?? 0,
+      })),
+    };
+  }
+}
+
+/**
+ * Shared monitor: the engine records frames into it and React components
+ * count their renders, wherever they sit in the tree
+ */
+export const perfMonitor = new PerfMonitor();
@@ -0,0 +1,211 @@
+import {
+  GAME_MODES,
+  type GameMode,
+  type GameState,
+} from "../core/GameStateManager";
+import { BOSS_TYPES } from "../core/Enemies";
+import { isSkillId, type SkillId } from "../core/Skills";
+import { getAccuracy, getTotalKills } from "../core/Stats";
+
+/**
+ * Current history file version. Bump this whenever RunRecord changes shape;
+ * stored and imported histories from other versions are ignored.
+ */
+export const RUN_HISTORY_VERSION = 1;
+
+const RUN_HISTORY_FORMAT = "doom-run-history";
+const STORAGE_KEY = "doom-run-history";
+
+/** Oldest runs are dropped past this many */
+export const MAX_RUN_RECORDS = 500;
+
+export const RUN_OUTCOMES = ["death", "quit"] as const;
+export type RunOutcome = (typeof RUN_OUTCOMES)[number];
+
+// Campaign score; survival runs keep the score from their waves
+const CAMPAIGN_SCORE = {
+  kill: 10,
+  bossKill: 250,
+  floor: 500, // For each floor cleared
+};
+
+export interface RunRecord {
+  id: string;
+  date: number; // Epoch milliseconds when the run ended
+  seed: number;
+  skill: SkillId;
+  mode: GameMode;
+  outcome: RunOutcome;
+  deepestFloor: number; // Wave reached in survival
+  bossesKilled: number;
+  ticks: number; // Fixed ticks played
+  accuracy: number; // 0-100
+  score: number;
+  cheated: boolean;
+}
+
+export function getBossKills(state: Readonly<GameState>): number {
+  return BOSS_TYPES.reduce(
+    (sum, type) => sum + (state.runStats.kills[type] ?? 0),
+    0
+  );
+}
+
+export function getRunScore(state: Readonly<GameState>): number {
+  if (state.survival) return state.survival.score;
+
+  const bossKills = getBossKills(state);
+  return (
+    (getTotalKills(state.runStats) - bossKills) * CAMPAIGN_SCORE.kill +
+    bossKills * CAMPAIGN_SCORE.bossKill +
+    (state.currentFloor - 1) * CAMPAIGN_SCORE.floor
+  );
+}
+
+/**
+ * Summarise a finished run from its final state
+ */
+export function createRunRecord(
+  state: Readonly<GameState>,
+  outcome: RunOutcome,
+  date = Date.now()
+): RunRecord {
+  return {
+    id: `${date.toString(36)}-${state.runSeed.toString(36)}`,
+    date,
+    seed: state.runSeed,
+    skill: state.skill,
+    mode: state.mode,
+    outcome,
+    deepestFloor: state.survival ? state.survival.wave : state.currentFloor,
+    bossesKilled: getBossKills(state),
+    ticks: state.runStats.ticks,
+    accuracy: getAccuracy(state.runStats),
+    score: getRunScore(state),
+    cheated: state.cheated,
+  };
+}
+
+function isRunRecord(value: unknown): value is RunRecord {
+  const run = value as RunRecord;
+  return (
+    !!run &&
+    typeof run.id === "string" &&
+    typeof run.seed === "number" &&
+    isSkillId(run.skill) &&
+    GAME_MODES.includes(run.mode) &&
+    RUN_OUTCOMES.includes(run.outcome) &&
+    typeof run.cheated === "boolean" &&
+    [
+      run.date,
+      run.deepestFloor,
+      run.bossesKilled,
+      run.ticks,
+      run.accuracy,
+      run.score,
+    ].every((field) => typeof field === "number" && Number.isFinite(field))
+  );
+}
+
+export function encodeRunHistory(runs: RunRecord[]): string {
+  return JSON.stringify({
+    format: RUN_HISTORY_FORMAT,
+    version: RUN_HISTORY_VERSION,
+    runs,
+  });
+}
+
+/**
+ * Parse an exported history, dropping any entries that don't validate
+ */
+export function decodeRunHistory(text: string): RunRecord[] | null {
+  try {
+    const raw = JSON.parse(text);
+    if (
+      !raw ||
+      raw.format !== RUN_HISTORY_FORMAT ||
+      !Array.isArray(raw.runs)
+    ) {
+      console.warn("Not a run history file");
+      return null;
+    }
+
+    if (raw.version !== RUN_HISTORY_VERSION) {
+      console.warn(
+        `Run history version ${raw.version} doesn't match supported ${RUN_HISTORY_VERSION}`
+      );
+      return null;
+    }
+
+    return (raw.runs as unknown[]).filter(isRunRecord);
+  } catch (error) {
+    console.warn("Failed to read run history:", error);
+    return null;
+  }
+}
+
+/**
+ * Finished runs persisted to localStorage, newest first
+ * @author @darianrosebrook
+ */
+export class RunHistory {
+  private storage: Storage | null;
+
+  constructor(
+    storage: Storage | null = typeof localStorage !== "undefined"
+      ? localStorage
+      : null
+  ) {
+    this.storage = storage;
+  }
+
+  public list(): RunRecord[] {
+    if (!this.storage) return [];
+
+    try {
+      const raw = this.storage.getItem(STORAGE_KEY);
+      return raw ? (decodeRunHistory(raw) ?? []) : [];
+    } catch (error) {
+      console.warn("Failed to load run history:", error);
+      return [];
+    }
+  }
+
+  public record(run: RunRecord): boolean {
+    return this.write([run, ...this.list()]);
+  }
+
+  /**
+   * Merge runs from another history, skipping ones already recorded.
+   * Returns how many were added, or null if they couldn't be stored.
+   */
+  public import(runs: RunRecord[]): number | null {
+    const existing = this.list();
+    const known = new Set(existing.map((run) => run.id));
+    const added = runs.filter((run) => !known.has(run.id));
+    return this.write([...existing, ...added]) ? added.length : null;
+  }
+
+  public export(): string {
+    return encodeRunHistory(this.list());
+  }
+
+  public clear(): void {
+    this.storage?.removeItem(STORAGE_KEY);
+  }
+
+  private write(runs: RunRecord[]): boolean {
+    if (!this.storage) return false;
+
+    const sorted = [...runs]
+      .sort((a, b) => b.date - a.date)
+      .slice(0, MAX_RUN_RECORDS);
+    try {
+      this.storage.setItem(STORAGE_KEY, encodeRunHistory(sorted));
+      return true;
+    } catch (error) {
+      console.warn("Failed to save run history:", error);
+      return false;
+    }
+  }
+}
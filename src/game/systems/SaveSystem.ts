@@ -0,0 +1,549 @@
+import {
+  GAME_MODES,
+  type CheatFlags,
+  type Enemy,
+  type GameMode,
+  type GameState,
+  type Pickup,
+  type Player,
+  type SurvivalState,
+  type Timer,
+} from "../core/GameStateManager";
+import { isSkillId, type SkillId } from "../core/Skills";
+import type { Door } from "../core/Doors";
+import type { Crusher } from "../core/Crushers";
+import type { Switch } from "../core/Switches";
+import type { PushWall } from "../core/Secrets";
+import type { FloorObjective } from "../core/Objectives";
+import { createPlayStats, type PlayStats } from "../core/Stats";
+
+/**
+ * Current save schema version. Bump this whenever SaveData changes shape and
+ * add a migration from the previous version to MIGRATIONS below.
+ */
+export const SAVE_VERSION = 16;
+
+export const SAVE_SLOTS = ["quicksave", "slot-1", "slot-2", "slot-3"] as const;
+export type SaveSlot = (typeof SAVE_SLOTS)[number];
+
+const STORAGE_PREFIX = "doom-save:";
+
+export interface SerializedPlayer extends Omit<Player, "availableWeapons"> {
+  availableWeapons: Player["weapon"][]; // Sets don't survive JSON
+}
+
+/**
+ * Minimal persisted slice of GameState - transient loop fields
+ * (timing, pause flags) are rebuilt on load
+ */
+export interface SaveData {
+  player: SerializedPlayer;
+  enemies: Enemy[];
+  pickups: Pickup[];
+  worldMap: number[][];
+  hazardMap: number[][];
+  doors: Door[];
+  crushers: Crusher[];
+  switches: Switch[];
+  pushWalls: PushWall[];
+  objective: FloorObjective | null;
+  worldSize: number;
+  currentFloor: number;
+  floorTheme: string;
+  isBossFloor: boolean;
+  bossDefeated: boolean;
+  runSeed: number;
+  skill: SkillId;
+  mode: GameMode;
+  survival: SurvivalState | null;
+  floorStats: PlayStats;
+  runStats: PlayStats;
+  discovered: number[];
+  floorSeed: number;
+  rngState: number;
+  nextPickupId: number;
+  nextEnemyId: number;
+  timers: Timer[];
+  nextTimerId: number;
+  cheats: CheatFlags;
+  cheated: boolean;
+}
+
+export interface SaveSnapshot {
+  version: number;
+  savedAt: number; // Epoch milliseconds
+  data: SaveData;
+}
+
+export interface SaveSlotInfo {
+  slot: SaveSlot;
+  snapshot: SaveSnapshot | null;
+}
+
+type RawRecord = Record<string, unknown>;
+
+/** A parsed snapshot of an older version, fields not yet checked */
+interface RawSnapshot extends RawRecord {
+  version: number;
+  data: RawRecord;
+}
+
+function isRecord(value: unknown): value is RawRecord {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/** The value if it's an object, else an empty one */
+function asRecord(value: unknown): RawRecord {
+  return isRecord(value) ? value : {};
+}
+
+/** The value if it's an array, else an empty one */
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Schema migrations keyed by the version they upgrade from. Each one takes
+ * the raw parsed snapshot of that version and returns the next version's shape.
+ */
+const MIGRATIONS: Record<number, (snapshot: RawSnapshot) => RawSnapshot> = {
+  // v2: ammo pools are keyed by ammo type instead of weapon
+  1: (snapshot) => {
+    const byAmmoType = (pools: unknown) => ({
+      bullets: asRecord(pools).pistol ?? 0,
+      shells: asRecord(pools).shotgun ?? 0,
+      belts: asRecord(pools).chaingun ?? 0,
+    });
+    const player = asRecord(snapshot.data.player);
+    return {
+      ...snapshot,
+      version: 2,
+      data: {
+        ...snapshot.data,
+        player: {
+          ...player,
+          ammo: byAmmoType(player.ammo),
+          maxAmmo: byAmmoType(player.maxAmmo),
+        },
+      },
+    };
+  },
+  // v3: pending simulation timers are saved with the run
+  2: (snapshot) => ({
+    ...snapshot,
+    version: 3,
+    data: { ...snapshot.data, timers: [], nextTimerId: 1 },
+  }),
+  // v4: console cheats and the cheated-run flag are saved with the run
+  3: (snapshot) => ({
+    ...snapshot,
+    version: 4,
+    data: {
+      ...snapshot.data,
+      cheats: { god: false, noclip: false, reveal: false },
+      cheated: false,
+    },
+  }),
+  // v5: the run's skill level; older runs were played at the one difficulty
+  4: (snapshot) => ({
+    ...snapshot,
+    version: 5,
+    data: { ...snapshot.data, skill: "medium" },
+  }),
+  // v6: game mode and survival wave progress; older saves are all campaign
+  5: (snapshot) => ({
+    ...snapshot,
+    version: 6,
+    data: { ...snapshot.data, mode: "campaign", survival: null },
+  }),
+  // v7: play stats and map discovery; counting starts over from the load
+  6: (snapshot) => {
+    const worldMap = asArray(snapshot.data.worldMap).map(asArray);
+    const { worldSize } = snapshot.data;
+    const size = typeof worldSize === "number" ? worldSize : worldMap.length;
+    const openTiles = worldMap.flat().filter((cell) => cell === 0).length;
+    return {
+      ...snapshot,
+      version: 7,
+      data: {
+        ...snapshot.data,
+        floorStats: createPlayStats(openTiles),
+        runStats: createPlayStats(openTiles),
+        discovered: new Array(Math.ceil((size * size) / 32)).fill(0),
+      },
+    };
+  },
+  // v8: perks picked between floors
+  7: (snapshot) => ({
+    ...snapshot,
+    version: 8,
+    data: {
+      ...snapshot.data,
+      player: { ...asRecord(snapshot.data.player), perks: {} },
+    },
+  }),
+  // v9: armor, and pickup counts for the armor pickups
+  8: (snapshot) => {
+    const withArmorPickups = (stats: unknown) => ({
+      ...asRecord(stats),
+      pickups: {
+        armor_bonus: 0,
+        green_armor: 0,
+        blue_armor: 0,
+        ...asRecord(asRecord(stats).pickups),
+      },
+    });
+    return {
+      ...snapshot,
+      version: 9,
+      data: {
+        ...snapshot.data,
+        player: {
+          ...asRecord(snapshot.data.player),
+          armor: 0,
+          armorClass: null,
+        },
+        floorStats: withArmorPickups(snapshot.data.floorStats),
+        runStats: withArmorPickups(snapshot.data.runStats),
+      },
+    };
+  },
+  // v10: timed power-ups, and pickup counts for them
+  9: (snapshot) => {
+    const withPowerUpPickups = (stats: unknown) => ({
+      ...asRecord(stats),
+      pickups: {
+        invulnerability: 0,
+        berserk: 0,
+        invisibility: 0,
+        light_amp: 0,
+        ...asRecord(asRecord(stats).pickups),
+      },
+    });
+    return {
+      ...snapshot,
+      version: 10,
+      data: {
+        ...snapshot.data,
+        player: { ...asRecord(snapshot.data.player), powerUps: {} },
+        floorStats: withPowerUpPickups(snapshot.data.floorStats),
+        runStats: withPowerUpPickups(snapshot.data.runStats),
+      },
+    };
+  },
+  // v11: keycards and locked doors; older floors have no locks
+  10: (snapshot) => {
+    const withKeycardPickups = (stats: unknown) => ({
+      ...asRecord(stats),
+      pickups: { keycard: 0, ...asRecord(asRecord(stats).pickups) },
+    });
+    return {
+      ...snapshot,
+      version: 11,
+      data: {
+        ...snapshot.data,
+        player: { ...asRecord(snapshot.data.player), keycards: [] },
+        floorStats: withKeycardPickups(snapshot.data.floorStats),
+        runStats: withKeycardPickups(snapshot.data.runStats),
+      },
+    };
+  },
+  // v12: sliding doors; older floors only have open doorways
+  11: (snapshot) => ({
+    ...snapshot,
+    version: 12,
+    data: { ...snapshot.data, doors: [] },
+  }),
+  // v13: switches and secrets; older doors all open for anyone walking up
+  12: (snapshot) => {
+    const withSecrets = (stats: unknown) => ({
+      ...asRecord(stats),
+      secretsFound: 0,
+      secrets: 0,
+    });
+    return {
+      ...snapshot,
+      version: 13,
+      data: {
+        ...snapshot.data,
+        doors: asArray(snapshot.data.doors).map((door) => ({
+          ...asRecord(door),
+          trigger: "proximity",
+        })),
+        switches: [],
+        pushWalls: [],
+        floorStats: withSecrets(snapshot.data.floorStats),
+        runStats: withSecrets(snapshot.data.runStats),
+      },
+    };
+  },
+  // v14: floor objectives; older floors were won by killing everything
+  13: (snapshot) => ({
+    ...snapshot,
+    version: 14,
+    data: {
+      ...snapshot.data,
+      objective:
+        snapshot.data.mode === "survival"
+          ? null
+          : { id: "kill_all", ticksLeft: 0, complete: false },
+    },
+  }),
+  // v15: hazard floors and the radiation suit; older floors are all safe
+  14: (snapshot) => {
+    const withSuitPickups = (stats: unknown) => ({
+      ...asRecord(stats),
+      pickups: {
+        radiation_suit: 0,
+        ...asRecord(asRecord(stats).pickups),
+      },
+    });
+    return {
+      ...snapshot,
+      version: 15,
+      data: {
+        ...snapshot.data,
+        hazardMap: asArray(snapshot.data.worldMap).map((row) =>
+          asArray(row).map(() => 0)
+        ),
+        floorStats: withSuitPickups(snapshot.data.floorStats),
+        runStats: withSuitPickups(snapshot.data.runStats),
+      },
+    };
+  },
+  // v16: crushers; older floors have none
+  15: (snapshot) => ({
+    ...snapshot,
+    version: 16,
+    data: { ...snapshot.data, crushers: [] },
+  }),
+};
+
+function isRawSnapshot(value: unknown): value is RawSnapshot {
+  return (
+    isRecord(value) &&
+    typeof value.version === "number" &&
+    Number.isInteger(value.version) &&
+    isRecord(value.data)
+  );
+}
+
+/**
+ * Spot-check the fields restoring a save leans on, so a damaged or
+ * hand-edited save is turned away at load rather than mid-game
+ */
+function isSaveData(value: unknown): value is SaveData {
+  const data = value as SaveData;
+  return (
+    isRecord(data) &&
+    isRecord(data.player) &&
+    Array.isArray(data.player.availableWeapons) &&
+    [
+      data.enemies,
+      data.pickups,
+      data.worldMap,
+      data.hazardMap,
+      data.doors,
+      data.crushers,
+      data.switches,
+      data.pushWalls,
+      data.timers,
+      data.discovered,
+    ].every(Array.isArray) &&
+    [
+      data.worldSize,
+      data.currentFloor,
+      data.runSeed,
+      data.floorSeed,
+      data.rngState,
+      data.nextPickupId,
+      data.nextEnemyId,
+      data.nextTimerId,
+    ].every((field) => typeof field === "number" && Number.isFinite(field)) &&
+    isSkillId(data.skill) &&
+    GAME_MODES.includes(data.mode) &&
+    isRecord(data.floorStats) &&
+    isRecord(data.runStats)
+  );
+}
+
+/**
+ * Upgrade a parsed snapshot to SAVE_VERSION, or return null if it can't be read
+ */
+export function migrateSnapshot(raw: unknown): SaveSnapshot | null {
+  if (!isRawSnapshot(raw)) {
+    return null;
+  }
+
+  let snapshot = raw;
+  while (snapshot.version < SAVE_VERSION) {
+    const migrate = MIGRATIONS[snapshot.version];
+    if (!migrate) {
+      console.warn(`No save migration from version ${snapshot.version}`);
+      return null;
+    }
+    snapshot = migrate(snapshot);
+  }
+
+  if (snapshot.version > SAVE_VERSION) {
+    console.warn(
+      `Save version ${snapshot.version} is newer than supported ${SAVE_VERSION}`
+    );
+    return null;
+  }
+
+  if (!isSaveData(snapshot.data)) {
+    console.warn("Save data is malformed");
+    return null;
+  }
+  return {
+    version: snapshot.version,
+    savedAt: typeof snapshot.savedAt === "number" ? snapshot.savedAt : 0,
+    data: snapshot.data,
+  };
+}
+
+/**
+ * Build a versioned snapshot from the live game state
+ */
+export function createSnapshot(
+  state: Readonly<GameState>,
+  rngState: number
+): SaveSnapshot {
+  // Round-trip through JSON so the snapshot never aliases live state
+  const data: SaveData = JSON.parse(
+    JSON.stringify({
+      player: {
+        ...state.player,
+        availableWeapons: Array.from(state.player.availableWeapons),
+      },
+      enemies: state.enemies,
+      pickups: state.pickups,
+      worldMap: state.worldMap,
+      hazardMap: state.hazardMap,
+      doors: state.doors,
+      crushers: state.crushers,
+      switches: state.switches,
+      pushWalls: state.pushWalls,
+      objective: state.objective,
+      worldSize: state.worldSize,
+      currentFloor: state.currentFloor,
+      floorTheme: state.floorTheme,
+      isBossFloor: state.isBossFloor,
+      bossDefeated: state.bossDefeated,
+      runSeed: state.runSeed,
+      skill: state.skill,
+      mode: state.mode,
+      survival: state.survival,
+      floorStats: state.floorStats,
+      runStats: state.runStats,
+      discovered: state.discovered,
+      floorSeed: state.floorSeed,
+      rngState,
+      nextPickupId: state.nextPickupId,
+      nextEnemyId: state.nextEnemyId,
+      timers: state.timers,
+      nextTimerId: state.nextTimerId,
+      cheats: state.cheats,
+      cheated: state.cheated,
+    })
+  );
+
+  return { version: SAVE_VERSION, savedAt: Date.now(), data };
+}
+
+/**
+ * Rebuild a playable GameState from a (migrated) snapshot
+ */
+export function restoreSnapshot(snapshot: SaveSnapshot): {
+  state: GameState;
+  rngState: number;
+} {
+  const { rngState, ...data } = JSON.parse(JSON.stringify(snapshot.data));
+
+  return {
+    state: {
+      ...data,
+      player: {
+        ...data.player,
+        availableWeapons: new Set(data.player.availableWeapons),
+        isAttacking: false,
+        attackTimer: 0,
+        muzzleFlash: false,
+        muzzleFlashTimer: 0,
+      },
+      gameStatus: "playing",
+      perkChoices: [], // Only offered on the victory screen, which can't save
+      lastUpdateTime: 0,
+      accumulator: 0,
+      isPaused: false,
+      timeScale: 1,
+    },
+    rngState,
+  };
+}
+
+/**
+ * Save slots persisted to localStorage
+ * @author @darianrosebrook
+ */
+export class SaveSystem {
+  private storage: Storage | null;
+
+  constructor(
+    storage: Storage | null = typeof localStorage !== "undefined"
+      ? localStorage
+      : null
+  ) {
+    this.storage = storage;
+  }
+
+  public save(slot: SaveSlot, snapshot: SaveSnapshot): boolean {
+    if (!this.storage) return false;
+
+    try {
+      this.storage.setItem(STORAGE_PREFIX + slot, JSON.stringify(snapshot));
+      return true;
+    } catch (error) {
+      console.warn(`Failed to save to ${slot}:`, error);
+      return false;
+    }
+  }
+
+  public load(slot: SaveSlot): SaveSnapshot | null {
+    if (!this.storage) return null;
+
+    try {
+      const raw = this.storage.getItem(STORAGE_PREFIX + slot);
+      if (!raw) return null;
+      return migrateSnapshot(JSON.parse(raw));
+    } catch (error) {
+      console.warn(`Failed to load ${slot}:`, error);
+      return null;
+    }
+  }
+
+  public delete(slot: SaveSlot): void {
+    this.storage?.removeItem(STORAGE_PREFIX + slot);
+  }
+
+  public listSlots(): SaveSlotInfo[] {
+    return SAVE_SLOTS.map((slot) => ({ slot, snapshot: this.load(slot) }));
+  }
+
+  /**
+   * Most recently written save across all slots, used by "Continue"
+   */
+  public getMostRecent(): SaveSlotInfo | null {
+    let latest: SaveSlotInfo | null = null;
+    for (const info of this.listSlots()) {
+      if (
+        info.snapshot &&
+        (!latest?.snapshot || info.snapshot.savedAt > latest.snapshot.savedAt)
+      ) {
+        latest = info;
+      }
+    }
+    return latest;
+  }
+}